@@ -5,6 +5,20 @@ const db = knex(config);
 
 async function dropTables() {
   try {
+    await db.raw('DROP TABLE IF EXISTS order_code_sequences CASCADE');
+    await db.raw('DROP TABLE IF EXISTS kitchen_hours CASCADE');
+    await db.raw('DROP TABLE IF EXISTS failed_trips CASCADE');
+    await db.raw('DROP TABLE IF EXISTS order_cancellations CASCADE');
+    await db.raw('DROP TABLE IF EXISTS dashboard_counters CASCADE');
+    await db.raw('DROP TABLE IF EXISTS processed_messages CASCADE');
+    await db.raw('DROP TABLE IF EXISTS outbox_events CASCADE');
+    await db.raw('DROP TABLE IF EXISTS refresh_tokens CASCADE');
+    await db.raw('DROP TABLE IF EXISTS users CASCADE');
+    await db.raw('DROP TABLE IF EXISTS rider_location_history CASCADE');
+    await db.raw('DROP TABLE IF EXISTS delivery_zones CASCADE');
+    await db.raw('DROP TABLE IF EXISTS dispatch_offers CASCADE');
+    await db.raw('DROP TABLE IF EXISTS dispatch_rounds CASCADE');
+    await db.raw('DROP TABLE IF EXISTS order_status_transitions CASCADE');
     await db.raw('DROP TABLE IF EXISTS order_total_amount_history CASCADE');
     await db.raw('DROP TABLE IF EXISTS logs CASCADE');
     await db.raw('DROP TABLE IF EXISTS orders CASCADE');
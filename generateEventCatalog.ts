@@ -0,0 +1,9 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { renderEventCatalog } from './src/events/event-catalog';
+
+const target = join(__dirname, 'docs', 'events.md');
+
+mkdirSync(dirname(target), { recursive: true });
+writeFileSync(target, renderEventCatalog());
+console.log(`Event catalogue written to ${target}`);
@@ -1,18 +1,45 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD, DiscoveryModule } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DatabaseService } from './config/database.service';
-import { RabbitMQService } from './rabbitmq/rabbitmq.service';
+import { EventBusModule } from './events/event-bus.module';
+import { OutboxService } from './outbox/outbox.service';
+import { OutboxRelayService } from './outbox/outbox-relay.service';
+import { DeliveryEventsExplorer } from './rabbitmq/delivery-events.explorer';
+import { DeadLetterService } from './rabbitmq/dead-letter.service';
+import { DeadLettersController } from './rabbitmq/dead-letters.controller';
+import { OrderLogsConsumer } from './orders/order-logs.consumer';
+import { RiderNotificationsConsumer } from './websockets/rider-notifications.consumer';
+import { KitchenNotificationsConsumer } from './websockets/kitchen-notifications.consumer';
+import { DashboardCountersService } from './dispatch/dashboard-counters.service';
 import { OrdersService } from './orders/orders.service';
-import { RidersService } from './riders/riders.service';
 import { DispatchGateway } from './websockets/dispatch.gateway';
 import { OrdersController } from './orders/orders.controller';
 import { RidersController } from './riders/riders.controller';
 import { DispatchController } from './dispatch/dispatch.controller';
+import { DispatchEngineService } from './dispatch/dispatch-engine.service';
+import { RiderScoringService } from './dispatch/scoring/rider-scoring.service';
+import { ZonesService } from './zones/zones.service';
+import { OrderTrackingService } from './orders/order-tracking.service';
+import { ScheduledOrdersService } from './orders/scheduled-orders.service';
+import { OrderCodesService } from './orders/order-codes.service';
+import { ScheduledOrderReleaseService } from './orders/scheduled-order-release.service';
+import { KitchenHoursService } from './kitchen/kitchen-hours.service';
+import { ZonesController } from './zones/zones.controller';
+import { OrderTypesController } from './order-types/order-types.controller';
+import { OrderTypesService } from './order-types/order-types.service';
+import { KitchenController } from './kitchen/kitchen.controller';
+import { HealthController } from './health/health.controller';
+import { HealthService } from './health/health.service';
+import { MetricsModule } from './metrics/metrics.module';
+import { MetricsController } from './metrics/metrics.controller';
 import { CustomLogger } from './common/logger/logger.service';
 import { RidersModule } from './riders/riders.module';
 import { AuthModule } from './auth/auth.module';
+import { JwtAuthGuard } from './auth/jwt-auth.guard';
+import { RolesGuard } from './auth/roles.guard';
 
 @Module({
   imports: [
@@ -25,30 +52,52 @@ import { AuthModule } from './auth/auth.module';
         }),
       ],
     }),
+    DiscoveryModule,
+    EventBusModule,
+    MetricsModule,
     RidersModule,
-    AuthModule
+    AuthModule,
   ],
   controllers: [
     AppController,
     OrdersController,
     RidersController,
     DispatchController,
+    ZonesController,
+    OrderTypesController,
+    KitchenController,
+    DeadLettersController,
+    HealthController,
+    MetricsController,
   ],
   providers: [
     AppService,
     DatabaseService,
-    RabbitMQService,
+    OutboxService,
+    OutboxRelayService,
+    DeliveryEventsExplorer,
+    DeadLetterService,
+    OrderLogsConsumer,
+    RiderNotificationsConsumer,
+    KitchenNotificationsConsumer,
+    DashboardCountersService,
     OrdersService,
-    RidersService,
-    DispatchGateway,
-    CustomLogger
-  ],
-  exports: [
-    DatabaseService,
-    RabbitMQService,
-    OrdersService,
-    RidersService,
+    OrderTrackingService,
+    ScheduledOrdersService,
+    ScheduledOrderReleaseService,
+    OrderCodesService,
+    KitchenHoursService,
     DispatchGateway,
+    DispatchEngineService,
+    RiderScoringService,
+    ZonesService,
+    OrderTypesService,
+    HealthService,
+    CustomLogger,
+    // Authenticate every HTTP route, then check its @Roles() policy
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
   ],
+  exports: [DatabaseService, EventBusModule, OrdersService, DispatchGateway],
 })
 export class AppModule {}
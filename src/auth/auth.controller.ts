@@ -1,7 +1,24 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Request,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { CreateRiderDto, LoginRiderDto } from '../dto/rider.dto';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { StaffLoginDto } from '../dto/user.dto';
+import { RefreshTokenDto } from '../dto/auth.dto';
+import { Public, Roles } from './roles.decorator';
+import { Role } from './roles';
+import { SessionClient } from './sessions.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -11,17 +28,84 @@ export class AuthController {
   @ApiOperation({ summary: 'Register a new rider' })
   @ApiResponse({ status: 201, description: 'Rider registered successfully' })
   @ApiResponse({ status: 409, description: 'Email already registered' })
+  @Public()
   @Post('register')
-  async register(@Body() createRiderDto: CreateRiderDto) {
-    return this.authService.register(createRiderDto);
+  async register(@Request() req, @Body() createRiderDto: CreateRiderDto) {
+    return this.authService.register(
+      createRiderDto,
+      this.sessionClient(req, createRiderDto.device_id),
+    );
   }
 
   @ApiOperation({ summary: 'Log in a rider' })
   @ApiResponse({ status: 200, description: 'Login successful' })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
+  @Public()
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body() loginDto: LoginRiderDto) {
-    return this.authService.login(loginDto);
+  async login(@Request() req, @Body() loginDto: LoginRiderDto) {
+    return this.authService.login(
+      loginDto,
+      this.sessionClient(req, loginDto.device_id),
+    );
+  }
+
+  @ApiOperation({
+    summary:
+      'Log in a staff user (dispatcher, kitchen, customer service or admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Login successful; the token carries the user's role",
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid credentials or inactive user',
+  })
+  @Public()
+  @Post('staff/login')
+  @HttpCode(HttpStatus.OK)
+  async staffLogin(@Request() req, @Body() loginDto: StaffLoginDto) {
+    return this.authService.staffLogin(
+      loginDto,
+      this.sessionClient(req, loginDto.device_id),
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Exchange a refresh token for a new access and refresh token pair',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens rotated; the old refresh token can no longer be used',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token is invalid, expired or was already used',
+  })
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Request() req, @Body() refreshDto: RefreshTokenDto) {
+    return this.authService.refresh(
+      refreshDto.refresh_token,
+      this.sessionClient(req, refreshDto.device_id),
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Log out, revoking the current session and its refresh tokens',
+  })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiBearerAuth()
+  @Roles(Role.RIDER, Role.DISPATCHER, Role.KITCHEN, Role.CUSTOMER_SERVICE)
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Request() req) {
+    await this.authService.logout(req.user);
+  }
+
+  private sessionClient(req, deviceId?: string): SessionClient {
+    return { deviceId, userAgent: req.headers?.['user-agent'] };
   }
 }
@@ -5,6 +5,11 @@ import { RidersModule } from '../riders/riders.module';
 import { PassportModule } from '@nestjs/passport';
 import { JwtModule } from '@nestjs/jwt';
 import { JwtStrategy } from './jwt.strategy';
+import { TrackingTokenService } from './tracking-token.service';
+import { SessionsService } from './sessions.service';
+import { UsersService } from '../users/users.service';
+import { UsersController } from '../users/users.controller';
+import { CustomLogger } from '../common/logger/logger.service';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 
 @Module({
@@ -17,12 +22,19 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
       inject: [ConfigService],
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
-        signOptions: { expiresIn: '1h' },
+        signOptions: { expiresIn: configService.get('JWT_ACCESS_TTL', '1h') },
       }),
     }),
   ],
-  providers: [AuthService, JwtStrategy],
-  controllers: [AuthController],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    TrackingTokenService,
+    SessionsService,
+    UsersService,
+    CustomLogger,
+  ],
+  controllers: [AuthController, UsersController],
+  exports: [AuthService, TrackingTokenService, SessionsService, UsersService],
 })
 export class AuthModule {}
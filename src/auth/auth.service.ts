@@ -1,49 +1,140 @@
-import { Injectable, UnauthorizedException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  ConflictException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { RidersService } from '../riders/riders.service';
+import { UsersService } from '../users/users.service';
 import { CreateRiderDto, LoginRiderDto } from '../dto/rider.dto';
+import { StaffLoginDto } from '../dto/user.dto';
 import * as bcrypt from 'bcrypt';
+import { AuthenticatedUser, toAuthenticatedUser } from './authenticated-user';
+import {
+  SessionClient,
+  SessionTokens,
+  SessionsService,
+} from './sessions.service';
+import { Role } from './roles';
 
 @Injectable()
 export class AuthService {
   constructor(
     private readonly ridersService: RidersService,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
     private readonly jwtService: JwtService,
   ) {}
 
-  async register(createRiderDto: CreateRiderDto): Promise<{ access_token: string }> {
-    const existingRider = await this.ridersService.findByEmail(createRiderDto.email);
-    if (existingRider) {
+  async register(
+    createRiderDto: CreateRiderDto,
+    client: SessionClient = {},
+  ): Promise<SessionTokens> {
+    const existingRider = await this.ridersService.findByEmail(
+      createRiderDto.email,
+    );
+    if (existingRider.rider) {
       throw new ConflictException('Email already registered');
     }
 
     const hashedPassword = await bcrypt.hash(createRiderDto.password, 10);
-    
+
     const rider = await this.ridersService.create({
-      ...createRiderDto,
+      name: createRiderDto.name,
+      email: createRiderDto.email,
+      phone: createRiderDto.phone,
       password: hashedPassword,
     });
 
-    const payload = { email: rider.email, sub: rider.id };
-    return {
-      access_token: this.jwtService.sign(payload),
-    };
+    return this.sessionsService.startSession(
+      { type: 'rider', id: rider.id, email: rider.email, role: Role.RIDER },
+      client,
+    );
   }
 
-  async login(loginDto: LoginRiderDto): Promise<{ access_token: string }> {
+  async login(
+    loginDto: LoginRiderDto,
+    client: SessionClient = {},
+  ): Promise<SessionTokens> {
     const rider = await this.ridersService.findByEmail(loginDto.email);
     if (!rider || !rider.rider?.password) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const isPasswordMatching = await bcrypt.compare(loginDto.password, rider.rider.password);
+    const isPasswordMatching = await bcrypt.compare(
+      loginDto.password,
+      rider.rider.password,
+    );
     if (!isPasswordMatching) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const payload = { email: rider.rider.email, sub: rider.rider.id };
-    return {
-      access_token: this.jwtService.sign(payload),
-    };
+    return this.sessionsService.startSession(
+      {
+        type: 'rider',
+        id: rider.rider.id,
+        email: rider.rider.email,
+        role: Role.RIDER,
+      },
+      client,
+    );
+  }
+
+  async staffLogin(
+    loginDto: StaffLoginDto,
+    client: SessionClient = {},
+  ): Promise<SessionTokens> {
+    const user = await this.usersService.findByEmailWithPassword(
+      loginDto.email,
+    );
+    if (!user?.password || !user.is_active) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const isPasswordMatching = await bcrypt.compare(
+      loginDto.password,
+      user.password,
+    );
+    if (!isPasswordMatching) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    return this.sessionsService.startSession(
+      { type: 'user', id: user.id, email: user.email, role: user.role },
+      client,
+    );
+  }
+
+  async refresh(
+    refreshToken: string,
+    client: SessionClient = {},
+  ): Promise<SessionTokens> {
+    return this.sessionsService.refresh(refreshToken, client);
+  }
+
+  async logout(user: AuthenticatedUser): Promise<void> {
+    // Tokens issued before sessions existed have nothing to revoke and expire on their own
+    if (user.sid) {
+      await this.sessionsService.revokeSession(user.sid, 'logout');
+    }
+  }
+
+  /** Verifies an access token outside of passport, e.g. during a socket handshake. */
+  async verifyAccessToken(token: string): Promise<AuthenticatedUser> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(token);
+    } catch (error) {
+      throw new UnauthorizedException(`Invalid access token: ${error.message}`);
+    }
+
+    const user = toAuthenticatedUser(payload);
+    if (!user) {
+      throw new UnauthorizedException('Token is not an access token');
+    }
+    if (user.sid && !(await this.sessionsService.isSessionActive(user.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    return user;
   }
 }
@@ -0,0 +1,37 @@
+import { TRACKING_TOKEN_AUDIENCE } from './tracking-token.service';
+import { Role, isRole } from './roles';
+
+// Tokens issued before roles existed carry no role claim and belong to riders
+export const DEFAULT_TOKEN_ROLE = Role.RIDER;
+
+export interface AuthenticatedUser {
+  sub: string;
+  userId: string;
+  email?: string;
+  role: Role;
+  sid?: string; // login session (refresh token family) the token belongs to
+}
+
+/**
+ * Maps a verified access-token payload onto the request/socket user, or
+ * returns null for tokens that must not authenticate staff or riders.
+ */
+export function toAuthenticatedUser(payload: any): AuthenticatedUser | null {
+  // Customer tracking tokens share the signing secret but only grant
+  // read access to one order
+  if (!payload?.sub || payload.aud === TRACKING_TOKEN_AUDIENCE) {
+    return null;
+  }
+  const role = payload.role ?? DEFAULT_TOKEN_ROLE;
+  if (!isRole(role)) {
+    return null;
+  }
+
+  return {
+    sub: String(payload.sub),
+    userId: String(payload.sub),
+    email: payload.email,
+    role,
+    sid: payload.sid,
+  };
+}
@@ -1,11 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { toAuthenticatedUser } from './authenticated-user';
+import { SessionsService } from './sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -14,12 +19,14 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
-    const userId = payload.sub;
-    console.log(userId)
-    return { 
-      sub: userId,
-      userId: userId,
-      email: payload.email 
-    };
+    // false makes passport reject the request with 401
+    const user = toAuthenticatedUser(payload);
+    if (!user) {
+      return false;
+    }
+    if (user.sid && !(await this.sessionsService.isSessionActive(user.sid))) {
+      return false;
+    }
+    return user;
   }
 }
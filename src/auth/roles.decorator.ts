@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from './roles';
+
+export const ROLES_KEY = 'roles';
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/** Roles allowed to call the route. Admins are always allowed. */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+/** Route needs no authentication at all. */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
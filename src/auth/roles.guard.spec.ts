@@ -0,0 +1,191 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { Role } from './roles';
+import { AppController } from '../app.controller';
+import { AuthController } from './auth.controller';
+import { OrdersController } from '../orders/orders.controller';
+import { RidersController } from '../riders/riders.controller';
+import { DispatchController } from '../dispatch/dispatch.controller';
+import { ZonesController } from '../zones/zones.controller';
+import { OrderTypesController } from '../order-types/order-types.controller';
+import { KitchenController } from '../kitchen/kitchen.controller';
+import { UsersController } from '../users/users.controller';
+import { DeadLettersController } from '../rabbitmq/dead-letters.controller';
+import { HealthController } from '../health/health.controller';
+import { MetricsController } from '../metrics/metrics.controller';
+
+type Policy = Role[] | 'public';
+
+const { RIDER, DISPATCHER, KITCHEN, CUSTOMER_SERVICE, ADMIN } = Role;
+const STAFF_READ = [DISPATCHER, CUSTOMER_SERVICE, KITCHEN];
+
+// Every HTTP route and the roles allowed to call it. Admins may call anything.
+const MATRIX: Array<[any, string, Policy]> = [
+  [AppController, 'getHello', 'public'],
+
+  [AuthController, 'register', 'public'],
+  [AuthController, 'login', 'public'],
+  [AuthController, 'staffLogin', 'public'],
+  [AuthController, 'refresh', 'public'],
+  [AuthController, 'logout', [RIDER, DISPATCHER, KITCHEN, CUSTOMER_SERVICE]],
+
+  [OrdersController, 'createOrder', [DISPATCHER, CUSTOMER_SERVICE]],
+  [OrdersController, 'getAllOrders', STAFF_READ],
+  [OrdersController, 'getOrderByCode', STAFF_READ],
+  [OrdersController, 'getScheduledOrders', STAFF_READ],
+  [OrdersController, 'rescheduleOrder', [CUSTOMER_SERVICE, DISPATCHER]],
+  [OrdersController, 'cancelScheduledOrder', [CUSTOMER_SERVICE, DISPATCHER]],
+  [OrdersController, 'getOrderById', STAFF_READ],
+  [OrdersController, 'getOrderLogs', STAFF_READ],
+  [OrdersController, 'getOrderTransitions', STAFF_READ],
+  [OrdersController, 'updateOrderStatus', [DISPATCHER, KITCHEN, RIDER]],
+  [
+    OrdersController,
+    'cancelOrder',
+    [CUSTOMER_SERVICE, DISPATCHER, KITCHEN, RIDER],
+  ],
+  [OrdersController, 'reportFailedTrip', [RIDER, DISPATCHER]],
+  [OrdersController, 'resolveFailedTrip', [DISPATCHER]],
+  [OrdersController, 'rateOrder', [CUSTOMER_SERVICE]],
+  [OrdersController, 'getMostBoughtMeal', [DISPATCHER, CUSTOMER_SERVICE]],
+  [OrdersController, 'getDailyOrderStats', [DISPATCHER, CUSTOMER_SERVICE]],
+  [OrdersController, 'getFailedTripStats', [DISPATCHER, CUSTOMER_SERVICE]],
+  [OrdersController, 'assignRider', [DISPATCHER]],
+
+  [RidersController, 'updateLocation', [RIDER]],
+  [RidersController, 'updateAvailability', [RIDER]],
+  [RidersController, 'checkLocationIndexConsistency', []],
+  [RidersController, 'revokeSessions', []],
+  [RidersController, 'getRiderTrack', [DISPATCHER, CUSTOMER_SERVICE]],
+  [RidersController, 'getRiderStats', [DISPATCHER, CUSTOMER_SERVICE, RIDER]],
+  [RidersController, 'findNearbyRiders', [DISPATCHER]],
+
+  [DispatchController, 'getActiveRiders', [DISPATCHER]],
+  [DispatchController, 'assignOrderToRider', [DISPATCHER]],
+  [DispatchController, 'startAutoDispatch', [DISPATCHER]],
+  [DispatchController, 'getDispatchOffers', [DISPATCHER]],
+  [DispatchController, 'getNearbyRidersForOrder', [DISPATCHER]],
+  [DispatchController, 'broadcastOrderToNearbyRiders', [DISPATCHER]],
+  [DispatchController, 'getDashboardStats', [DISPATCHER, CUSTOMER_SERVICE]],
+
+  [ZonesController, 'createZone', []],
+  [ZonesController, 'getZones', STAFF_READ],
+  [ZonesController, 'lookupZone', STAFF_READ],
+  [ZonesController, 'getZone', STAFF_READ],
+  [ZonesController, 'updateZone', []],
+  [ZonesController, 'deleteZone', []],
+  [ZonesController, 'getZoneRiders', [DISPATCHER]],
+  [ZonesController, 'assignRider', [DISPATCHER]],
+  [ZonesController, 'unassignRider', [DISPATCHER]],
+
+  [OrderTypesController, 'createOrderType', []],
+  [OrderTypesController, 'getOrderTypes', STAFF_READ],
+  [OrderTypesController, 'getOrderType', STAFF_READ],
+  [OrderTypesController, 'updateOrderType', []],
+
+  [KitchenController, 'getQueue', [KITCHEN, DISPATCHER]],
+  [KitchenController, 'acceptOrder', [KITCHEN]],
+  [KitchenController, 'markPrepared', [KITCHEN]],
+  [KitchenController, 'setPlacement', [KITCHEN]],
+  [KitchenController, 'handOff', [KITCHEN]],
+  [KitchenController, 'getHours', STAFF_READ],
+  [KitchenController, 'setHours', []],
+
+  [UsersController, 'createUser', []],
+  [UsersController, 'getUsers', []],
+  [UsersController, 'getUser', []],
+  [UsersController, 'updateUser', []],
+
+  [DeadLettersController, 'getQueues', []],
+  [DeadLettersController, 'getMessages', []],
+  [DeadLettersController, 'replay', []],
+  [DeadLettersController, 'purge', []],
+  [DeadLettersController, 'purgeMessage', []],
+
+  [HealthController, 'live', 'public'],
+  [HealthController, 'ready', 'public'],
+  [MetricsController, 'scrape', 'public'],
+];
+
+function contextFor(
+  controller: any,
+  handler: string,
+  role?: Role,
+): ExecutionContext {
+  const request = {
+    method: 'GET',
+    url: `/${handler}`,
+    user: role ? { userId: '1', role } : undefined,
+  };
+  return {
+    getType: () => 'http',
+    getClass: () => controller,
+    getHandler: () => controller.prototype[handler],
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function isAllowed(controller: any, handler: string, role?: Role): boolean {
+  const guard = new RolesGuard(new Reflector());
+  try {
+    return guard.canActivate(contextFor(controller, handler, role));
+  } catch (error) {
+    if (error instanceof ForbiddenException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+describe('RolesGuard access matrix', () => {
+  it('covers every route handler of every controller', () => {
+    const controllers = [...new Set(MATRIX.map(([controller]) => controller))];
+    const routed = controllers.flatMap((controller) =>
+      Object.getOwnPropertyNames(controller.prototype)
+        .filter(
+          (name) =>
+            name !== 'constructor' &&
+            Reflect.getMetadata(PATH_METADATA, controller.prototype[name]) !==
+              undefined,
+        )
+        .map((name) => `${controller.name}.${name}`),
+    );
+
+    expect(routed.sort()).toEqual(
+      MATRIX.map(
+        ([controller, handler]) => `${controller.name}.${handler}`,
+      ).sort(),
+    );
+  });
+
+  const routes = MATRIX.map(([controller, handler, policy]) => ({
+    route: `${controller.name}.${handler}`,
+    controller,
+    handler,
+    policy,
+  }));
+
+  describe.each(routes)('$route', ({ controller, handler, policy }) => {
+    it.each(Object.values(Role))('applies the policy to %s', (role) => {
+      const expected =
+        policy === 'public' || role === ADMIN || policy.includes(role);
+      expect(isAllowed(controller, handler, role)).toBe(expected);
+    });
+
+    it('only lets anonymous callers through public routes', () => {
+      expect(isAllowed(controller, handler)).toBe(policy === 'public');
+    });
+  });
+
+  it('denies routes that declare no policy', () => {
+    class UnprotectedController {
+      handler() {
+        return 'unprotected';
+      }
+    }
+
+    expect(isAllowed(UnprotectedController, 'handler', ADMIN)).toBe(false);
+  });
+});
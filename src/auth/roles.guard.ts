@@ -0,0 +1,60 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY, ROLES_KEY } from './roles.decorator';
+import { Role } from './roles';
+
+/**
+ * Enforces @Roles() on HTTP routes. Routes must declare a policy: a route
+ * with neither @Roles() nor @Public() is denied so new endpoints cannot ship
+ * unprotected by accident. Socket events are authorised by the gateway.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const { method, url, user } = request;
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, targets);
+
+    if (!roles) {
+      this.logger.error(
+        `No access policy declared for ${context.getClass().name}.${context.getHandler().name}`,
+      );
+      throw new ForbiddenException({
+        code: 'ACCESS_POLICY_MISSING',
+        message: 'This route has no access policy',
+      });
+    }
+
+    if (user?.role === Role.ADMIN || roles.includes(user?.role)) {
+      return true;
+    }
+
+    this.logger.warn(
+      `Role '${user?.role}' denied ${method} ${url} (requires ${roles.join(', ')})`,
+    );
+    throw new ForbiddenException({
+      code: 'FORBIDDEN_ROLE',
+      message: 'Your role is not allowed to perform this action',
+      details: { required: roles, role: user?.role ?? null },
+    });
+  }
+}
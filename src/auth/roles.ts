@@ -0,0 +1,19 @@
+export enum Role {
+  RIDER = 'rider',
+  DISPATCHER = 'dispatcher',
+  KITCHEN = 'kitchen',
+  CUSTOMER_SERVICE = 'customer_service',
+  ADMIN = 'admin',
+}
+
+// Roles held by staff accounts in the users table; riders live in riders
+export const STAFF_ROLES = [
+  Role.DISPATCHER,
+  Role.KITCHEN,
+  Role.CUSTOMER_SERVICE,
+  Role.ADMIN,
+];
+
+export function isRole(value: unknown): value is Role {
+  return (Object.values(Role) as unknown[]).includes(value);
+}
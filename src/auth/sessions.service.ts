@@ -0,0 +1,308 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Knex } from 'knex';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import {
+  RefreshToken,
+  SessionSubjectType,
+} from '../models/refresh-token.model';
+import { Role } from './roles';
+
+export interface SessionSubject {
+  type: SessionSubjectType;
+  id: number;
+  email?: string;
+  role: Role;
+}
+
+export interface SessionClient {
+  deviceId?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // access token lifetime in seconds
+  session_id: string;
+}
+
+// Result of the locked part of a refresh; failures are thrown after commit so
+// revocations made while detecting them are kept
+type RefreshOutcome =
+  | { ok: true; tokens: SessionTokens }
+  | { ok: false; reason: string };
+
+export function subjectTypeForRole(role: Role): SessionSubjectType {
+  return role === Role.RIDER ? 'rider' : 'user';
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Login sessions backed by rotating refresh tokens. Each login starts a token
+ * family whose ID is the `sid` claim of every access token it issues;
+ * revoking the family ends the session everywhere.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly refreshTtlDays: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(SessionsService.name);
+    this.refreshTtlDays = parseInt(
+      this.configService.get('REFRESH_TOKEN_TTL_DAYS', '30'),
+    );
+  }
+
+  async startSession(
+    subject: SessionSubject,
+    client: SessionClient = {},
+  ): Promise<SessionTokens> {
+    const familyId = randomUUID();
+    const refreshToken = await this.insertRefreshToken(
+      this.db.knex,
+      subject,
+      familyId,
+      client,
+      null,
+    );
+    this.logger.log(
+      `Started session ${familyId} for ${subject.type} ${subject.id}`,
+    );
+    return this.issueTokens(subject, familyId, refreshToken);
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. Presenting a token that
+   * was already rotated means it leaked, so the whole family is revoked.
+   */
+  async refresh(
+    refreshToken: string,
+    client: SessionClient = {},
+  ): Promise<SessionTokens> {
+    const outcome = await this.db.knex.transaction<RefreshOutcome>(
+      async (trx) => {
+        const current: RefreshToken | undefined = await trx('refresh_tokens')
+          .where('token_hash', hashToken(refreshToken))
+          .forUpdate()
+          .first();
+
+        if (!current || current.revoked_at) {
+          return { ok: false, reason: 'unknown or revoked refresh token' };
+        }
+
+        if (current.used_at) {
+          await this.revokeFamily(trx, current.family_id, 'reuse_detected');
+          this.logger.warn(
+            `Refresh token reuse detected for session ${current.family_id} (${current.subject_type} ${current.subject_id}); session revoked`,
+          );
+          return { ok: false, reason: 'refresh token reuse detected' };
+        }
+
+        if (new Date(current.expires_at).getTime() <= Date.now()) {
+          return { ok: false, reason: 'refresh token expired' };
+        }
+
+        const subject = await this.loadSubject(trx, current);
+        if (!subject) {
+          await this.revokeFamily(trx, current.family_id, 'account_disabled');
+          return { ok: false, reason: 'account is disabled' };
+        }
+
+        await trx('refresh_tokens')
+          .where('id', current.id)
+          .update({ used_at: trx.fn.now() });
+
+        const next = await this.insertRefreshToken(
+          trx,
+          subject,
+          current.family_id,
+          {
+            deviceId: client.deviceId ?? current.device_id ?? undefined,
+            userAgent: client.userAgent ?? current.user_agent ?? undefined,
+          },
+          current.id,
+        );
+
+        return {
+          ok: true,
+          tokens: this.issueTokens(subject, current.family_id, next),
+        };
+      },
+    );
+
+    if (!outcome.ok) {
+      throw new UnauthorizedException({
+        code: 'INVALID_REFRESH_TOKEN',
+        message: `Cannot refresh session: ${outcome.reason}`,
+      });
+    }
+    return outcome.tokens;
+  }
+
+  async revokeSession(familyId: string, reason: string): Promise<void> {
+    try {
+      await this.revokeFamily(this.db.knex, familyId, reason);
+      this.logger.log(`Revoked session ${familyId} (${reason})`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to revoke session ${familyId}`,
+        error.stack,
+        'revokeSession',
+      );
+      throw error;
+    }
+  }
+
+  /** Ends every session of a rider or staff user; returns how many ended. */
+  async revokeAllForSubject(
+    type: SessionSubjectType,
+    id: number,
+    reason: string,
+  ): Promise<number> {
+    try {
+      const families = await this.db
+        .knex('refresh_tokens')
+        .where({ subject_type: type, subject_id: id })
+        .whereNull('revoked_at')
+        .distinct('family_id')
+        .pluck('family_id');
+
+      if (families.length) {
+        await this.db
+          .knex('refresh_tokens')
+          .whereIn('family_id', families)
+          .whereNull('revoked_at')
+          .update({
+            revoked_at: this.db.knex.fn.now(),
+            revoked_reason: reason,
+          });
+      }
+
+      this.logger.log(
+        `Revoked ${families.length} sessions of ${type} ${id} (${reason})`,
+      );
+      return families.length;
+    } catch (error) {
+      this.logger.error(
+        `Failed to revoke sessions of ${type} ${id}`,
+        error.stack,
+        'revokeAllForSubject',
+      );
+      throw error;
+    }
+  }
+
+  async isSessionActive(familyId: string): Promise<boolean> {
+    const active = await this.db
+      .knex('refresh_tokens')
+      .where('family_id', familyId)
+      .whereNull('revoked_at')
+      .first('id');
+    return Boolean(active);
+  }
+
+  /** Returns the subset of the given sessions that are no longer active. */
+  async findRevokedSessions(familyIds: string[]): Promise<Set<string>> {
+    if (!familyIds.length) {
+      return new Set();
+    }
+
+    const active: string[] = await this.db
+      .knex('refresh_tokens')
+      .whereIn('family_id', familyIds)
+      .whereNull('revoked_at')
+      .distinct('family_id')
+      .pluck('family_id');
+    const activeSet = new Set(active);
+    return new Set(familyIds.filter((id) => !activeSet.has(id)));
+  }
+
+  private async insertRefreshToken(
+    db: Knex | Knex.Transaction,
+    subject: SessionSubject,
+    familyId: string,
+    client: SessionClient,
+    parentId: number | null,
+  ): Promise<string> {
+    const token = randomBytes(48).toString('base64url');
+    await db('refresh_tokens').insert({
+      family_id: familyId,
+      subject_type: subject.type,
+      subject_id: subject.id,
+      device_id: client.deviceId ?? null,
+      user_agent: client.userAgent?.slice(0, 255) ?? null,
+      token_hash: hashToken(token),
+      parent_id: parentId,
+      expires_at: new Date(
+        Date.now() + this.refreshTtlDays * 24 * 60 * 60 * 1000,
+      ),
+    });
+    return token;
+  }
+
+  private issueTokens(
+    subject: SessionSubject,
+    familyId: string,
+    refreshToken: string,
+  ): SessionTokens {
+    const accessToken = this.jwtService.sign({
+      sub: subject.id,
+      email: subject.email,
+      role: subject.role,
+      sid: familyId,
+    });
+    const { iat, exp } = this.jwtService.decode(accessToken);
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: exp - iat,
+      session_id: familyId,
+    };
+  }
+
+  // Re-reads the account so refreshed tokens carry its current role
+  private async loadSubject(
+    trx: Knex.Transaction,
+    token: RefreshToken,
+  ): Promise<SessionSubject | null> {
+    if (token.subject_type === 'rider') {
+      const rider = await trx('riders')
+        .where('id', token.subject_id)
+        .first('id', 'email');
+      return rider
+        ? { type: 'rider', id: rider.id, email: rider.email, role: Role.RIDER }
+        : null;
+    }
+
+    const user = await trx('users')
+      .where('id', token.subject_id)
+      .first('id', 'email', 'role', 'is_active');
+    return user?.is_active
+      ? { type: 'user', id: user.id, email: user.email, role: user.role }
+      : null;
+  }
+
+  private async revokeFamily(
+    db: Knex | Knex.Transaction,
+    familyId: string,
+    reason: string,
+  ): Promise<void> {
+    await db('refresh_tokens')
+      .where('family_id', familyId)
+      .whereNull('revoked_at')
+      .update({ revoked_at: db.fn.now(), revoked_reason: reason });
+  }
+}
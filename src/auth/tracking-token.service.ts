@@ -0,0 +1,49 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+
+// Audience claim separating tracking tokens from rider access tokens
+export const TRACKING_TOKEN_AUDIENCE = 'order-tracking';
+
+/**
+ * Issues and verifies the signed tokens customers use to follow a single
+ * order. A tracking token grants read access to that order's live updates
+ * and nothing else.
+ */
+@Injectable()
+export class TrackingTokenService {
+  private readonly expiresIn: string;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {
+    this.expiresIn = this.configService.get('ORDER_TRACKING_TOKEN_TTL', '48h');
+  }
+
+  issue(orderId: number): string {
+    return this.jwtService.sign(
+      { sub: String(orderId) },
+      { audience: TRACKING_TOKEN_AUDIENCE, expiresIn: this.expiresIn },
+    );
+  }
+
+  /** Returns the order ID the token was issued for. */
+  verify(token: string): number {
+    try {
+      const payload = this.jwtService.verify(token, {
+        audience: TRACKING_TOKEN_AUDIENCE,
+      });
+      const orderId = Number(payload.sub);
+      if (!Number.isInteger(orderId)) {
+        throw new Error('Token subject is not an order ID');
+      }
+      return orderId;
+    } catch {
+      throw new UnauthorizedException({
+        code: 'INVALID_TRACKING_TOKEN',
+        message: 'Invalid or expired tracking token',
+      });
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+export interface CorrelationContext {
+  correlationId: string;
+  // ID of the event being handled when the current work was triggered by one
+  causationId?: string | null;
+}
+
+const storage = new AsyncLocalStorage<CorrelationContext>();
+
+export function getCorrelationContext(): CorrelationContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithCorrelation<T>(
+  context: CorrelationContext,
+  fn: () => T,
+): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Express middleware that adopts the caller's X-Correlation-Id (or starts a
+ * new one), echoes it on the response and makes it available to everything
+ * the request triggers, including the events it publishes.
+ */
+export function correlationMiddleware(req: any, res: any, next: () => void) {
+  const header = req.headers?.[CORRELATION_ID_HEADER];
+  const correlationId =
+    typeof header === 'string' && header.length > 0 && header.length <= 128
+      ? header
+      : randomUUID();
+
+  res.setHeader(CORRELATION_ID_HEADER, correlationId);
+  runWithCorrelation({ correlationId }, next);
+}
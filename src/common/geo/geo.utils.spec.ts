@@ -0,0 +1,87 @@
+import {
+  getBoundingBox,
+  haversineKm,
+  isPointInPolygon,
+  pathLengthKm,
+  simplifyPath,
+  validateGeoJsonPolygon,
+} from './geo.utils';
+
+// Square around central Lagos with a hole in the middle
+const polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [3.3, 6.4],
+      [3.5, 6.4],
+      [3.5, 6.6],
+      [3.3, 6.6],
+      [3.3, 6.4],
+    ],
+    [
+      [3.39, 6.49],
+      [3.41, 6.49],
+      [3.41, 6.51],
+      [3.39, 6.51],
+      [3.39, 6.49],
+    ],
+  ] as Array<Array<[number, number]>>,
+};
+
+describe('geo utils', () => {
+  it('computes haversine distances in km', () => {
+    expect(haversineKm(6.5, 3.3, 6.5, 3.3)).toBe(0);
+    expect(haversineKm(0, 0, 1, 0)).toBeCloseTo(111.19, 1);
+  });
+
+  it('detects points inside the outer ring but outside holes', () => {
+    expect(isPointInPolygon(6.45, 3.35, polygon)).toBe(true);
+    expect(isPointInPolygon(6.5, 3.4, polygon)).toBe(false);
+    expect(isPointInPolygon(6.7, 3.35, polygon)).toBe(false);
+  });
+
+  it('computes the bounding box of the outer ring', () => {
+    expect(getBoundingBox(polygon)).toEqual({
+      minLat: 6.4,
+      maxLat: 6.6,
+      minLng: 3.3,
+      maxLng: 3.5,
+    });
+  });
+
+  it('validates GeoJSON polygons', () => {
+    expect(validateGeoJsonPolygon(polygon)).toBeNull();
+    expect(validateGeoJsonPolygon({ type: 'Point', coordinates: [] })).toMatch(
+      /type 'Polygon'/,
+    );
+    expect(
+      validateGeoJsonPolygon({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [3.3, 6.4],
+            [3.5, 6.4],
+            [3.5, 6.6],
+            [3.3, 6.6],
+          ],
+        ],
+      }),
+    ).toMatch(/closed/);
+  });
+
+  it('simplifies paths while keeping endpoints and real turns', () => {
+    // Eastward drive with ~1 m GPS jitter, then a turn north
+    const path = [
+      { lat: 6.5, lng: 3.3 },
+      { lat: 6.50001, lng: 3.301 },
+      { lat: 6.49999, lng: 3.302 },
+      { lat: 6.5, lng: 3.303 },
+      { lat: 6.501, lng: 3.303 },
+      { lat: 6.502, lng: 3.303 },
+    ];
+
+    expect(simplifyPath(path, 10)).toEqual([path[0], path[3], path[5]]);
+    expect(simplifyPath(path, 0)).toEqual(path);
+    expect(pathLengthKm(path)).toBeCloseTo(0.553, 2);
+  });
+});
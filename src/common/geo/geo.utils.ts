@@ -0,0 +1,199 @@
+const EARTH_RADIUS_KM = 6371;
+export const KM_PER_DEGREE_LATITUDE = 111.32;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two WGS84 points in kilometres. */
+export function haversineKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+type Ring = Array<[number, number]>; // GeoJSON [lng, lat] positions
+
+// Ray casting; points exactly on an edge may fall either side
+function isPointInRing(lat: number, lng: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses =
+      yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** True when the point lies inside the outer ring and outside every hole. */
+export function isPointInPolygon(
+  lat: number,
+  lng: number,
+  polygon: { coordinates: Ring[] },
+): boolean {
+  const [outer, ...holes] = polygon.coordinates;
+  if (!outer || !isPointInRing(lat, lng, outer)) {
+    return false;
+  }
+  return !holes.some((hole) => isPointInRing(lat, lng, hole));
+}
+
+export function getBoundingBox(polygon: { coordinates: Ring[] }): BoundingBox {
+  const [outer] = polygon.coordinates;
+  return outer.reduce<BoundingBox>(
+    (box, [lng, lat]) => ({
+      minLat: Math.min(box.minLat, lat),
+      maxLat: Math.max(box.maxLat, lat),
+      minLng: Math.min(box.minLng, lng),
+      maxLng: Math.max(box.maxLng, lng),
+    }),
+    {
+      minLat: Infinity,
+      maxLat: -Infinity,
+      minLng: Infinity,
+      maxLng: -Infinity,
+    },
+  );
+}
+
+/** Returns a description of what is wrong with a GeoJSON Polygon, or null if valid. */
+export function validateGeoJsonPolygon(polygon: any): string | null {
+  if (
+    !polygon ||
+    polygon.type !== 'Polygon' ||
+    !Array.isArray(polygon.coordinates)
+  ) {
+    return "polygon must be a GeoJSON object with type 'Polygon' and a coordinates array";
+  }
+  if (!polygon.coordinates.length) {
+    return 'polygon must have an outer ring';
+  }
+
+  for (const [index, ring] of polygon.coordinates.entries()) {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      return `ring ${index} must have at least 4 positions`;
+    }
+    for (const position of ring) {
+      const [lng, lat] = Array.isArray(position) ? position : [];
+      if (
+        typeof lng !== 'number' ||
+        typeof lat !== 'number' ||
+        lng < -180 ||
+        lng > 180 ||
+        lat < -90 ||
+        lat > 90
+      ) {
+        return `ring ${index} contains an invalid [longitude, latitude] position`;
+      }
+    }
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return `ring ${index} must be closed (first and last positions equal)`;
+    }
+  }
+
+  return null;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Distance in metres from p to segment a-b on a local flat projection, which
+// is accurate enough at breadcrumb scale
+function perpendicularDistanceMeters(p: LatLng, a: LatLng, b: LatLng): number {
+  const metersPerDegLat = KM_PER_DEGREE_LATITUDE * 1000;
+  const metersPerDegLng = metersPerDegLat * Math.cos(toRadians(a.lat));
+  const [px, py] = [
+    (p.lng - a.lng) * metersPerDegLng,
+    (p.lat - a.lat) * metersPerDegLat,
+  ];
+  const [bx, by] = [
+    (b.lng - a.lng) * metersPerDegLng,
+    (b.lat - a.lat) * metersPerDegLat,
+  ];
+
+  const lengthSq = bx * bx + by * by;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+/**
+ * Douglas-Peucker simplification. Keeps the endpoints and every point that
+ * deviates more than `toleranceMeters` from the simplified line.
+ */
+export function simplifyPath<T extends LatLng>(
+  points: T[],
+  toleranceMeters: number,
+): T[] {
+  if (points.length <= 2 || toleranceMeters <= 0) {
+    return points;
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistanceMeters(
+        points[i],
+        points[start],
+        points[end],
+      );
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
+
+/** Total length of a path in kilometres. */
+export function pathLengthKm(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineKm(
+      points[i - 1].lat,
+      points[i - 1].lng,
+      points[i].lat,
+      points[i].lng,
+    );
+  }
+  return total;
+}
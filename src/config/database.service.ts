@@ -1,6 +1,12 @@
-import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleInit,
+  OnModuleDestroy,
+  Logger,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Knex, knex } from 'knex';
+import { MetricsService } from '../metrics/metrics.service';
 
 @Injectable()
 export class DatabaseService implements OnModuleInit, OnModuleDestroy {
@@ -10,8 +16,14 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
   private readonly maxRetries = 5;
   private readonly retryDelay = 5000;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
     this.initializeKnex();
+    this.metrics.instrumentDatabase(this.knexInstance, () =>
+      this.getPoolStats(),
+    );
   }
 
   private initializeKnex() {
@@ -25,13 +37,13 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
         database: this.configService.get('DB_NAME'),
         ssl: {
           rejectUnauthorized: false,
-          sslmode: 'require'
-        }
+          sslmode: 'require',
+        },
       },
       pool: {
         min: parseInt(this.configService.get('DB_POOL_MIN', '2')),
         max: parseInt(this.configService.get('DB_POOL_MAX', '10')),
-      }
+      },
     };
 
     // Log configuration before initializing
@@ -44,7 +56,7 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     // this.logger.log(`USER: ${this.configService.get('DB_USER', '[not set]')}`);
     // this.logger.log(`NAME: ${this.configService.get('DB_NAME', '[not set]')}`);
     // this.logger.log(`PASSWORD: ${this.configService.get('DB_PASSWORD') ? '***[SET]***' : '***[NOT SET]***'}`);
-    
+
     // this.logger.log('\n🔧 Resolved Configuration:');
     // const conn = config.connection;
     // this.logger.log(`HOST: ${conn.host || '[unknown]'}`);
@@ -55,7 +67,7 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     // this.logger.log('----------------------------------------');
 
     this.knexInstance = knex(config);
-    
+
     // Add event listeners for connection issues
     this.knexInstance.client.pool.on('createSuccess', () => {
       if (!this.isConnected) {
@@ -81,14 +93,20 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
       this.logger.log('Database connection validated');
     } catch (error) {
       this.isConnected = false;
-      this.logger.error(`Failed to validate database connection: ${error.message}`);
+      this.logger.error(
+        `Failed to validate database connection: ${error.message}`,
+      );
 
       if (retryCount < this.maxRetries) {
-        this.logger.warn(`Retrying connection in ${this.retryDelay}ms... (${retryCount + 1}/${this.maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, this.retryDelay));
+        this.logger.warn(
+          `Retrying connection in ${this.retryDelay}ms... (${retryCount + 1}/${this.maxRetries})`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelay));
         await this.validateConnection(retryCount + 1);
       } else {
-        throw new Error('Failed to establish database connection after maximum retries');
+        throw new Error(
+          'Failed to establish database connection after maximum retries',
+        );
       }
     }
   }
@@ -100,7 +118,32 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     return this.knexInstance;
   }
 
-  async raw<T = any>(query: string, bindings?: readonly any[]): Promise<Knex.Raw<T>> {
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  // Round trip of a trivial query in ms; bypasses the connected flag so health
+  // checks see the database itself
+  async ping(): Promise<number> {
+    const started = Date.now();
+    await this.knexInstance.raw('SELECT 1');
+    return Date.now() - started;
+  }
+
+  getPoolStats(): { used: number; free: number; pending: number; max: number } {
+    const pool = this.knexInstance.client.pool;
+    return {
+      used: pool.numUsed(),
+      free: pool.numFree(),
+      pending: pool.numPendingAcquires() + pool.numPendingCreates(),
+      max: pool.max,
+    };
+  }
+
+  async raw<T = any>(
+    query: string,
+    bindings?: readonly any[],
+  ): Promise<Knex.Raw<T>> {
     try {
       return await this.knexInstance.raw<T>(query, bindings || []);
     } catch (error) {
@@ -113,7 +156,7 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
 
   async transaction<T>(
     callback: (trx: Knex.Transaction) => Promise<T>,
-    config?: Knex.TransactionConfig
+    config?: Knex.TransactionConfig,
   ): Promise<T> {
     try {
       return await this.knexInstance.transaction(callback, config);
@@ -133,6 +176,18 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Method to check if a column exists on a table
+  async hasColumn(tableName: string, columnName: string): Promise<boolean> {
+    try {
+      return await this.knexInstance.schema.hasColumn(tableName, columnName);
+    } catch (error) {
+      this.logger.error(
+        `Error checking column ${tableName}.${columnName}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
   // Method to get table column information
   async getTableInfo(tableName: string): Promise<any[]> {
     try {
@@ -140,11 +195,13 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
         `SELECT column_name, data_type, is_nullable
          FROM information_schema.columns
          WHERE table_name = ?`,
-        [tableName]
+        [tableName],
       );
       return result.rows;
     } catch (error) {
-      this.logger.error(`Error getting table info for ${tableName}: ${error.message}`);
+      this.logger.error(
+        `Error getting table info for ${tableName}: ${error.message}`,
+      );
       throw error;
     }
   }
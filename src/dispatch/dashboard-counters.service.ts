@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import {
+  DeliveryEventContext,
+  OnDeliveryEvent,
+} from '../rabbitmq/delivery-event.decorator';
+import {
+  OrderAssignedPayload,
+  OrderCreatedPayload,
+  OrderUpdatedPayload,
+} from '../interfaces/message-payloads';
+
+/**
+ * Per-day counters for the dispatch dashboard, kept up to date from delivery
+ * events so the dashboard doesn't have to scan orders. Days are UTC.
+ */
+@Injectable()
+export class DashboardCountersService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(DashboardCountersService.name);
+  }
+
+  @OnDeliveryEvent('order.created')
+  async onOrderCreated(
+    event: OrderCreatedPayload,
+    { trx, occurredAt }: DeliveryEventContext,
+  ): Promise<void> {
+    await this.increment(trx, occurredAt, 'orders_created');
+  }
+
+  @OnDeliveryEvent('order.assigned')
+  async onOrderAssigned(
+    event: OrderAssignedPayload,
+    { trx, occurredAt }: DeliveryEventContext,
+  ): Promise<void> {
+    await this.increment(trx, occurredAt, 'orders_assigned');
+  }
+
+  @OnDeliveryEvent('order.updated')
+  async onOrderUpdated(
+    event: OrderUpdatedPayload,
+    { trx, occurredAt }: DeliveryEventContext,
+  ): Promise<void> {
+    await this.increment(trx, occurredAt, `orders_${event.status}`);
+  }
+
+  /** Counters for one UTC day (default today), e.g. `{ orders_created: 42 }`. */
+  async getCounters(day: Date = new Date()): Promise<Record<string, number>> {
+    try {
+      const rows = await this.db
+        .knex('dashboard_counters')
+        .where('day', toUtcDay(day))
+        .select('metric', 'value');
+
+      return Object.fromEntries(
+        rows.map((row) => [row.metric, Number(row.value)]),
+      );
+    } catch (error) {
+      this.logger.error(
+        'Failed to load dashboard counters',
+        error.stack,
+        'getCounters',
+      );
+      throw error;
+    }
+  }
+
+  private async increment(
+    trx: Knex.Transaction,
+    occurredAt: string,
+    metric: string,
+  ): Promise<void> {
+    await trx('dashboard_counters')
+      .insert({ day: toUtcDay(new Date(occurredAt)), metric, value: 1 })
+      .onConflict(['day', 'metric'])
+      .merge({ value: trx.raw('dashboard_counters.value + 1') });
+  }
+}
+
+function toUtcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
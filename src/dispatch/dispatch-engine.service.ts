@@ -0,0 +1,640 @@
+import {
+  BadRequestException,
+  ConflictException,
+  forwardRef,
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Knex } from 'knex';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { RidersService } from '../riders/riders.service';
+import { RiderScoringService } from './scoring/rider-scoring.service';
+import { OrdersService } from '../orders/orders.service';
+import { ZonesService } from '../zones/zones.service';
+import { DispatchGateway } from '../websockets/dispatch.gateway';
+import { OrderForBroadcast } from '../interfaces/websocket-messages';
+import {
+  DispatchOffer,
+  DispatchOfferStatus,
+  DispatchRound,
+  DispatchRoundOutcome,
+} from '../models/dispatch-offer.model';
+import { Order } from '../models/order.model';
+import { OrderStatus } from '../dto/order.dto';
+import { lockOrderDispatch, withdrawOffers } from './dispatch-offers';
+
+type DispatchStep =
+  | { kind: 'idle' }
+  | { kind: 'round' }
+  | { kind: 'failed'; rounds: number }
+  | { kind: 'offer'; offer: DispatchOffer; order: Order };
+
+@Injectable()
+export class DispatchEngineService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly offerTimers = new Map<number, NodeJS.Timeout>(); // offerId -> expiry timer
+  private readonly offerTimeoutMs: number;
+  private readonly initialRadiusKm: number;
+  private readonly radiusStepKm: number;
+  private readonly maxRadiusKm: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly ridersService: RidersService,
+    private readonly riderScoring: RiderScoringService,
+    private readonly ordersService: OrdersService,
+    private readonly zonesService: ZonesService,
+    @Inject(forwardRef(() => DispatchGateway))
+    private readonly dispatchGateway: DispatchGateway,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(DispatchEngineService.name);
+    this.offerTimeoutMs = parseInt(
+      this.configService.get('DISPATCH_OFFER_TIMEOUT_MS', '30000'),
+    );
+    this.initialRadiusKm = parseFloat(
+      this.configService.get('DISPATCH_INITIAL_RADIUS_KM', '5'),
+    );
+    this.radiusStepKm = parseFloat(
+      this.configService.get('DISPATCH_RADIUS_STEP_KM', '5'),
+    );
+    this.maxRadiusKm = parseFloat(
+      this.configService.get('DISPATCH_MAX_RADIUS_KM', '15'),
+    );
+  }
+
+  async onApplicationBootstrap() {
+    try {
+      await this.recoverPendingOffers();
+    } catch (error) {
+      this.logger.error(
+        'Failed to recover pending dispatch offers',
+        error.stack,
+        'onApplicationBootstrap',
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    this.offerTimers.forEach((timer) => clearTimeout(timer));
+    this.offerTimers.clear();
+  }
+
+  /**
+   * Starts (or restarts) automatic dispatch for an order. A no-op when the
+   * order already has a rider or an offer is currently outstanding.
+   */
+  async startDispatch(orderId: number): Promise<void> {
+    try {
+      const started = await this.db.knex.transaction(async (trx) => {
+        await lockOrderDispatch(trx, orderId);
+
+        const order = await trx('orders').where('id', orderId).first();
+        if (!order || order.rider_assigned || this.isClosed(order.status)) {
+          return false;
+        }
+        // Scheduled orders are dispatched once the scheduler releases them
+        if (order.scheduled && !order.released_at) {
+          this.logger.debug(
+            `Order ${orderId} is scheduled and not released yet`,
+          );
+          return false;
+        }
+
+        const pending = await trx('dispatch_offers')
+          .where({ order_id: orderId, status: 'pending' })
+          .first('id');
+        if (pending) {
+          return false;
+        }
+
+        // Close any round left open by an earlier run before starting over
+        await this.finishOpenRounds(trx, orderId, 'cancelled');
+        await this.openRound(trx, orderId, this.initialRadiusKm);
+        return true;
+      });
+
+      if (started) {
+        this.logger.log(`Automatic dispatch started for order ${orderId}`);
+        await this.offerNext(orderId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to start dispatch for order ${orderId}`,
+        error.stack,
+        'startDispatch',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Accepts the rider's outstanding offer and assigns the rider to the order
+   * in the same transaction.
+   */
+  async acceptOffer(orderId: number, riderId: number): Promise<Order> {
+    let offerId: number | undefined;
+    let expiredOfferId: number | undefined;
+
+    try {
+      const order = await this.db.knex.transaction(async (trx) => {
+        await lockOrderDispatch(trx, orderId);
+
+        const offer: DispatchOffer | undefined = await trx('dispatch_offers')
+          .where({ order_id: orderId, rider_id: riderId, status: 'pending' })
+          .first();
+
+        if (!offer) {
+          throw new ConflictException(
+            `Rider ${riderId} has no pending offer for order ${orderId}`,
+          );
+        }
+        offerId = offer.id;
+
+        if (new Date(offer.expires_at).getTime() <= Date.now()) {
+          expiredOfferId = offer.id;
+          throw new ConflictException(`Offer for order ${orderId} has expired`);
+        }
+
+        await this.updateOffer(trx, offer.id, 'accepted');
+        await this.finishRound(trx, offer.round_id, 'assigned');
+
+        return this.ordersService.assignRider(orderId, riderId, trx);
+      });
+
+      this.clearTimer(offerId);
+      this.dispatchGateway.broadcastOrderAssignment(orderId, riderId);
+      this.logger.log(`Order ${orderId} accepted by rider ${riderId}`);
+      return order;
+    } catch (error) {
+      // An expired offer is only noticed here if the timer has not fired yet
+      if (expiredOfferId) {
+        await this.expireOffer(expiredOfferId);
+      }
+      this.logger.error(
+        `Failed to accept offer for order ${orderId} by rider ${riderId}`,
+        error.stack,
+        'acceptOffer',
+      );
+      throw error;
+    }
+  }
+
+  async rejectOffer(
+    orderId: number,
+    riderId: number,
+    reason?: string,
+  ): Promise<void> {
+    try {
+      const offer: DispatchOffer | undefined = await this.db
+        .knex('dispatch_offers')
+        .where({ order_id: orderId, rider_id: riderId, status: 'pending' })
+        .first();
+
+      if (!offer) {
+        throw new ConflictException(
+          `Rider ${riderId} has no pending offer for order ${orderId}`,
+        );
+      }
+
+      if (await this.closeOffer(offer.id, 'rejected', reason ?? null)) {
+        this.logger.log(`Order ${orderId} rejected by rider ${riderId}`);
+        await this.offerNext(orderId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to reject offer for order ${orderId} by rider ${riderId}`,
+        error.stack,
+        'rejectOffer',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Assigns a rider picked by a dispatcher. Outstanding offers are withdrawn
+   * in the same transaction, then the rider is sent the order.
+   */
+  async assignManually(orderId: number, riderId: number): Promise<Order> {
+    const reason = 'Assigned manually by dispatcher';
+
+    try {
+      const { order, offers } = await this.db.knex.transaction(async (trx) => {
+        await lockOrderDispatch(trx, orderId);
+        const offers = await withdrawOffers(trx, orderId, reason);
+        const order = await this.ordersService.assignRider(
+          orderId,
+          riderId,
+          trx,
+        );
+        return { order, offers };
+      });
+
+      this.revokeOffers(orderId, offers, reason);
+
+      if (!order.calculated_order) {
+        throw new BadRequestException(
+          'Order does not have required calculated order details',
+        );
+      }
+
+      await this.dispatchGateway.sendOrderToRider(
+        riderId,
+        this.toBroadcast(order),
+      );
+      this.dispatchGateway.broadcastOrderAssignment(orderId, riderId);
+
+      const { rider } = await this.ridersService.findById(riderId);
+      if (rider.current_latitude && rider.current_longitude) {
+        this.dispatchGateway.handleRiderLocationUpdate(
+          riderId,
+          rider.current_latitude,
+          rider.current_longitude,
+        );
+      }
+
+      this.logger.log(`Order ${orderId} assigned manually to rider ${riderId}`);
+      return order;
+    } catch (error) {
+      this.logger.error(
+        `Failed to assign order ${orderId} to rider ${riderId}`,
+        error.stack,
+        'assignManually',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the timers of offers withdrawn in a committed transaction and
+   * tells their riders.
+   */
+  revokeOffers(orderId: number, offers: DispatchOffer[], reason: string): void {
+    offers.forEach((offer) => {
+      this.clearTimer(offer.id);
+      this.dispatchGateway.revokeOfferFromRider(
+        offer.rider_id,
+        orderId,
+        reason,
+      );
+    });
+  }
+
+  async getDispatchHistory(orderId: number) {
+    const order = await this.ordersService.getOrderById(orderId);
+
+    const [rounds, offers] = await Promise.all([
+      this.db
+        .knex<DispatchRound>('dispatch_rounds')
+        .where('order_id', orderId)
+        .orderBy('round', 'asc'),
+      this.db
+        .knex<DispatchOffer>('dispatch_offers')
+        .where('order_id', orderId)
+        .orderBy('offered_at', 'asc'),
+    ]);
+
+    const lastRound = rounds[rounds.length - 1];
+    let state: string;
+    if (order.rider_assigned) {
+      state = 'assigned';
+    } else if (offers.some((offer) => offer.status === 'pending')) {
+      state = 'offering';
+    } else if (!lastRound) {
+      state = 'not_started';
+    } else if (lastRound.finished_at) {
+      state = lastRound.outcome === 'cancelled' ? 'cancelled' : 'exhausted';
+    } else {
+      state = 'searching';
+    }
+
+    return {
+      orderId: order.id,
+      state,
+      riderId: order.rider_id,
+      rounds: rounds.map((round) => ({
+        ...round,
+        offers: offers.filter((offer) => offer.round_id === round.id),
+      })),
+    };
+  }
+
+  private async offerNext(orderId: number): Promise<void> {
+    // Each iteration either excludes a rider or widens the radius, so this
+    // always terminates at the configured maximum radius.
+    for (;;) {
+      const step = await this.db.knex.transaction((trx) =>
+        this.planNextStep(trx, orderId),
+      );
+
+      if (step.kind === 'idle') {
+        return;
+      }
+
+      if (step.kind === 'round') {
+        continue;
+      }
+
+      if (step.kind === 'failed') {
+        this.logger.warn(
+          `Automatic dispatch exhausted for order ${orderId} after ${step.rounds} rounds`,
+        );
+        this.dispatchGateway.broadcastDispatchFailed(orderId, step.rounds);
+        return;
+      }
+
+      const { offer, order } = step;
+      const delivered = this.dispatchGateway.sendOfferToRider(
+        offer.rider_id,
+        {
+          ...this.toBroadcast(order),
+          distance: offer.distance_km ? parseFloat(offer.distance_km) : 0,
+        },
+        { id: offer.id, expires_at: new Date(offer.expires_at).toISOString() },
+      );
+
+      if (delivered) {
+        this.armTimer(offer.id, this.offerTimeoutMs);
+        return;
+      }
+
+      await this.closeOffer(offer.id, 'undeliverable', 'Rider not connected');
+    }
+  }
+
+  private async planNextStep(
+    trx: Knex.Transaction,
+    orderId: number,
+  ): Promise<DispatchStep> {
+    await lockOrderDispatch(trx, orderId);
+
+    const pending = await trx('dispatch_offers')
+      .where({ order_id: orderId, status: 'pending' })
+      .first('id');
+    if (pending) {
+      return { kind: 'idle' };
+    }
+
+    const round: DispatchRound | undefined = await trx('dispatch_rounds')
+      .where('order_id', orderId)
+      .whereNull('finished_at')
+      .orderBy('round', 'desc')
+      .first();
+    if (!round) {
+      return { kind: 'idle' };
+    }
+
+    const order = await this.ordersService.getOrderById(orderId, trx);
+    if (order.rider_assigned || this.isClosed(order.status)) {
+      await this.finishRound(trx, round.id, 'cancelled');
+      return { kind: 'idle' };
+    }
+
+    const lat = parseFloat(order.calculated_order?.lat ?? '');
+    const lng = parseFloat(order.calculated_order?.lng ?? '');
+    const radiusKm = parseFloat(round.radius_km);
+    const candidate =
+      isNaN(lat) || isNaN(lng)
+        ? undefined
+        : await this.pickCandidate(trx, order, lat, lng, radiusKm);
+
+    if (!candidate) {
+      await this.finishRound(
+        trx,
+        round.id,
+        round.offers_made > 0 ? 'exhausted' : 'no_candidates',
+      );
+
+      const nextRadiusKm = radiusKm + this.radiusStepKm;
+      if (nextRadiusKm <= this.maxRadiusKm) {
+        await this.openRound(trx, orderId, nextRadiusKm);
+        return { kind: 'round' };
+      }
+
+      await trx('logs').insert({
+        order_id: orderId,
+        description: `Automatic dispatch found no rider within ${radiusKm} km after ${round.round} rounds`,
+        time: trx.fn.now(),
+      });
+      return { kind: 'failed', rounds: round.round };
+    }
+
+    const [offer] = await trx('dispatch_offers')
+      .insert({
+        order_id: orderId,
+        round_id: round.id,
+        rider_id: candidate.id,
+        distance_km: candidate.distance,
+        status: 'pending',
+        expires_at: new Date(Date.now() + this.offerTimeoutMs),
+      })
+      .returning('*');
+
+    await trx('dispatch_rounds')
+      .where('id', round.id)
+      .increment('offers_made', 1);
+
+    return { kind: 'offer', offer, order };
+  }
+
+  private async pickCandidate(
+    trx: Knex.Transaction,
+    order: Order,
+    lat: number,
+    lng: number,
+    radiusKm: number,
+  ) {
+    // Riders already offered this order, or busy considering another offer
+    const [offeredRiders, busyRiders] = await Promise.all([
+      trx('dispatch_offers').where('order_id', order.id).pluck('rider_id'),
+      trx('dispatch_offers').where('status', 'pending').pluck('rider_id'),
+    ]);
+    const excluded = new Set<number>([...offeredRiders, ...busyRiders]);
+
+    const nearby = await this.ridersService.findNearbyAvailableRiders(
+      lat,
+      lng,
+      radiusKm,
+    );
+    const inZone = await this.zonesService.filterRidersInZone(
+      order.calculated_order?.cokitchen_polygon_id,
+      nearby,
+    );
+    const ranked = await this.riderScoring.rankRiders(
+      inZone.filter((rider) => !excluded.has(rider.id)),
+      { orderTypeId: order.order_type_id, radiusKm },
+    );
+
+    return ranked[0];
+  }
+
+  private async openRound(
+    trx: Knex.Transaction,
+    orderId: number,
+    radiusKm: number,
+  ): Promise<void> {
+    const last = await trx('dispatch_rounds')
+      .where('order_id', orderId)
+      .max('round as round')
+      .first();
+
+    await trx('dispatch_rounds').insert({
+      order_id: orderId,
+      round: (last?.round ?? 0) + 1,
+      radius_km: radiusKm,
+    });
+  }
+
+  private async finishRound(
+    trx: Knex.Transaction,
+    roundId: number,
+    outcome: DispatchRoundOutcome,
+  ): Promise<void> {
+    await trx('dispatch_rounds')
+      .where('id', roundId)
+      .whereNull('finished_at')
+      .update({ outcome, finished_at: trx.fn.now() });
+  }
+
+  private async finishOpenRounds(
+    trx: Knex.Transaction,
+    orderId: number,
+    outcome: DispatchRoundOutcome,
+  ): Promise<void> {
+    await trx('dispatch_rounds')
+      .where('order_id', orderId)
+      .whereNull('finished_at')
+      .update({ outcome, finished_at: trx.fn.now() });
+  }
+
+  private async updateOffer(
+    trx: Knex.Transaction,
+    offerId: number,
+    status: DispatchOfferStatus,
+    reason: string | null = null,
+  ): Promise<boolean> {
+    const updated = await trx('dispatch_offers')
+      .where({ id: offerId, status: 'pending' })
+      .update({ status, reason, responded_at: trx.fn.now() });
+    return updated > 0;
+  }
+
+  /** Moves a pending offer to a final status; false if it was already closed. */
+  private async closeOffer(
+    offerId: number,
+    status: DispatchOfferStatus,
+    reason: string | null,
+  ): Promise<boolean> {
+    this.clearTimer(offerId);
+    return this.db.knex.transaction((trx) =>
+      this.updateOffer(trx, offerId, status, reason),
+    );
+  }
+
+  private async expireOffer(offerId: number): Promise<void> {
+    try {
+      const offer: DispatchOffer | undefined = await this.db
+        .knex('dispatch_offers')
+        .where('id', offerId)
+        .first();
+      if (!offer) {
+        return;
+      }
+
+      const expired = await this.closeOffer(
+        offerId,
+        'expired',
+        'No response within acceptance window',
+      );
+      if (!expired) {
+        return;
+      }
+
+      this.logger.log(
+        `Offer ${offerId} for order ${offer.order_id} expired for rider ${offer.rider_id}`,
+      );
+      this.dispatchGateway.revokeOfferFromRider(
+        offer.rider_id,
+        offer.order_id,
+        'Offer expired',
+      );
+      await this.offerNext(offer.order_id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to expire offer ${offerId}`,
+        error.stack,
+        'expireOffer',
+      );
+    }
+  }
+
+  private async recoverPendingOffers(): Promise<void> {
+    const offers: DispatchOffer[] = await this.db
+      .knex('dispatch_offers')
+      .where('status', 'pending');
+
+    for (const offer of offers) {
+      const remaining = new Date(offer.expires_at).getTime() - Date.now();
+      if (remaining <= 0) {
+        await this.expireOffer(offer.id);
+      } else {
+        this.armTimer(offer.id, remaining);
+      }
+    }
+
+    if (offers.length) {
+      this.logger.log(`Recovered ${offers.length} pending dispatch offers`);
+    }
+  }
+
+  private armTimer(offerId: number, delayMs: number): void {
+    this.clearTimer(offerId);
+    const timer = setTimeout(() => {
+      this.offerTimers.delete(offerId);
+      void this.expireOffer(offerId);
+    }, delayMs);
+    timer.unref();
+    this.offerTimers.set(offerId, timer);
+  }
+
+  private clearTimer(offerId?: number): void {
+    if (offerId === undefined) {
+      return;
+    }
+    const timer = this.offerTimers.get(offerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.offerTimers.delete(offerId);
+    }
+  }
+
+  private isClosed(status: string): boolean {
+    return (
+      status === OrderStatus.DELIVERED ||
+      status === OrderStatus.CANCELLED ||
+      status === OrderStatus.RETURNED
+    );
+  }
+
+  private toBroadcast(order: Order): OrderForBroadcast {
+    const calculated = order.calculated_order!;
+    return {
+      id: order.id.toString(),
+      order_code: order.order_code,
+      calculated_order: {
+        total_amount: calculated.total_amount.toString(),
+        delivery_fee: calculated.delivery_fee.toString(),
+        service_charge: calculated.service_charge.toString(),
+        address_details: calculated.address_details,
+        lat: calculated.lat,
+        lng: calculated.lng,
+      },
+    };
+  }
+}
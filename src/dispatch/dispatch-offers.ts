@@ -0,0 +1,42 @@
+import { Knex } from 'knex';
+import { DispatchOffer } from '../models/dispatch-offer.model';
+
+// Namespace for pg_advisory_xact_lock(namespace, orderId)
+const DISPATCH_LOCK_NAMESPACE = 2002;
+
+/**
+ * Serialises dispatch work on one order until the transaction ends. Offer
+ * acceptance takes it before locking the order row, so anything else that
+ * touches the order's offers must take it first too, or the two can deadlock.
+ */
+export async function lockOrderDispatch(
+  trx: Knex.Transaction,
+  orderId: number,
+): Promise<void> {
+  await trx.raw('SELECT pg_advisory_xact_lock(?, ?)', [
+    DISPATCH_LOCK_NAMESPACE,
+    orderId,
+  ]);
+}
+
+/** Cancels the order's pending offers and closes its open rounds. */
+export async function withdrawOffers(
+  trx: Knex.Transaction,
+  orderId: number,
+  reason: string,
+): Promise<DispatchOffer[]> {
+  const cancelled = await trx('dispatch_offers')
+    .where({ order_id: orderId, status: 'pending' })
+    .update({
+      status: 'cancelled',
+      reason,
+      responded_at: trx.fn.now(),
+    })
+    .returning('*');
+
+  await trx('dispatch_rounds')
+    .where('order_id', orderId)
+    .whereNull('finished_at')
+    .update({ outcome: 'cancelled', finished_at: trx.fn.now() });
+  return cancelled;
+}
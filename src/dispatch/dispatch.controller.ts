@@ -1,19 +1,38 @@
-import { Controller, Get, Post, Body, Param, Query, BadRequestException } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  BadRequestException,
+} from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { DispatchGateway } from '../websockets/dispatch.gateway';
 import { RidersService } from '../riders/riders.service';
 import { OrdersService } from '../orders/orders.service';
 import { OrderForBroadcast } from '../interfaces/websocket-messages';
 import { CustomLogger } from '../common/logger/logger.service';
+import { DispatchEngineService } from './dispatch-engine.service';
+import { DashboardCountersService } from './dashboard-counters.service';
+import { RiderScoringService } from './scoring/rider-scoring.service';
+import { ZonesService } from '../zones/zones.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 
 @ApiTags('dispatch')
 @ApiBearerAuth()
+@Roles(Role.DISPATCHER)
 @Controller('dispatch')
 export class DispatchController {
   constructor(
     private readonly dispatchGateway: DispatchGateway,
     private readonly ridersService: RidersService,
     private readonly ordersService: OrdersService,
+    private readonly dispatchEngine: DispatchEngineService,
+    private readonly riderScoring: RiderScoringService,
+    private readonly zonesService: ZonesService,
+    private readonly dashboardCounters: DashboardCountersService,
     private readonly logger: CustomLogger,
   ) {
     this.logger.setContext(DispatchController.name);
@@ -24,14 +43,24 @@ export class DispatchController {
     @Query('lat') latitude?: number,
     @Query('lng') longitude?: number,
     @Query('radius') radiusKm?: number,
+    @Query('limit') limit?: number,
   ) {
     try {
       if (latitude && longitude) {
-        return await this.ridersService.findNearbyAvailableRiders(latitude, longitude, radiusKm);
+        return await this.ridersService.findNearbyAvailableRiders(
+          latitude,
+          longitude,
+          radiusKm,
+          limit,
+        );
       }
       return await this.ridersService.findAllActiveRiders();
     } catch (error) {
-      this.logger.error('Failed to get active riders', error.stack, 'getActiveRiders');
+      this.logger.error(
+        'Failed to get active riders',
+        error.stack,
+        'getActiveRiders',
+      );
       throw error;
     }
   }
@@ -41,40 +70,34 @@ export class DispatchController {
     @Param('orderId') orderId: number,
     @Body() data: { riderId: number },
   ) {
-    try {
-      const updatedOrder = await this.ordersService.assignRider(orderId, data.riderId);
-      const rider = await this.ridersService.findById(data.riderId);
-
-      if (!updatedOrder.calculated_order) {
-        throw new BadRequestException('Order does not have required calculated order details');
-      }
-
-      const orderForBroadcast: OrderForBroadcast = {
-        id: updatedOrder.id.toString(),
-        order_code: updatedOrder.order_code,
-        calculated_order: {
-          total_amount: updatedOrder.calculated_order.total_amount.toString(),
-          delivery_fee: updatedOrder.calculated_order.delivery_fee.toString(),
-          service_charge: updatedOrder.calculated_order.service_charge.toString(),
-          address_details: updatedOrder.calculated_order.address_details,
-          lat: updatedOrder.calculated_order.lat,
-          lng: updatedOrder.calculated_order.lng,
-        },
-      };
-
-      await this.dispatchGateway.sendOrderToRider(data.riderId, orderForBroadcast);
+    return this.dispatchEngine.assignManually(orderId, data.riderId);
+  }
 
-      if (rider.rider.current_latitude && rider.rider.current_longitude) {
-        this.dispatchGateway.handleRiderLocationUpdate(
-          data.riderId,
-          rider.rider.current_latitude,
-          rider.rider.current_longitude,
-        );
-      }
+  @Post('orders/:orderId/auto-dispatch')
+  async startAutoDispatch(@Param('orderId') orderId: number) {
+    try {
+      await this.dispatchEngine.startDispatch(orderId);
+      return await this.dispatchEngine.getDispatchHistory(orderId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to start automatic dispatch for order ${orderId}`,
+        error.stack,
+        'startAutoDispatch',
+      );
+      throw error;
+    }
+  }
 
-      return updatedOrder;
+  @Get('orders/:orderId/offers')
+  async getDispatchOffers(@Param('orderId') orderId: number) {
+    try {
+      return await this.dispatchEngine.getDispatchHistory(orderId);
     } catch (error) {
-      this.logger.error(`Failed to assign order ${orderId} to rider ${data.riderId}`, error.stack, 'assignOrderToRider');
+      this.logger.error(
+        `Failed to get dispatch offers for order ${orderId}`,
+        error.stack,
+        'getDispatchOffers',
+      );
       throw error;
     }
   }
@@ -84,7 +107,9 @@ export class DispatchController {
     try {
       const order = await this.ordersService.getOrderById(orderId);
       if (!order.calculated_order) {
-        throw new BadRequestException('Order does not have location information');
+        throw new BadRequestException(
+          'Order does not have location information',
+        );
       }
 
       const { lat, lng } = order.calculated_order;
@@ -92,11 +117,19 @@ export class DispatchController {
         throw new BadRequestException('Order location coordinates are missing');
       }
 
-      const nearbyRiders = await this.ridersService.findNearbyAvailableRiders(
-        parseFloat(lat),
-        parseFloat(lng),
-        5, // Default 5km radius
+      const radiusKm = 5; // Default 5km radius
+      const nearbyRiders = await this.zonesService.filterRidersInZone(
+        order.calculated_order.cokitchen_polygon_id,
+        await this.ridersService.findNearbyAvailableRiders(
+          parseFloat(lat),
+          parseFloat(lng),
+          radiusKm,
+        ),
       );
+      const rankedRiders = await this.riderScoring.rankRiders(nearbyRiders, {
+        orderTypeId: order.order_type_id,
+        radiusKm,
+      });
 
       return {
         order: {
@@ -104,7 +137,8 @@ export class DispatchController {
           code: order.order_code,
           location: { lat, lng },
         },
-        riders: nearbyRiders.map((rider) => ({
+        strategy: rankedRiders[0]?.strategy ?? null,
+        riders: rankedRiders.map((rider) => ({
           id: rider.id,
           name: rider.name,
           location: {
@@ -112,10 +146,16 @@ export class DispatchController {
             lng: rider.current_longitude,
           },
           distance: rider.distance,
+          score: rider.score,
+          score_breakdown: rider.score_breakdown,
         })),
       };
     } catch (error) {
-      this.logger.error(`Failed to get nearby riders for order ${orderId}`, error.stack, 'getNearbyRidersForOrder');
+      this.logger.error(
+        `Failed to get nearby riders for order ${orderId}`,
+        error.stack,
+        'getNearbyRidersForOrder',
+      );
       throw error;
     }
   }
@@ -128,7 +168,9 @@ export class DispatchController {
     try {
       const order = await this.ordersService.getOrderById(orderId);
       if (!order.calculated_order) {
-        throw new BadRequestException('Order does not have location information');
+        throw new BadRequestException(
+          'Order does not have location information',
+        );
       }
 
       const { lat, lng } = order.calculated_order;
@@ -136,10 +178,13 @@ export class DispatchController {
         throw new BadRequestException('Order location coordinates are missing');
       }
 
-      const nearbyRiders = await this.ridersService.findNearbyAvailableRiders(
-        parseFloat(lat),
-        parseFloat(lng),
-        radiusKm,
+      const nearbyRiders = await this.zonesService.filterRidersInZone(
+        order.calculated_order.cokitchen_polygon_id,
+        await this.ridersService.findNearbyAvailableRiders(
+          parseFloat(lat),
+          parseFloat(lng),
+          radiusKm,
+        ),
       );
 
       if (nearbyRiders.length === 0) {
@@ -171,28 +216,42 @@ export class DispatchController {
       return {
         success: true,
         message: `Order broadcasted to ${nearbyRiders.length} nearby riders`,
-        riders: nearbyRiders.map((r) => ({ id: r.id, distance: r.distance || 0 })),
+        riders: nearbyRiders.map((r) => ({
+          id: r.id,
+          distance: r.distance || 0,
+        })),
       };
     } catch (error) {
-      this.logger.error(`Failed to broadcast order ${orderId}`, error.stack, 'broadcastOrderToNearbyRiders');
+      this.logger.error(
+        `Failed to broadcast order ${orderId}`,
+        error.stack,
+        'broadcastOrderToNearbyRiders',
+      );
       throw error;
     }
   }
 
   @Get('dashboard/stats')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE)
   async getDashboardStats() {
     try {
       const pendingOrders = await this.ordersService.countPendingOrders();
       const completedToday = await this.ordersService.getCompletedOrdersToday();
       const avgDeliveryTime = await this.ordersService.getAverageDeliveryTime();
+      const today = await this.dashboardCounters.getCounters();
 
       return {
         pendingOrders,
         completedToday,
         avgDeliveryTime,
+        today,
       };
     } catch (error) {
-      this.logger.error('Failed to get dashboard stats', error.stack, 'getDashboardStats');
+      this.logger.error(
+        'Failed to get dashboard stats',
+        error.stack,
+        'getDashboardStats',
+      );
       throw error;
     }
   }
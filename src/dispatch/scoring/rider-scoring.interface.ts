@@ -0,0 +1,32 @@
+export type ScoringFactor =
+  | 'distance'
+  | 'load'
+  | 'idle_time'
+  | 'acceptance_rate'
+  | 'rating';
+
+export type ScoringWeights = Partial<Record<ScoringFactor, number>>;
+
+/** Raw inputs gathered for one candidate rider. */
+export interface RiderScoringInput {
+  distanceKm: number;
+  currentLoad: number;
+  minutesSinceLastAssignment: number | null; // null if never assigned
+  acceptanceRate: number | null; // null if never offered an order
+  rating: number | null; // 1-5, null if never rated
+}
+
+export interface ScoringContext {
+  radiusKm: number;
+  weights?: ScoringWeights | null;
+}
+
+export interface RiderScore {
+  score: number; // 0-1, higher is better
+  breakdown: Partial<Record<ScoringFactor, number>>; // weighted contribution per factor
+}
+
+export interface RiderScoringStrategy {
+  readonly name: string;
+  score(input: RiderScoringInput, context: ScoringContext): RiderScore;
+}
@@ -0,0 +1,148 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from '../../config/database.service';
+import { CustomLogger } from '../../common/logger/logger.service';
+import { RidersService } from '../../riders/riders.service';
+import { Rider } from '../../models/rider.model';
+import {
+  RiderScore,
+  RiderScoringStrategy,
+  ScoringWeights,
+} from './rider-scoring.interface';
+import { BUILT_IN_SCORING_STRATEGIES } from './rider-scoring.strategies';
+
+const DEFAULT_STRATEGY = 'nearest';
+// Offers older than this no longer count towards a rider's acceptance rate
+const ACCEPTANCE_WINDOW_DAYS = 30;
+
+export type RankedRider = Rider & {
+  distance: number;
+  score: number;
+  score_breakdown: RiderScore['breakdown'];
+  strategy: string;
+};
+
+@Injectable()
+export class RiderScoringService {
+  private readonly strategies = new Map<string, RiderScoringStrategy>();
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly ridersService: RidersService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(RiderScoringService.name);
+    BUILT_IN_SCORING_STRATEGIES.forEach((strategy) =>
+      this.registerStrategy(strategy),
+    );
+  }
+
+  registerStrategy(strategy: RiderScoringStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  getStrategyNames(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  /**
+   * Scores candidates with the strategy configured on the order type and
+   * returns them best first.
+   */
+  async rankRiders(
+    riders: Array<Rider & { distance: number }>,
+    options: { orderTypeId?: number | string | null; radiusKm: number },
+  ): Promise<RankedRider[]> {
+    try {
+      if (!riders.length) {
+        return [];
+      }
+
+      const { strategy, weights } = await this.resolveStrategy(
+        options.orderTypeId,
+      );
+      const riderIds = riders.map((rider) => rider.id);
+      const [loads, acceptanceRates] = await Promise.all([
+        this.ridersService.getCurrentOrderCounts(riderIds),
+        this.getAcceptanceRates(riderIds),
+      ]);
+
+      const now = Date.now();
+      return riders
+        .map((rider) => {
+          const result = strategy.score(
+            {
+              distanceKm: Number(rider.distance),
+              currentLoad: loads.get(rider.id) ?? 0,
+              minutesSinceLastAssignment: rider.last_assigned_at
+                ? (now - new Date(rider.last_assigned_at).getTime()) / 60000
+                : null,
+              acceptanceRate: acceptanceRates.get(rider.id) ?? null,
+              rating: rider.rating != null ? Number(rider.rating) : null,
+            },
+            { radiusKm: options.radiusKm, weights },
+          );
+
+          return {
+            ...rider,
+            score: result.score,
+            score_breakdown: result.breakdown,
+            strategy: strategy.name,
+          };
+        })
+        .sort((a, b) => b.score - a.score || a.distance - b.distance);
+    } catch (error) {
+      this.logger.error('Failed to rank riders', error.stack, 'rankRiders');
+      throw error;
+    }
+  }
+
+  private async resolveStrategy(orderTypeId?: number | string | null): Promise<{
+    strategy: RiderScoringStrategy;
+    weights: ScoringWeights | null;
+  }> {
+    const orderType = orderTypeId
+      ? await this.db
+          .knex('order_types')
+          .where('id', orderTypeId)
+          .first('scoring_strategy', 'scoring_weights')
+      : undefined;
+
+    const name = orderType?.scoring_strategy ?? DEFAULT_STRATEGY;
+    let strategy = this.strategies.get(name);
+    if (!strategy) {
+      this.logger.warn(
+        `Unknown scoring strategy '${name}' on order type ${orderTypeId}, falling back to '${DEFAULT_STRATEGY}'`,
+      );
+      strategy = this.strategies.get(DEFAULT_STRATEGY)!;
+    }
+
+    return { strategy, weights: orderType?.scoring_weights ?? null };
+  }
+
+  private async getAcceptanceRates(
+    riderIds: number[],
+  ): Promise<Map<number, number>> {
+    const rows = await this.db
+      .knex('dispatch_offers')
+      .select('rider_id')
+      .select(
+        this.db.knex.raw(
+          "COUNT(*) FILTER (WHERE status = 'accepted') AS accepted",
+        ),
+      )
+      .count('id as answered')
+      .whereIn('rider_id', riderIds)
+      .whereIn('status', ['accepted', 'rejected', 'expired'])
+      .whereRaw(
+        `offered_at > NOW() - INTERVAL '${ACCEPTANCE_WINDOW_DAYS} days'`,
+      )
+      .groupBy('rider_id');
+
+    return new Map(
+      rows.map((row: any) => [
+        Number(row.rider_id),
+        Number(row.accepted) / Number(row.answered),
+      ]),
+    );
+  }
+}
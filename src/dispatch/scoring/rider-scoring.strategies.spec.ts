@@ -0,0 +1,74 @@
+import { RiderScoringInput } from './rider-scoring.interface';
+import {
+  FairnessStrategy,
+  LeastLoadedStrategy,
+  NearestStrategy,
+  WeightedCompositeStrategy,
+  normalizeFactors,
+} from './rider-scoring.strategies';
+
+const baseInput: RiderScoringInput = {
+  distanceKm: 1,
+  currentLoad: 0,
+  minutesSinceLastAssignment: 30,
+  acceptanceRate: 0.8,
+  rating: 4,
+};
+
+const context = { radiusKm: 5 };
+
+describe('rider scoring strategies', () => {
+  it('normalizes every factor into 0-1', () => {
+    const normalized = normalizeFactors(
+      { ...baseInput, distanceKm: 10, currentLoad: 3 },
+      context,
+    );
+
+    expect(normalized.distance).toBe(0);
+    expect(normalized.load).toBe(0.25);
+    expect(normalized.idle_time).toBe(0.5);
+    expect(normalized.rating).toBe(0.75);
+  });
+
+  it('nearest ranks purely by distance', () => {
+    const strategy = new NearestStrategy();
+    const near = strategy.score({ ...baseInput, currentLoad: 5 }, context);
+    const far = strategy.score({ ...baseInput, distanceKm: 4 }, context);
+
+    expect(near.score).toBeGreaterThan(far.score);
+    expect(Object.keys(near.breakdown)).toEqual(['distance']);
+  });
+
+  it('least loaded prefers an idle rider slightly further away', () => {
+    const strategy = new LeastLoadedStrategy();
+    const busy = strategy.score({ ...baseInput, currentLoad: 2 }, context);
+    const free = strategy.score({ ...baseInput, distanceKm: 2 }, context);
+
+    expect(free.score).toBeGreaterThan(busy.score);
+  });
+
+  it('fairness favours riders who have waited longest', () => {
+    const strategy = new FairnessStrategy();
+    const recent = strategy.score(
+      { ...baseInput, minutesSinceLastAssignment: 2 },
+      context,
+    );
+    const never = strategy.score(
+      { ...baseInput, minutesSinceLastAssignment: null },
+      context,
+    );
+
+    expect(never.score).toBeGreaterThan(recent.score);
+  });
+
+  it('weighted composite uses custom weights and reports each factor', () => {
+    const strategy = new WeightedCompositeStrategy();
+    const result = strategy.score(baseInput, {
+      radiusKm: 5,
+      weights: { rating: 1, load: 1 },
+    });
+
+    expect(result.breakdown).toEqual({ rating: 0.375, load: 0.5 });
+    expect(result.score).toBe(0.875);
+  });
+});
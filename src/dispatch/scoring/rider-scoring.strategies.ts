@@ -0,0 +1,118 @@
+import {
+  RiderScore,
+  RiderScoringInput,
+  RiderScoringStrategy,
+  ScoringContext,
+  ScoringFactor,
+  ScoringWeights,
+} from './rider-scoring.interface';
+
+// Riders idle for this long or more get the full idle-time score
+const IDLE_TIME_SATURATION_MINUTES = 60;
+
+// Used when an order type selects the weighted strategy without weights
+export const DEFAULT_COMPOSITE_WEIGHTS: Required<ScoringWeights> = {
+  distance: 0.4,
+  load: 0.2,
+  idle_time: 0.15,
+  acceptance_rate: 0.15,
+  rating: 0.1,
+};
+
+/** Maps each raw factor onto 0-1 where 1 is the most desirable rider. */
+export function normalizeFactors(
+  input: RiderScoringInput,
+  context: ScoringContext,
+): Record<ScoringFactor, number> {
+  const radiusKm = context.radiusKm > 0 ? context.radiusKm : 1;
+
+  return {
+    distance: 1 - Math.min(Math.max(input.distanceKm, 0) / radiusKm, 1),
+    load: 1 / (1 + Math.max(input.currentLoad, 0)),
+    idle_time:
+      input.minutesSinceLastAssignment === null
+        ? 1
+        : Math.min(
+            input.minutesSinceLastAssignment / IDLE_TIME_SATURATION_MINUTES,
+            1,
+          ),
+    // Unknown history scores neutrally rather than being punished
+    acceptance_rate: input.acceptanceRate ?? 0.5,
+    rating: input.rating === null ? 0.5 : (input.rating - 1) / 4,
+  };
+}
+
+function combine(
+  weights: ScoringWeights,
+  input: RiderScoringInput,
+  context: ScoringContext,
+): RiderScore {
+  const normalized = normalizeFactors(input, context);
+  const factors = (Object.keys(weights) as ScoringFactor[]).filter(
+    (factor) => (weights[factor] ?? 0) > 0,
+  );
+  const totalWeight = factors.reduce((sum, f) => sum + weights[f]!, 0);
+
+  if (totalWeight === 0) {
+    return {
+      score: normalized.distance,
+      breakdown: { distance: normalized.distance },
+    };
+  }
+
+  const breakdown: RiderScore['breakdown'] = {};
+  let score = 0;
+  for (const factor of factors) {
+    const contribution = (weights[factor]! / totalWeight) * normalized[factor];
+    breakdown[factor] = Number(contribution.toFixed(4));
+    score += contribution;
+  }
+
+  return { score: Number(score.toFixed(4)), breakdown };
+}
+
+export class NearestStrategy implements RiderScoringStrategy {
+  readonly name = 'nearest';
+
+  score(input: RiderScoringInput, context: ScoringContext): RiderScore {
+    return combine({ distance: 1 }, input, context);
+  }
+}
+
+/** Prefers riders carrying the fewest active orders, then the closest. */
+export class LeastLoadedStrategy implements RiderScoringStrategy {
+  readonly name = 'least_loaded';
+
+  score(input: RiderScoringInput, context: ScoringContext): RiderScore {
+    return combine({ load: 0.7, distance: 0.3 }, input, context);
+  }
+}
+
+/** Round-robin flavour: the rider who has waited longest goes first. */
+export class FairnessStrategy implements RiderScoringStrategy {
+  readonly name = 'fairness';
+
+  score(input: RiderScoringInput, context: ScoringContext): RiderScore {
+    return combine({ idle_time: 0.7, distance: 0.3 }, input, context);
+  }
+}
+
+/** Blends every factor using the order type's weights. */
+export class WeightedCompositeStrategy implements RiderScoringStrategy {
+  readonly name = 'weighted';
+
+  score(input: RiderScoringInput, context: ScoringContext): RiderScore {
+    return combine(
+      context.weights ?? DEFAULT_COMPOSITE_WEIGHTS,
+      input,
+      context,
+    );
+  }
+}
+
+export const BUILT_IN_SCORING_STRATEGIES: RiderScoringStrategy[] = [
+  new NearestStrategy(),
+  new LeastLoadedStrategy(),
+  new FairnessStrategy(),
+  new WeightedCompositeStrategy(),
+];
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by the last login or refresh',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+
+  @ApiProperty({ example: 'pixel-7-3f9a', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  device_id?: string;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsEnum, IsOptional, MaxLength } from 'class-validator';
+import { CancellationCategory } from '../orders/order-cancellation.policy';
+import { OrderResponse } from './order.dto';
+
+export class CancelOrderDto {
+  @ApiProperty({
+    enum: CancellationCategory,
+    example: CancellationCategory.KITCHEN,
+    description: 'Party the cancellation is attributed to',
+  })
+  @IsEnum(CancellationCategory)
+  category: CancellationCategory;
+
+  @ApiProperty({
+    example: 'out_of_stock',
+    description: 'Reason code within the category; see the README for the list',
+  })
+  @IsString()
+  reason: string;
+
+  @ApiProperty({
+    example: 'No more jollof rice today',
+    description: 'Optional free-text detail',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class OrderCancellationResponse {
+  @ApiProperty({ type: () => OrderResponse })
+  order: OrderResponse;
+
+  @ApiProperty({
+    type: () => Object,
+    description:
+      'Cancellation record: category, reason_code, note, previous_status, rider_id, fee, actor',
+  })
+  cancellation: any;
+}
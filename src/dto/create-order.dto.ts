@@ -1,5 +1,12 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsNumber, IsBoolean, IsObject, ValidateNested } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsBoolean,
+  ValidateNested,
+  IsOptional,
+  IsISO8601,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
 class AddressDetails {
@@ -42,7 +49,7 @@ class CalculatedOrderDetails {
   @IsNumber()
   lat: number;
 
-  @ApiProperty({ example: -74.0060, description: 'Longitude coordinate' })
+  @ApiProperty({ example: -74.006, description: 'Longitude coordinate' })
   @IsNumber()
   lng: number;
 
@@ -50,7 +57,7 @@ class CalculatedOrderDetails {
   @IsBoolean()
   free_delivery: boolean;
 
-  @ApiProperty({ example: 20.00, description: 'Base amount before fees' })
+  @ApiProperty({ example: 20.0, description: 'Base amount before fees' })
   @IsNumber()
   amount: number;
 }
@@ -69,7 +76,28 @@ export class CreateOrderDto {
   @Type(() => CalculatedOrderDetails)
   calculated_order: CalculatedOrderDetails;
 
-  @ApiProperty({ example: false, description: 'Whether this is a scheduled delivery' })
+  @ApiProperty({
+    example: false,
+    description: 'Whether this is a scheduled delivery',
+  })
   @IsBoolean()
   scheduled: boolean;
+
+  @ApiProperty({
+    example: '2024-07-01T11:00:00Z',
+    description: 'Start of the delivery window; required for scheduled orders',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  delivery_window_start?: string;
+
+  @ApiProperty({
+    example: '2024-07-01T12:00:00Z',
+    description: 'End of the delivery window; required for scheduled orders',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  delivery_window_end?: string;
 }
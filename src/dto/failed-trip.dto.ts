@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsLatitude,
+  IsLongitude,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export enum FailedTripReason {
+  CUSTOMER_UNREACHABLE = 'customer_unreachable',
+  WRONG_ADDRESS = 'wrong_address',
+  REFUSED = 'refused',
+}
+
+export enum FailedTripResolution {
+  RETURN_TO_KITCHEN = 'return_to_kitchen',
+  REATTEMPT = 'reattempt',
+  REASSIGN = 'reassign',
+}
+
+export class ReportFailedTripDto {
+  @ApiProperty({
+    enum: FailedTripReason,
+    example: FailedTripReason.CUSTOMER_UNREACHABLE,
+    description: 'Why the delivery could not be completed',
+  })
+  @IsEnum(FailedTripReason)
+  reason: FailedTripReason;
+
+  @ApiProperty({
+    example: 'Called three times, no answer at the gate',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+
+  @ApiProperty({
+    example: 'uploads/failed-trips/2024-06-27/abc123.jpg',
+    description: 'Reference to a photo taken at the drop-off, stored elsewhere',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  photoRef?: string;
+
+  @ApiProperty({
+    example: 6.4281,
+    description: 'Where the rider was when the trip failed',
+    required: false,
+  })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiProperty({ example: 3.4219, required: false })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+}
+
+export class ResolveFailedTripDto {
+  @ApiProperty({
+    enum: FailedTripResolution,
+    example: FailedTripResolution.REASSIGN,
+    description:
+      '`reattempt` keeps the rider, `reassign` releases them and dispatches again, `return_to_kitchen` ends the order',
+  })
+  @IsEnum(FailedTripResolution)
+  action: FailedTripResolution;
+
+  @ApiProperty({
+    example: 'Customer confirmed the correct gate number',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
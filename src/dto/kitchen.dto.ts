@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class KitchenPlacementDto {
+  @ApiProperty({
+    example: 'B-12',
+    description: 'Box the order is packed in',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  boxNumber?: string;
+
+  @ApiProperty({
+    example: 'shelf-3',
+    description: 'Shelf the order waits on for its rider',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  shelfId?: string;
+}
+
+export class KitchenHandoffDto {
+  @ApiProperty({
+    example: '0427',
+    description: 'Code shown by the collecting rider',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(16)
+  pickupCode: string;
+}
+
+export class OpeningHoursDto {
+  @ApiProperty({ example: 1, description: 'Day of the week, 0 = Sunday' })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
+
+  @ApiProperty({
+    example: '10:00',
+    description: 'Opening time (HH:mm, kitchen time)',
+  })
+  @Matches(TIME_OF_DAY)
+  opensAt: string;
+
+  @ApiProperty({
+    example: '22:00',
+    description: 'Closing time (HH:mm, kitchen time)',
+  })
+  @Matches(TIME_OF_DAY)
+  closesAt: string;
+}
+
+export class SetKitchenHoursDto {
+  @ApiProperty({
+    type: [OpeningHoursDto],
+    description:
+      'Replaces every interval; days left out are closed, an empty list stops enforcing hours',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => OpeningHoursDto)
+  hours: OpeningHoursDto[];
+}
@@ -0,0 +1,20 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class CreateOrderTypeDto {
+  @ApiProperty({ example: 'Delivery', description: 'Order type name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    example: 'DL',
+    description: 'Letters that start the code of every order of this type',
+  })
+  @Matches(/^[A-Z]{1,4}$/, {
+    message: 'code_prefix must be 1-4 upper-case letters',
+  })
+  code_prefix: string;
+}
+
+export class UpdateOrderTypeDto extends PartialType(CreateOrderTypeDto) {}
@@ -1,5 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsEnum } from 'class-validator';
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
 
 export enum OrderStatus {
   PENDING = 'pending',
@@ -7,14 +15,16 @@ export enum OrderStatus {
   PICKED_UP = 'picked_up',
   IN_TRANSIT = 'in_transit',
   DELIVERED = 'delivered',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  DELIVERY_FAILED = 'delivery_failed',
+  RETURNED = 'returned',
 }
 
 export class UpdateOrderStatusDto {
   @ApiProperty({
     enum: OrderStatus,
     example: OrderStatus.ACCEPTED,
-    description: 'New status for the order'
+    description: 'New status for the order',
   })
   @IsEnum(OrderStatus)
   status: OrderStatus;
@@ -22,26 +32,63 @@ export class UpdateOrderStatusDto {
   @ApiProperty({
     example: 'Order accepted by kitchen',
     description: 'Optional description of the status change',
-    required: false
+    required: false,
   })
+  @IsOptional()
   @IsString()
   description?: string;
 }
 
+export class RateOrderDto {
+  @ApiProperty({
+    example: 5,
+    minimum: 1,
+    maximum: 5,
+    description: 'Customer rating of the delivery',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiProperty({
+    example: 'Rider was polite and quick',
+    description: 'Optional feedback from the customer',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
+
 export class OrderResponse {
   @ApiProperty({ example: '123', description: 'Order ID' })
   id: string;
 
-  @ApiProperty({ example: 'ORD-2025-001', description: 'Order tracking code' })
+  @ApiProperty({
+    example: 'DL-240701-00426',
+    description:
+      'Order code: order type prefix, kitchen-local day, daily sequence and a check character',
+  })
   order_code: string;
 
-  @ApiProperty({ example: false, description: 'Whether the order is completed' })
+  @ApiProperty({
+    example: false,
+    description: 'Whether the order is completed',
+  })
   completed: boolean;
 
-  @ApiProperty({ example: false, description: 'Whether the order is cancelled' })
+  @ApiProperty({
+    example: false,
+    description: 'Whether the order is cancelled',
+  })
   cancelled: boolean;
 
-  @ApiProperty({ type: () => Object, description: 'Calculated order details including prices' })
+  @ApiProperty({
+    type: () => Object,
+    description: 'Calculated order details including prices',
+  })
   calculated_order: any;
 
   @ApiProperty({ type: [Object], description: 'Order status history logs' })
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO8601 } from 'class-validator';
+
+export class RescheduleOrderDto {
+  @ApiProperty({
+    example: '2024-07-02T17:00:00Z',
+    description: 'New start of the delivery window',
+  })
+  @IsISO8601()
+  delivery_window_start: string;
+
+  @ApiProperty({
+    example: '2024-07-02T18:00:00Z',
+    description: 'New end of the delivery window',
+  })
+  @IsISO8601()
+  delivery_window_end: string;
+}
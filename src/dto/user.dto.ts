@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { Role, STAFF_ROLES } from '../auth/roles';
+
+export class CreateUserDto {
+  @ApiProperty({
+    example: 'Ada Dispatcher',
+    description: "Staff member's full name",
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: 'ada@example.com', description: 'Staff login email' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({ example: 'password123', description: 'Initial password' })
+  @IsString()
+  @MinLength(8)
+  password: string;
+
+  @ApiProperty({
+    enum: STAFF_ROLES,
+    example: Role.DISPATCHER,
+    description: 'Staff role',
+  })
+  @IsIn(STAFF_ROLES)
+  role: Role;
+
+  @ApiProperty({
+    example: 'ck_lekki',
+    description: 'Kitchen the staff member works at',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cokitchen_id?: string;
+}
+
+export class UpdateUserDto {
+  @ApiProperty({ enum: STAFF_ROLES, required: false })
+  @IsOptional()
+  @IsIn(STAFF_ROLES)
+  role?: Role;
+
+  @ApiProperty({ example: 'ck_lekki', required: false })
+  @IsOptional()
+  @IsString()
+  cokitchen_id?: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Inactive users cannot log in',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
+
+export class StaffLoginDto {
+  @ApiProperty({ example: 'ada@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({ example: 'password123' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+
+  @ApiProperty({ example: 'front-desk-01', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  device_id?: string;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { GeoJsonPolygon } from '../models/delivery-zone.model';
+
+export class CreateZoneDto {
+  @ApiProperty({
+    example: 'Lekki Phase 1',
+    description: 'Human readable zone name',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    example: 'ck_lekki',
+    description: 'Cokitchen serving orders inside this zone',
+  })
+  @IsString()
+  @IsNotEmpty()
+  cokitchen_id: string;
+
+  @ApiProperty({
+    example: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [3.45, 6.42],
+          [3.5, 6.42],
+          [3.5, 6.46],
+          [3.45, 6.46],
+          [3.45, 6.42],
+        ],
+      ],
+    },
+    description:
+      'GeoJSON Polygon with [longitude, latitude] positions; first ring is the boundary, later rings are holes',
+  })
+  @IsObject()
+  @IsNotEmpty()
+  polygon: GeoJsonPolygon;
+
+  @ApiProperty({
+    example: true,
+    description: 'Whether the zone accepts orders',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  is_active?: boolean;
+}
+
+export class UpdateZoneDto extends PartialType(CreateZoneDto) {}
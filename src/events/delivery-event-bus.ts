@@ -0,0 +1,101 @@
+import { DeliveryEventType } from '../interfaces/message-payloads';
+import { EventEnvelope } from './event-envelope';
+
+// Receives the parsed message body; throwing fails the delivery
+export type MessageHandler = (data: unknown) => Promise<void>;
+
+export interface EventBusState {
+  status: 'connected' | 'connecting' | 'disconnected';
+  blocked: boolean; // broker is refusing publishes, e.g. low on memory or disk
+  connectedSince: string | null;
+  lastError: string | null;
+  reconnectAttempts: number; // since the last successful connect
+  bufferedMessages: number;
+  droppedMessages: number;
+}
+
+export interface DeadLetterQueueSummary {
+  queue: string;
+  deadLetterQueue: string;
+  messageCount: number;
+}
+
+export interface DeadLetterMessage {
+  messageId: string | null;
+  type: string | null;
+  reason: string | null;
+  lastError: string | null;
+  retryCount: number;
+  firstFailedAt: string | null;
+  lastFailedAt: string | null;
+  replayedAt: string | null;
+  headers: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface ReplayOptions {
+  messageIds?: string[];
+  limit: number;
+}
+
+/**
+ * Transport for delivery events. Every event type has a work queue of the
+ * same name, bound to the topic exchange by its type. A failed delivery is
+ * retried after each delay in RABBITMQ_RETRY_DELAYS_MS and then moved to the
+ * `<queue>.dead` queue, with the failure recorded in the headers from
+ * ./message-headers. Implementations are chosen with EVENT_BUS_DRIVER.
+ */
+export abstract class DeliveryEventBus {
+  abstract get connected(): boolean;
+
+  abstract getConnectionState(): EventBusState;
+
+  /** Resolves once the transport has taken responsibility for the event. */
+  abstract publishConfirmed(envelope: EventEnvelope): Promise<void>;
+
+  /** Fire-and-forget; never fails because the transport is down. */
+  abstract publish(envelope: EventEnvelope): void;
+
+  /** Registers a consumer, kept across reconnects. */
+  abstract consumeMessages(
+    queueName: DeliveryEventType,
+    handler: MessageHandler,
+  ): Promise<void>;
+
+  /** Work queues, i.e. excluding their retry and dead letter queues. */
+  abstract getQueueNames(): string[];
+
+  abstract getDeadLetterQueue(queueName: string): string;
+
+  abstract listDeadLetters(): Promise<DeadLetterQueueSummary[]>;
+
+  /** Returns the oldest dead letters without removing them. */
+  abstract peekDeadLetters(
+    queueName: string,
+    limit: number,
+  ): Promise<DeadLetterMessage[]>;
+
+  /**
+   * Moves dead letters back to the work queue with a fresh retry budget and
+   * returns the IDs of the replayed messages.
+   */
+  abstract replayDeadLetters(
+    queueName: string,
+    options: ReplayOptions,
+  ): Promise<string[]>;
+
+  abstract purgeDeadLetters(queueName: string): Promise<number>;
+
+  /** Returns false when the message isn't in the dead letter queue. */
+  abstract removeDeadLetter(
+    queueName: string,
+    messageId: string,
+  ): Promise<boolean>;
+}
+
+export function parseRetryDelays(value: string): number[] {
+  return value
+    .split(',')
+    .map((delay) => parseInt(delay, 10))
+    .filter((delay) => delay > 0);
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CustomLogger } from '../common/logger/logger.service';
+import { MetricsModule } from '../metrics/metrics.module';
+import { MetricsService } from '../metrics/metrics.service';
+import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
+import { DeliveryEventBus } from './delivery-event-bus';
+import { InMemoryDeliveryEventBus } from './in-memory-event-bus';
+
+// Imported wherever events are published or consumed, so the app shares a
+// single bus and broker connection
+@Module({
+  imports: [MetricsModule],
+  providers: [
+    CustomLogger,
+    {
+      provide: DeliveryEventBus,
+      inject: [ConfigService, CustomLogger, MetricsService],
+      useFactory: (
+        configService: ConfigService,
+        logger: CustomLogger,
+        metrics: MetricsService,
+      ) =>
+        configService.get('EVENT_BUS_DRIVER', 'amqp') === 'memory'
+          ? new InMemoryDeliveryEventBus(logger)
+          : new RabbitMQService(logger, metrics),
+    },
+  ],
+  exports: [DeliveryEventBus],
+})
+export class EventBusModule {}
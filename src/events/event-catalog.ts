@@ -0,0 +1,63 @@
+import { DeliveryEventType } from '../interfaces/message-payloads';
+import { ENVELOPE_SCHEMA, EVENT_DEFINITIONS } from './event-schemas';
+import { EVENT_PRODUCER } from './event-envelope';
+
+const formatType = (schema: any): string => [schema.type].flat().join(' \\| ');
+
+function renderFields(schema: any): string[] {
+  const required = new Set<string>(schema.required ?? []);
+  const rows = Object.entries<any>(schema.properties ?? {}).map(
+    ([name, property]) =>
+      `| \`${name}\` | ${formatType(property)} | ${required.has(name) ? 'yes' : 'no'} | ${property.description ?? ''} |`,
+  );
+  return [
+    '| Field | Type | Required | Description |',
+    '|---|---|---|---|',
+    ...rows,
+  ];
+}
+
+/**
+ * Markdown catalogue of every delivery event, generated from the schemas.
+ * Written to docs/events.md by `npm run events:catalog`.
+ */
+export function renderEventCatalog(): string {
+  const lines = [
+    '# Delivery Event Catalogue',
+    '',
+    '<!-- Generated by `npm run events:catalog` from src/events/event-schemas.ts. Do not edit. -->',
+    '',
+    `Events are published by \`${EVENT_PRODUCER}\` to the \`delivery_events\` exchange.`,
+    'Each event type is consumed from the queue of the same name.',
+    '',
+    '## Envelope',
+    '',
+    ...renderFields(ENVELOPE_SCHEMA),
+  ];
+
+  const types = Object.keys(EVENT_DEFINITIONS).sort() as DeliveryEventType[];
+  for (const type of types) {
+    const definition = EVENT_DEFINITIONS[type];
+    lines.push('', `## \`${type}\``, '', definition.description, '');
+    lines.push(`Current version: **${definition.currentVersion}**`);
+
+    const versions = Object.keys(definition.versions)
+      .map(Number)
+      .sort((a, b) => b - a);
+    for (const version of versions) {
+      const schema = definition.versions[version];
+      lines.push(
+        '',
+        `### v${version}`,
+        '',
+        ...renderFields(schema),
+        '',
+        '```json',
+        JSON.stringify(schema, null, 2),
+        '```',
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { runWithCorrelation } from '../common/context/correlation.context';
+import { RiderLocationPayload } from '../interfaces/message-payloads';
+import { renderEventCatalog } from './event-catalog';
+import {
+  EVENT_PRODUCER,
+  EventValidationError,
+  createEnvelope,
+  validateEnvelope,
+} from './event-envelope';
+import { EVENT_DEFINITIONS } from './event-schemas';
+
+const location: RiderLocationPayload = {
+  riderId: 7,
+  latitude: 6.45,
+  longitude: 3.39,
+};
+
+describe('event envelope', () => {
+  it('wraps a payload at the current version', () => {
+    const envelope = createEnvelope('rider.location', location);
+
+    expect(envelope).toMatchObject({
+      type: 'rider.location',
+      version: EVENT_DEFINITIONS['rider.location'].currentVersion,
+      producer: EVENT_PRODUCER,
+      causationId: null,
+      payload: location,
+    });
+    // Without a request the event starts its own correlation chain
+    expect(envelope.correlationId).toBe(envelope.eventId);
+  });
+
+  it('inherits correlation and causation from the current context', () => {
+    const envelope = runWithCorrelation(
+      { correlationId: 'req-1', causationId: 'evt-1' },
+      () => createEnvelope('rider.location', location),
+    );
+
+    expect(envelope.correlationId).toBe('req-1');
+    expect(envelope.causationId).toBe('evt-1');
+  });
+
+  it('rejects payloads that do not match the schema', () => {
+    expect(() =>
+      createEnvelope('rider.location', { ...location, latitude: 123 }),
+    ).toThrow(EventValidationError);
+    expect(() =>
+      createEnvelope('rider.location', { ...location, extra: true } as any),
+    ).toThrow(/must NOT have additional properties/);
+  });
+
+  it('rejects unknown versions and malformed envelopes', () => {
+    const envelope = createEnvelope('rider.location', location);
+
+    expect(() => validateEnvelope({ ...envelope, version: 99 })).toThrow(
+      /Unknown event type or version/,
+    );
+    expect(() =>
+      validateEnvelope({ ...envelope, occurredAt: 'yesterday' }),
+    ).toThrow(EventValidationError);
+    expect(() => validateEnvelope({ order: {} })).toThrow(
+      /Invalid event envelope/,
+    );
+  });
+
+  it('accepts a round-tripped envelope', () => {
+    const envelope = createEnvelope('order.updated', {
+      orderId: 1,
+      previousStatus: 'accepted',
+      status: 'picked_up',
+      riderId: 3,
+      description: null,
+      actor: { type: 'rider', id: '3' },
+    });
+
+    expect(() =>
+      validateEnvelope(JSON.parse(JSON.stringify(envelope))),
+    ).not.toThrow();
+  });
+});
+
+describe('event catalogue', () => {
+  it('docs/events.md is up to date (run `npm run events:catalog`)', () => {
+    const committed = readFileSync(
+      join(__dirname, '..', '..', 'docs', 'events.md'),
+      'utf8',
+    );
+
+    expect(committed).toBe(renderEventCatalog());
+  });
+});
@@ -0,0 +1,115 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { randomUUID } from 'crypto';
+import {
+  DeliveryEventPayloads,
+  DeliveryEventType,
+} from '../interfaces/message-payloads';
+import { getCorrelationContext } from '../common/context/correlation.context';
+import { ENVELOPE_SCHEMA, EVENT_DEFINITIONS } from './event-schemas';
+
+export const EVENT_PRODUCER = 'realtime-delivery';
+
+export interface EventEnvelope<
+  T extends DeliveryEventType = DeliveryEventType,
+> {
+  eventId: string;
+  type: T;
+  version: number;
+  occurredAt: string;
+  producer: string;
+  correlationId: string;
+  causationId: string | null;
+  payload: DeliveryEventPayloads[T];
+}
+
+/** The event doesn't match its schema; retrying won't help. */
+export class EventValidationError extends Error {
+  constructor(
+    message: string,
+    readonly errors: string[] = [],
+  ) {
+    super(errors.length ? `${message}: ${errors.join('; ')}` : message);
+    this.name = EventValidationError.name;
+  }
+}
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validateEnvelopeShape = ajv.compile(ENVELOPE_SCHEMA);
+const payloadValidators = new Map<string, ValidateFunction>();
+
+function getPayloadValidator(
+  type: string,
+  version: number,
+): ValidateFunction | undefined {
+  const key = `${type}@${version}`;
+  if (!payloadValidators.has(key)) {
+    const schema =
+      EVENT_DEFINITIONS[type as DeliveryEventType]?.versions[version];
+    if (!schema) {
+      return undefined;
+    }
+    payloadValidators.set(key, ajv.compile(schema));
+  }
+  return payloadValidators.get(key);
+}
+
+function formatErrors(
+  errors: ErrorObject[] | null | undefined,
+  prefix: string,
+): string[] {
+  return (errors ?? []).map(
+    (error) => `${prefix}${error.instancePath} ${error.message}`,
+  );
+}
+
+/** Throws EventValidationError unless the envelope and its payload match their schemas. */
+export function validateEnvelope(
+  envelope: unknown,
+): asserts envelope is EventEnvelope {
+  if (!validateEnvelopeShape(envelope)) {
+    throw new EventValidationError(
+      'Invalid event envelope',
+      formatErrors(validateEnvelopeShape.errors, 'envelope'),
+    );
+  }
+
+  const { type, version, payload } = envelope as unknown as EventEnvelope;
+  const validatePayload = getPayloadValidator(type, version);
+  if (!validatePayload) {
+    throw new EventValidationError(
+      `Unknown event type or version '${type}' v${version}`,
+    );
+  }
+  if (!validatePayload(payload)) {
+    throw new EventValidationError(
+      `Invalid ${type} v${version} payload`,
+      formatErrors(validatePayload.errors, 'payload'),
+    );
+  }
+}
+
+/**
+ * Wraps a payload in an envelope at the type's current version, inheriting
+ * correlation and causation from the request or event being handled.
+ */
+export function createEnvelope<T extends DeliveryEventType>(
+  type: T,
+  payload: DeliveryEventPayloads[T],
+  occurredAt: Date = new Date(),
+): EventEnvelope<T> {
+  const eventId = randomUUID();
+  const context = getCorrelationContext();
+  const envelope: EventEnvelope<T> = {
+    eventId,
+    type,
+    version: EVENT_DEFINITIONS[type].currentVersion,
+    occurredAt: occurredAt.toISOString(),
+    producer: EVENT_PRODUCER,
+    correlationId: context?.correlationId ?? eventId,
+    causationId: context?.causationId ?? null,
+    payload,
+  };
+
+  validateEnvelope(envelope);
+  return envelope;
+}
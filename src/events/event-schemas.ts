@@ -0,0 +1,288 @@
+import { DeliveryEventType } from '../interfaces/message-payloads';
+
+export interface EventDefinition {
+  description: string;
+  // Version stamped on newly published events
+  currentVersion: number;
+  // Payload JSON Schema for every version consumers still accept
+  versions: Record<number, object>;
+}
+
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+const ORDER_ID = { type: 'integer', minimum: 1, description: 'Order ID' };
+const RIDER_ID = { type: 'integer', minimum: 1, description: 'Rider ID' };
+const LATITUDE = { type: 'number', minimum: -90, maximum: 90 };
+const LONGITUDE = { type: 'number', minimum: -180, maximum: 180 };
+
+export const EVENT_DEFINITIONS: Record<DeliveryEventType, EventDefinition> = {
+  'order.created': {
+    description: 'A customer order was accepted into a delivery zone.',
+    currentVersion: 1,
+    versions: {
+      1: {
+        type: 'object',
+        additionalProperties: false,
+        required: [
+          'orderId',
+          'orderCode',
+          'userId',
+          'orderTypeId',
+          'status',
+          'zoneId',
+          'cokitchenId',
+          'deliveryLatitude',
+          'deliveryLongitude',
+          'totalAmount',
+          'scheduled',
+          'createdAt',
+        ],
+        properties: {
+          orderId: ORDER_ID,
+          orderCode: {
+            ...nullable('string'),
+            description: 'Human-readable order code',
+          },
+          userId: { type: 'string', description: 'Customer ID' },
+          orderTypeId: { ...nullable('integer'), description: 'Order type ID' },
+          status: {
+            type: 'string',
+            description: 'Initial status, normally `pending`',
+          },
+          zoneId: {
+            ...nullable('integer'),
+            description: 'Delivery zone serving the drop-off',
+          },
+          cokitchenId: {
+            ...nullable('string'),
+            description: 'Kitchen preparing the order',
+          },
+          deliveryLatitude: {
+            ...nullable('number'),
+            description: 'Drop-off latitude',
+          },
+          deliveryLongitude: {
+            ...nullable('number'),
+            description: 'Drop-off longitude',
+          },
+          totalAmount: { ...nullable('number'), description: 'Order total' },
+          scheduled: {
+            type: 'boolean',
+            description: 'Whether delivery is scheduled for later',
+          },
+          createdAt: {
+            type: 'string',
+            description: 'When the order was created (ISO 8601)',
+          },
+        },
+      },
+    },
+  },
+  'order.updated': {
+    description: 'An order moved to a new lifecycle status.',
+    currentVersion: 1,
+    versions: {
+      1: {
+        type: 'object',
+        additionalProperties: false,
+        required: [
+          'orderId',
+          'previousStatus',
+          'status',
+          'riderId',
+          'description',
+          'actor',
+        ],
+        properties: {
+          orderId: ORDER_ID,
+          previousStatus: {
+            ...nullable('string'),
+            description: 'Status before the change',
+          },
+          status: { type: 'string', description: 'Status after the change' },
+          riderId: {
+            ...nullable('integer'),
+            description: 'Assigned rider, if any',
+          },
+          description: {
+            ...nullable('string'),
+            description: 'Reason given for the change',
+          },
+          actor: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['type', 'id'],
+            description: 'Who made the change',
+            properties: {
+              type: {
+                type: 'string',
+                description: 'e.g. `system`, `rider`, `dispatcher`',
+              },
+              id: nullable('string'),
+            },
+          },
+        },
+      },
+    },
+  },
+  'order.assigned': {
+    description: 'A rider was assigned to an order.',
+    currentVersion: 1,
+    versions: {
+      1: {
+        type: 'object',
+        additionalProperties: false,
+        required: [
+          'orderId',
+          'riderId',
+          'status',
+          'deliveryLatitude',
+          'deliveryLongitude',
+        ],
+        properties: {
+          orderId: ORDER_ID,
+          riderId: RIDER_ID,
+          status: { type: 'string', description: 'Order status at assignment' },
+          deliveryLatitude: {
+            ...nullable('number'),
+            description: 'Drop-off latitude',
+          },
+          deliveryLongitude: {
+            ...nullable('number'),
+            description: 'Drop-off longitude',
+          },
+        },
+      },
+    },
+  },
+  'order.cancelled': {
+    description:
+      'An order was cancelled; carries the reason and the rider it released.',
+    currentVersion: 1,
+    versions: {
+      1: {
+        type: 'object',
+        additionalProperties: false,
+        required: [
+          'orderId',
+          'previousStatus',
+          'category',
+          'reasonCode',
+          'note',
+          'riderId',
+          'fee',
+          'actor',
+          'cancelledAt',
+        ],
+        properties: {
+          orderId: ORDER_ID,
+          previousStatus: {
+            type: 'string',
+            description: 'Status the order was cancelled from',
+          },
+          category: {
+            type: 'string',
+            description: '`customer`, `kitchen`, `rider` or `ops`',
+          },
+          reasonCode: {
+            type: 'string',
+            description: 'Reason within the category, e.g. `out_of_stock`',
+          },
+          note: { ...nullable('string'), description: 'Free-text detail' },
+          riderId: {
+            ...nullable('integer'),
+            description: 'Rider released from the order, if one was assigned',
+          },
+          fee: {
+            type: 'number',
+            minimum: 0,
+            description: 'Cancellation fee charged to the customer',
+          },
+          actor: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['type', 'id'],
+            description: 'Who cancelled the order',
+            properties: {
+              type: {
+                type: 'string',
+                description: 'Role of the caller, e.g. `kitchen`',
+              },
+              id: nullable('string'),
+            },
+          },
+          cancelledAt: {
+            type: 'string',
+            description: 'When the order was cancelled (ISO 8601)',
+          },
+        },
+      },
+    },
+  },
+  'rider.location': {
+    description: 'A rider reported a new position.',
+    currentVersion: 1,
+    versions: {
+      1: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['riderId', 'latitude', 'longitude'],
+        properties: {
+          riderId: RIDER_ID,
+          latitude: LATITUDE,
+          longitude: LONGITUDE,
+        },
+      },
+    },
+  },
+};
+
+// Shared by every event; `payload` is checked against the type's schema
+export const ENVELOPE_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: [
+    'eventId',
+    'type',
+    'version',
+    'occurredAt',
+    'producer',
+    'correlationId',
+    'causationId',
+    'payload',
+  ],
+  properties: {
+    eventId: {
+      type: 'string',
+      minLength: 1,
+      description: 'Unique event ID, also the AMQP message ID',
+    },
+    type: { type: 'string', description: 'Event type, e.g. `order.created`' },
+    version: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Payload schema version',
+    },
+    occurredAt: {
+      type: 'string',
+      pattern:
+        '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:\\d{2})$',
+      description: 'When the change happened (ISO 8601)',
+    },
+    producer: {
+      type: 'string',
+      minLength: 1,
+      description: 'Service that published the event',
+    },
+    correlationId: {
+      type: 'string',
+      minLength: 1,
+      description: 'Shared by every event caused by the same request',
+    },
+    causationId: {
+      ...nullable('string'),
+      description: 'ID of the event that caused this one',
+    },
+    payload: { type: 'object', description: 'Event-specific data' },
+  },
+};
@@ -0,0 +1,207 @@
+import { CustomLogger } from '../common/logger/logger.service';
+import { RiderLocationPayload } from '../interfaces/message-payloads';
+import { EventValidationError, createEnvelope } from './event-envelope';
+import { InMemoryDeliveryEventBus, matchesTopic } from './in-memory-event-bus';
+import {
+  DEAD_LETTER_REASON_HEADER,
+  LAST_ERROR_HEADER,
+  ORIGINAL_QUEUE_HEADER,
+  REPLAYED_AT_HEADER,
+  RETRY_COUNT_HEADER,
+} from './message-headers';
+
+const silentLogger = {
+  setContext: () => undefined,
+  log: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+} as unknown as CustomLogger;
+
+const location = (riderId: number): RiderLocationPayload => ({
+  riderId,
+  latitude: 6.45,
+  longitude: 3.39,
+});
+
+describe('matchesTopic', () => {
+  it.each([
+    ['order.created', 'order.created', true],
+    ['order.created', 'order.updated', false],
+    ['order.*', 'order.created', true],
+    ['order.*', 'order.created.v2', false],
+    ['order.#', 'order', true],
+    ['order.#', 'order.created.v2', true],
+    ['#.created', 'order.created', true],
+    ['#', 'rider.location', true],
+    ['*.location', 'location', false],
+  ])('%s matches %s: %s', (pattern, routingKey, expected) => {
+    expect(matchesTopic(pattern, routingKey)).toBe(expected);
+  });
+});
+
+describe('InMemoryDeliveryEventBus', () => {
+  let bus: InMemoryDeliveryEventBus;
+
+  beforeEach(() => {
+    bus = new InMemoryDeliveryEventBus(silentLogger, {
+      retryDelaysMs: [1, 1],
+    });
+  });
+
+  afterEach(() => bus.onModuleDestroy());
+
+  it('delivers a serialised copy to the queue named after the event type', async () => {
+    const received: unknown[] = [];
+    await bus.consumeMessages('rider.location', async (data) => {
+      received.push(data);
+    });
+    await bus.consumeMessages('order.created', async () => {
+      throw new Error('should not be routed here');
+    });
+
+    const envelope = createEnvelope('rider.location', location(7));
+    await bus.publishConfirmed(envelope);
+    await bus.drain();
+
+    expect(received).toEqual([envelope]);
+    expect(received[0]).not.toBe(envelope);
+    expect(bus.expectPublished('rider.location').eventId).toBe(
+      envelope.eventId,
+    );
+  });
+
+  it('retries through every tier, then dead-letters with the failure recorded', async () => {
+    let attempts = 0;
+    await bus.consumeMessages('rider.location', async () => {
+      attempts++;
+      throw new Error('rider service down');
+    });
+
+    bus.publish(createEnvelope('rider.location', location(7)));
+    await bus.drain();
+
+    expect(attempts).toBe(3);
+    const [dead] = await bus.peekDeadLetters('rider.location', 10);
+    expect(dead.reason).toBe('max_retries_exceeded');
+    expect(dead.retryCount).toBe(3);
+    expect(dead.headers).toMatchObject({
+      [LAST_ERROR_HEADER]: 'rider service down',
+      [ORIGINAL_QUEUE_HEADER]: 'rider.location',
+    });
+    expect(dead.firstFailedAt).not.toBeNull();
+  });
+
+  it('dead-letters invalid messages without retrying', async () => {
+    let attempts = 0;
+    await bus.consumeMessages('rider.location', async () => {
+      attempts++;
+      throw new EventValidationError('Invalid rider.location v1 payload');
+    });
+
+    bus.publish(createEnvelope('rider.location', location(7)));
+    await bus.drain();
+
+    expect(attempts).toBe(1);
+    const [dead] = await bus.peekDeadLetters('rider.location', 10);
+    expect(dead.reason).toBe('invalid_message');
+  });
+
+  it('replays dead letters with a fresh retry budget', async () => {
+    let healthy = false;
+    let delivered = 0;
+    await bus.consumeMessages('rider.location', async () => {
+      if (!healthy) {
+        throw new Error('rider service down');
+      }
+      delivered++;
+    });
+
+    const envelope = createEnvelope('rider.location', location(7));
+    bus.publish(envelope);
+    await bus.drain();
+
+    healthy = true;
+    const replayed = await bus.replayDeadLetters('rider.location', {
+      limit: 10,
+    });
+    await bus.drain();
+
+    expect(replayed).toEqual([envelope.eventId]);
+    expect(delivered).toBe(1);
+    expect(await bus.peekDeadLetters('rider.location', 10)).toEqual([]);
+  });
+
+  it('stamps replays and retries them through every tier again', async () => {
+    await bus.consumeMessages('rider.location', async () => {
+      throw new Error('still down');
+    });
+    bus.publish(createEnvelope('rider.location', location(7)));
+    await bus.drain();
+
+    await bus.replayDeadLetters('rider.location', { limit: 10 });
+    await bus.drain();
+
+    const [dead] = await bus.peekDeadLetters('rider.location', 10);
+    expect(dead.headers[REPLAYED_AT_HEADER]).toBeDefined();
+    expect(dead.headers[RETRY_COUNT_HEADER]).toBe(3);
+    expect(dead.headers[DEAD_LETTER_REASON_HEADER]).toBe(
+      'max_retries_exceeded',
+    );
+  });
+
+  it('removes and purges dead letters', async () => {
+    await bus.consumeMessages('rider.location', async () => {
+      throw new EventValidationError('bad');
+    });
+    const first = createEnvelope('rider.location', location(1));
+    bus.publish(first);
+    bus.publish(createEnvelope('rider.location', location(2)));
+    await bus.drain();
+
+    expect(await bus.removeDeadLetter('rider.location', first.eventId)).toBe(
+      true,
+    );
+    expect(await bus.removeDeadLetter('rider.location', first.eventId)).toBe(
+      false,
+    );
+    expect(await bus.purgeDeadLetters('rider.location')).toBe(1);
+  });
+
+  it('buffers publishes while disconnected and sends them on reconnect', async () => {
+    const received: unknown[] = [];
+    await bus.consumeMessages('rider.location', async (data) => {
+      received.push(data);
+    });
+
+    bus.setConnected(false);
+    bus.publish(createEnvelope('rider.location', location(7)));
+    await expect(
+      bus.publishConfirmed(createEnvelope('rider.location', location(8))),
+    ).rejects.toThrow('not connected');
+    expect(bus.getConnectionState()).toMatchObject({
+      status: 'disconnected',
+      bufferedMessages: 1,
+    });
+
+    bus.setConnected(true);
+    await bus.drain();
+    expect(received).toHaveLength(1);
+  });
+
+  it('waits for events published later', async () => {
+    const waiting = bus.waitForEvent(
+      'rider.location',
+      (envelope) => envelope.payload.riderId === 8,
+    );
+    bus.publish(createEnvelope('rider.location', location(7)));
+    bus.publish(createEnvelope('rider.location', location(8)));
+
+    await expect(waiting).resolves.toMatchObject({
+      payload: { riderId: 8 },
+    });
+    expect(() => bus.expectPublished('order.created')).toThrow(
+      'published: rider.location, rider.location',
+    );
+  });
+});
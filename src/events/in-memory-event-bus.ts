@@ -0,0 +1,495 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DeliveryEventType } from '../interfaces/message-payloads';
+import {
+  DeadLetterMessage,
+  DeadLetterQueueSummary,
+  DeliveryEventBus,
+  EventBusState,
+  MessageHandler,
+  ReplayOptions,
+  parseRetryDelays,
+} from './delivery-event-bus';
+import {
+  EventEnvelope,
+  EventValidationError,
+  validateEnvelope,
+} from './event-envelope';
+import { EVENT_DEFINITIONS } from './event-schemas';
+import {
+  DEAD_LETTER_REASON_HEADER,
+  DeadLetterReason,
+  RETRY_COUNT_HEADER,
+  buildFailureHeaders,
+  buildReplayHeaders,
+  describeDeadLetter,
+} from './message-headers';
+
+interface InMemoryMessage {
+  messageId: string;
+  type: string;
+  headers: Record<string, any>;
+  content: Buffer;
+}
+
+interface InMemoryQueue {
+  bindings: string[];
+  messages: InMemoryMessage[];
+  deadLetters: InMemoryMessage[];
+  consumers: MessageHandler[];
+  nextConsumer: number;
+}
+
+interface EventWaiter {
+  type: DeliveryEventType;
+  predicate: (envelope: EventEnvelope) => boolean;
+  resolve: (envelope: EventEnvelope) => void;
+}
+
+export interface InMemoryEventBusOptions {
+  retryDelaysMs?: number[];
+  // Events kept for the test helpers; older ones are forgotten
+  historyLimit?: number;
+  // Publishes held while disconnected with setConnected(false)
+  bufferSize?: number;
+  // Messages kept in a queue nobody consumes, e.g. rider.location
+  maxQueueLength?: number;
+}
+
+/**
+ * Matches an AMQP topic binding: `*` stands for exactly one dot-separated
+ * word and `#` for zero or more.
+ */
+export function matchesTopic(pattern: string, routingKey: string): boolean {
+  const match = (patternWords: string[], keyWords: string[]): boolean => {
+    if (!patternWords.length) {
+      return !keyWords.length;
+    }
+    const [word, ...rest] = patternWords;
+    if (word === '#') {
+      return (
+        match(rest, keyWords) ||
+        (keyWords.length > 0 && match(patternWords, keyWords.slice(1)))
+      );
+    }
+    return (
+      keyWords.length > 0 &&
+      (word === '*' || word === keyWords[0]) &&
+      match(rest, keyWords.slice(1))
+    );
+  };
+  return match(pattern.split('.'), routingKey.split('.'));
+}
+
+/**
+ * DeliveryEventBus that never leaves the process, for tests and local runs
+ * without a broker (EVENT_BUS_DRIVER=memory). Events are serialised and
+ * routed by type like on the topic exchange, each queue delivers one message
+ * at a time, and failures go through the same retry tiers, headers and dead
+ * letter queues as RabbitMQService. Nothing survives a restart.
+ */
+export class InMemoryDeliveryEventBus
+  implements DeliveryEventBus, OnModuleDestroy
+{
+  private readonly queues = new Map<string, InMemoryQueue>();
+  private readonly history: EventEnvelope[] = [];
+  private readonly waiters: EventWaiter[] = [];
+  private readonly retryTimers = new Set<NodeJS.Timeout>();
+  // Queue name -> delivery loop currently running for it
+  private readonly running = new Map<string, Promise<void>>();
+  private buffer: EventEnvelope[] = [];
+  private isConnected = true;
+  private connectedSince = new Date();
+  private droppedMessages = 0;
+  private readonly retryDelaysMs: number[];
+  private readonly historyLimit: number;
+  private readonly bufferSize: number;
+  private readonly maxQueueLength: number;
+
+  constructor(
+    private readonly logger: CustomLogger,
+    options: InMemoryEventBusOptions = {},
+  ) {
+    this.logger.setContext(InMemoryDeliveryEventBus.name);
+    this.retryDelaysMs =
+      options.retryDelaysMs ??
+      parseRetryDelays(
+        process.env.RABBITMQ_RETRY_DELAYS_MS || '5000,30000,120000',
+      );
+    this.historyLimit = options.historyLimit ?? 1000;
+    this.bufferSize = options.bufferSize ?? 1000;
+    this.maxQueueLength = options.maxQueueLength ?? 1000;
+
+    // One work queue per event type, bound by the type itself
+    for (const type of Object.keys(EVENT_DEFINITIONS)) {
+      this.queues.set(type, {
+        bindings: [type],
+        messages: [],
+        deadLetters: [],
+        consumers: [],
+        nextConsumer: 0,
+      });
+    }
+  }
+
+  onModuleDestroy() {
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  getConnectionState(): EventBusState {
+    return {
+      status: this.isConnected ? 'connected' : 'disconnected',
+      blocked: false,
+      connectedSince: this.isConnected
+        ? this.connectedSince.toISOString()
+        : null,
+      lastError: null,
+      reconnectAttempts: 0,
+      bufferedMessages: this.buffer.length,
+      droppedMessages: this.droppedMessages,
+    };
+  }
+
+  async publishConfirmed(envelope: EventEnvelope): Promise<void> {
+    validateEnvelope(envelope);
+    if (!this.isConnected) {
+      throw new Error('Event bus not connected');
+    }
+    this.route(envelope);
+  }
+
+  publish(envelope: EventEnvelope): void {
+    validateEnvelope(envelope);
+    if (this.isConnected) {
+      this.route(envelope);
+    } else if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(envelope);
+    } else {
+      this.droppedMessages++;
+      this.logger.warn(
+        `Publish buffer full, dropped ${envelope.type} event ${envelope.eventId}`,
+      );
+    }
+  }
+
+  async consumeMessages(
+    queueName: DeliveryEventType,
+    handler: MessageHandler,
+  ): Promise<void> {
+    const queue = this.getQueue(queueName);
+    queue.consumers.push(handler);
+    this.logger.log(`Consuming ${queueName}`);
+    this.schedule(queueName);
+  }
+
+  getQueueNames(): string[] {
+    return [...this.queues.keys()];
+  }
+
+  getDeadLetterQueue(queueName: string): string {
+    return `${queueName}.dead`;
+  }
+
+  async listDeadLetters(): Promise<DeadLetterQueueSummary[]> {
+    return this.getQueueNames().map((queue) => ({
+      queue,
+      deadLetterQueue: this.getDeadLetterQueue(queue),
+      messageCount: this.getQueue(queue).deadLetters.length,
+    }));
+  }
+
+  async peekDeadLetters(
+    queueName: string,
+    limit: number,
+  ): Promise<DeadLetterMessage[]> {
+    return this.getQueue(queueName)
+      .deadLetters.slice(0, limit)
+      .map((message) => describeDeadLetter(message));
+  }
+
+  async replayDeadLetters(
+    queueName: string,
+    options: ReplayOptions,
+  ): Promise<string[]> {
+    const queue = this.getQueue(queueName);
+    const wanted = options.messageIds?.length
+      ? new Set(options.messageIds)
+      : null;
+    const limit = wanted?.size ?? options.limit;
+
+    const replayed = queue.deadLetters
+      .filter((message) => !wanted || wanted.has(message.messageId))
+      .slice(0, limit);
+    queue.deadLetters = queue.deadLetters.filter(
+      (message) => !replayed.includes(message),
+    );
+    for (const message of replayed) {
+      this.enqueue(queueName, {
+        ...message,
+        headers: buildReplayHeaders(message.headers),
+      });
+    }
+    return replayed.map((message) => message.messageId);
+  }
+
+  async purgeDeadLetters(queueName: string): Promise<number> {
+    const queue = this.getQueue(queueName);
+    const purged = queue.deadLetters.length;
+    queue.deadLetters = [];
+    return purged;
+  }
+
+  async removeDeadLetter(
+    queueName: string,
+    messageId: string,
+  ): Promise<boolean> {
+    const queue = this.getQueue(queueName);
+    const index = queue.deadLetters.findIndex(
+      (message) => message.messageId === messageId,
+    );
+    if (index === -1) {
+      return false;
+    }
+    queue.deadLetters.splice(index, 1);
+    return true;
+  }
+
+  // Test helpers
+
+  /** Every event published since the last reset, oldest first. */
+  get published(): EventEnvelope[] {
+    return [...this.history];
+  }
+
+  publishedOfType<T extends DeliveryEventType>(type: T): EventEnvelope<T>[] {
+    return this.history.filter(
+      (envelope): envelope is EventEnvelope<T> => envelope.type === type,
+    );
+  }
+
+  /** Returns the first matching published event or throws listing what was published. */
+  expectPublished<T extends DeliveryEventType>(
+    type: T,
+    predicate: (envelope: EventEnvelope<T>) => boolean = () => true,
+  ): EventEnvelope<T> {
+    const envelope = this.publishedOfType(type).find(predicate);
+    if (!envelope) {
+      const seen = this.history.map((event) => event.type).join(', ');
+      throw new Error(
+        `Expected a matching '${type}' event; published: ${seen || 'nothing'}`,
+      );
+    }
+    return envelope;
+  }
+
+  /** Resolves with a matching event, including one already published. */
+  waitForEvent<T extends DeliveryEventType>(
+    type: T,
+    predicate: (envelope: EventEnvelope<T>) => boolean = () => true,
+    timeoutMs = 2000,
+  ): Promise<EventEnvelope<T>> {
+    const existing = this.publishedOfType(type).find(predicate);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: EventWaiter = {
+        type,
+        predicate: predicate as (envelope: EventEnvelope) => boolean,
+        resolve: (envelope) => {
+          clearTimeout(timer);
+          resolve(envelope as EventEnvelope<T>);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(new Error(`No '${type}' event published within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Resolves once every consumed queue is empty and no retry is pending, so
+   * handlers, retries and dead-lettering have all run.
+   */
+  async drain(timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (
+      this.running.size ||
+      this.retryTimers.size ||
+      this.hasDeliverable()
+    ) {
+      if (Date.now() > deadline) {
+        throw new Error(`Event bus still busy after ${timeoutMs}ms`);
+      }
+      await Promise.all(this.running.values());
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+  }
+
+  /** Simulates a broker outage; publishes made meanwhile are sent on reconnect. */
+  setConnected(connected: boolean) {
+    this.isConnected = connected;
+    if (connected) {
+      this.connectedSince = new Date();
+      const buffered = this.buffer;
+      this.buffer = [];
+      buffered.forEach((envelope) => this.route(envelope));
+    }
+  }
+
+  /** Forgets published events, queued messages, dead letters and pending retries; consumers stay. */
+  reset() {
+    this.onModuleDestroy();
+    this.history.length = 0;
+    this.buffer = [];
+    this.droppedMessages = 0;
+    for (const queue of this.queues.values()) {
+      queue.messages = [];
+      queue.deadLetters = [];
+    }
+  }
+
+  private route(envelope: EventEnvelope) {
+    this.record(envelope);
+    const message: InMemoryMessage = {
+      messageId: envelope.eventId,
+      type: envelope.type,
+      headers: {
+        [RETRY_COUNT_HEADER]: 0,
+        'x-event-version': envelope.version,
+      },
+      content: Buffer.from(JSON.stringify(envelope)),
+    };
+
+    // Unroutable events are dropped, as on the topic exchange
+    for (const [name, queue] of this.queues) {
+      if (
+        queue.bindings.some((binding) => matchesTopic(binding, envelope.type))
+      ) {
+        this.enqueue(name, message);
+      }
+    }
+  }
+
+  private record(envelope: EventEnvelope) {
+    this.history.push(envelope);
+    if (this.history.length > this.historyLimit) {
+      this.history.shift();
+    }
+
+    for (const waiter of [...this.waiters]) {
+      if (waiter.type === envelope.type && waiter.predicate(envelope)) {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        waiter.resolve(envelope);
+      }
+    }
+  }
+
+  private enqueue(queueName: string, message: InMemoryMessage) {
+    const queue = this.getQueue(queueName);
+    queue.messages.push(message);
+    if (queue.messages.length > this.maxQueueLength) {
+      queue.messages.shift();
+    }
+    this.schedule(queueName);
+  }
+
+  // Delivers on a later tick, as a broker would, one message at a time
+  private schedule(queueName: string) {
+    setImmediate(() => {
+      if (
+        this.running.has(queueName) ||
+        !this.getQueue(queueName).consumers.length
+      ) {
+        return;
+      }
+
+      this.running.set(
+        queueName,
+        this.deliverAll(queueName).finally(() =>
+          this.running.delete(queueName),
+        ),
+      );
+    });
+  }
+
+  private async deliverAll(queueName: string): Promise<void> {
+    const queue = this.getQueue(queueName);
+    let message: InMemoryMessage | undefined;
+    while ((message = queue.messages.shift())) {
+      const handler =
+        queue.consumers[queue.nextConsumer++ % queue.consumers.length];
+      try {
+        let data: unknown;
+        try {
+          data = JSON.parse(message.content.toString());
+        } catch {
+          throw new EventValidationError('Message body is not valid JSON');
+        }
+        await handler(data);
+      } catch (error) {
+        this.handleFailedMessage(queueName, message, error);
+      }
+    }
+  }
+
+  private handleFailedMessage(
+    queueName: string,
+    message: InMemoryMessage,
+    error: Error,
+  ) {
+    const headers = buildFailureHeaders(message.headers, queueName, error);
+    const retryCount: number = headers[RETRY_COUNT_HEADER];
+    // A malformed event fails the same way every time
+    const retryable = !(error instanceof EventValidationError);
+
+    if (retryable && retryCount <= this.retryDelaysMs.length) {
+      const delayMs = this.retryDelaysMs[retryCount - 1];
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.enqueue(queueName, { ...message, headers });
+      }, delayMs);
+      timer.unref();
+      this.retryTimers.add(timer);
+      this.logger.warn(
+        `Message ${message.messageId} on ${queueName} failed (attempt ${retryCount}), retrying in ${delayMs}ms: ${error.message}`,
+      );
+      return;
+    }
+
+    const reason: DeadLetterReason = retryable
+      ? 'max_retries_exceeded'
+      : 'invalid_message';
+    this.getQueue(queueName).deadLetters.push({
+      ...message,
+      headers: { ...headers, [DEAD_LETTER_REASON_HEADER]: reason },
+    });
+    this.logger.error(
+      `Dead-lettered message ${message.messageId} from ${queueName} (${reason})`,
+      error.message,
+      'consumeMessages',
+    );
+  }
+
+  private hasDeliverable(): boolean {
+    return [...this.queues.values()].some(
+      (queue) => queue.consumers.length > 0 && queue.messages.length > 0,
+    );
+  }
+
+  private getQueue(queueName: string): InMemoryQueue {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Unknown queue '${queueName}'`);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,75 @@
+import { DeadLetterMessage } from './delivery-event-bus';
+
+// Headers stamped on failed messages by every DeliveryEventBus; the
+// dead-letter admin endpoints read them back
+export const RETRY_COUNT_HEADER = 'x-retry-count';
+export const LAST_ERROR_HEADER = 'x-last-error';
+export const FIRST_FAILED_AT_HEADER = 'x-first-failed-at';
+export const LAST_FAILED_AT_HEADER = 'x-last-failed-at';
+export const ORIGINAL_QUEUE_HEADER = 'x-original-queue';
+export const DEAD_LETTER_REASON_HEADER = 'x-dead-letter-reason';
+export const REPLAYED_AT_HEADER = 'x-replayed-at';
+
+export type DeadLetterReason = 'max_retries_exceeded' | 'invalid_message';
+
+type Headers = Record<string, any>;
+
+/** Headers for the next attempt of a message that failed with `error`. */
+export function buildFailureHeaders(
+  headers: Headers,
+  queueName: string,
+  error: Error,
+  now: Date = new Date(),
+): Headers {
+  const failedAt = now.toISOString();
+  return {
+    ...headers,
+    [RETRY_COUNT_HEADER]: Number(headers[RETRY_COUNT_HEADER] || 0) + 1,
+    [LAST_ERROR_HEADER]: String(error.message).slice(0, 1000),
+    [FIRST_FAILED_AT_HEADER]: headers[FIRST_FAILED_AT_HEADER] ?? failedAt,
+    [LAST_FAILED_AT_HEADER]: failedAt,
+    [ORIGINAL_QUEUE_HEADER]: queueName,
+  };
+}
+
+/** Headers for a dead letter sent back to its work queue. */
+export function buildReplayHeaders(
+  headers: Headers,
+  now: Date = new Date(),
+): Headers {
+  const replayed = { ...headers };
+  delete replayed[DEAD_LETTER_REASON_HEADER];
+  return {
+    ...replayed,
+    [RETRY_COUNT_HEADER]: 0,
+    [REPLAYED_AT_HEADER]: now.toISOString(),
+  };
+}
+
+export function describeDeadLetter(message: {
+  messageId?: string | null;
+  type?: string | null;
+  headers?: Headers;
+  content: Buffer;
+}): DeadLetterMessage {
+  const headers = message.headers ?? {};
+  let body: unknown;
+  try {
+    body = JSON.parse(message.content.toString());
+  } catch {
+    body = message.content.toString();
+  }
+
+  return {
+    messageId: message.messageId ?? null,
+    type: message.type ?? null,
+    reason: headers[DEAD_LETTER_REASON_HEADER] ?? null,
+    lastError: headers[LAST_ERROR_HEADER] ?? null,
+    retryCount: Number(headers[RETRY_COUNT_HEADER] ?? 0),
+    firstFailedAt: headers[FIRST_FAILED_AT_HEADER] ?? null,
+    lastFailedAt: headers[LAST_FAILED_AT_HEADER] ?? null,
+    replayedAt: headers[REPLAYED_AT_HEADER] ?? null,
+    headers,
+    body,
+  };
+}
@@ -0,0 +1,41 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { HealthReport, HealthService } from './health.service';
+import { Public } from '../auth/roles.decorator';
+
+@ApiTags('health')
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @ApiOperation({ summary: 'Liveness probe; checks no dependencies' })
+  @ApiResponse({ status: 200, description: 'The process is serving requests' })
+  @Public()
+  @Get('live')
+  live(): HealthReport {
+    return this.healthService.liveness();
+  }
+
+  @ApiOperation({
+    summary: 'Readiness probe: database, migrations, broker, outbox, sockets',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ready; `status` may be `degraded`',
+  })
+  @ApiResponse({ status: 503, description: 'A critical dependency is down' })
+  @Public()
+  @Get('ready')
+  async ready(
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<HealthReport> {
+    const report = await this.healthService.readiness();
+    res.status(
+      report.status === 'error'
+        ? HttpStatus.SERVICE_UNAVAILABLE
+        : HttpStatus.OK,
+    );
+    return report;
+  }
+}
@@ -0,0 +1,41 @@
+import { HealthCheck, summarizeChecks } from './health.service';
+
+const check = (
+  status: HealthCheck['status'],
+  critical = false,
+): HealthCheck => ({ status, critical });
+
+describe('summarizeChecks', () => {
+  it('is ok when every check is up', () => {
+    expect(
+      summarizeChecks({ database: check('up', true), sockets: check('up') }),
+    ).toBe('ok');
+  });
+
+  it('is degraded when a non-critical check is not up', () => {
+    expect(
+      summarizeChecks({
+        database: check('up', true),
+        broker: check('degraded'),
+      }),
+    ).toBe('degraded');
+    expect(
+      summarizeChecks({ database: check('up', true), outbox: check('down') }),
+    ).toBe('degraded');
+  });
+
+  it('is degraded when a critical check is only degraded', () => {
+    expect(summarizeChecks({ database: check('degraded', true) })).toBe(
+      'degraded',
+    );
+  });
+
+  it('is an error when any critical check is down', () => {
+    expect(
+      summarizeChecks({
+        database: check('down', true),
+        broker: check('up'),
+      }),
+    ).toBe('error');
+  });
+});
@@ -0,0 +1,219 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readdir } from 'fs/promises';
+import { join, parse } from 'path';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DeliveryEventBus } from '../events/delivery-event-bus';
+import { DispatchGateway } from '../websockets/dispatch.gateway';
+
+export type CheckStatus = 'up' | 'degraded' | 'down';
+export type HealthStatus = 'ok' | 'degraded' | 'error';
+
+export interface CheckResult {
+  status: CheckStatus;
+  error?: string;
+  [detail: string]: unknown;
+}
+
+export interface HealthCheck extends CheckResult {
+  critical: boolean; // a critical check that is down makes the instance not ready
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  uptimeSeconds: number;
+  checks?: Record<string, HealthCheck>;
+  [detail: string]: unknown;
+}
+
+// Resolves to the compiled migrations when running from dist
+const MIGRATIONS_DIRECTORY = join(__dirname, '..', 'migrations');
+
+/** Error when any critical check is down, degraded when anything else isn't up. */
+export function summarizeChecks(
+  checks: Record<string, HealthCheck>,
+): HealthStatus {
+  const results = Object.values(checks);
+  if (results.some((check) => check.critical && check.status === 'down')) {
+    return 'error';
+  }
+  return results.every((check) => check.status === 'up') ? 'ok' : 'degraded';
+}
+
+@Injectable()
+export class HealthService {
+  private readonly checkTimeoutMs: number;
+  private readonly outboxMaxAgeSeconds: number;
+  // Migrations don't un-apply at runtime, so a clean result is kept
+  private migrationsApplied = false;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly eventBus: DeliveryEventBus,
+    private readonly gateway: DispatchGateway,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(HealthService.name);
+    this.checkTimeoutMs = parseInt(
+      this.configService.get('HEALTH_CHECK_TIMEOUT_MS', '2000'),
+    );
+    this.outboxMaxAgeSeconds = parseInt(
+      this.configService.get('HEALTH_OUTBOX_MAX_AGE_SECONDS', '300'),
+    );
+  }
+
+  /** The process is up and serving requests; dependencies are not checked. */
+  liveness(): HealthReport {
+    const memory = process.memoryUsage();
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      pid: process.pid,
+      memory: {
+        rssMb: Math.round(memory.rss / 1024 / 1024),
+        heapUsedMb: Math.round(memory.heapUsed / 1024 / 1024),
+      },
+    };
+  }
+
+  async readiness(): Promise<HealthReport> {
+    const [database, migrations, outbox] = await Promise.all([
+      this.run('database', true, () => this.checkDatabase()),
+      this.run('migrations', true, () => this.checkMigrations()),
+      this.run('outbox', false, () => this.checkOutbox()),
+    ]);
+    const checks: Record<string, HealthCheck> = {
+      database,
+      migrations,
+      broker: this.checkBroker(),
+      outbox,
+      sockets: {
+        status: 'up',
+        critical: false,
+        ...this.gateway.getConnectionStats(),
+      },
+    };
+
+    const status = summarizeChecks(checks);
+    if (status !== 'ok') {
+      const failing = Object.entries(checks)
+        .filter(([, check]) => check.status !== 'up')
+        .map(([name, check]) => `${name}: ${check.error ?? check.status}`);
+      this.logger.warn(`Readiness ${status} (${failing.join('; ')})`);
+    }
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      checks,
+    };
+  }
+
+  private async checkDatabase(): Promise<CheckResult> {
+    const latencyMs = await this.db.ping();
+    return { status: 'up', latencyMs, pool: this.db.getPoolStats() };
+  }
+
+  private async checkMigrations(): Promise<CheckResult> {
+    const files = (await readdir(MIGRATIONS_DIRECTORY))
+      .filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+      .map((file) => parse(file).name);
+    if (this.migrationsApplied) {
+      return { status: 'up', applied: files.length, pending: [] };
+    }
+
+    const applied = new Set(
+      (await this.db.knex('knex_migrations').pluck<string[]>('name')).map(
+        (name) => parse(name).name,
+      ),
+    );
+    const pending = files.filter((name) => !applied.has(name)).sort();
+    this.migrationsApplied = pending.length === 0;
+
+    return {
+      status: pending.length ? 'down' : 'up',
+      applied: applied.size,
+      pending,
+      ...(pending.length && {
+        error: `${pending.length} pending migration(s)`,
+      }),
+    };
+  }
+
+  private checkBroker(): HealthCheck {
+    const { status: connection, ...state } = this.eventBus.getConnectionState();
+    // Order events wait in the outbox while the broker is away, so the
+    // instance can still take traffic
+    return {
+      status: connection === 'connected' && !state.blocked ? 'up' : 'degraded',
+      critical: false,
+      connection,
+      ...state,
+    };
+  }
+
+  private async checkOutbox(): Promise<CheckResult> {
+    const row = await this.db
+      .knex('outbox_events')
+      .select(
+        this.db.knex.raw(
+          `COUNT(*) FILTER (WHERE status = 'pending')::int AS pending`,
+        ),
+        this.db.knex.raw(
+          `COUNT(*) FILTER (WHERE status = 'failed')::int AS failed`,
+        ),
+        this.db.knex.raw(
+          `EXTRACT(EPOCH FROM NOW() - MIN(created_at) FILTER (WHERE status = 'pending'))::int AS oldest_pending_age_seconds`,
+        ),
+      )
+      .first();
+
+    const oldestPendingAgeSeconds: number | null =
+      row.oldest_pending_age_seconds;
+    const lagging =
+      oldestPendingAgeSeconds !== null &&
+      oldestPendingAgeSeconds > this.outboxMaxAgeSeconds;
+    return {
+      status: lagging ? 'degraded' : 'up',
+      pending: row.pending,
+      failed: row.failed,
+      oldestPendingAgeSeconds,
+      ...(lagging && {
+        error: `Oldest pending event is ${oldestPendingAgeSeconds}s old`,
+      }),
+    };
+  }
+
+  // Runs a check with a time limit; a failure is reported, not thrown
+  private async run(
+    name: string,
+    critical: boolean,
+    check: () => Promise<CheckResult>,
+  ): Promise<HealthCheck> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.checkTimeoutMs}ms`)),
+        this.checkTimeoutMs,
+      );
+    });
+
+    try {
+      return { ...(await Promise.race([check(), timeout])), critical };
+    } catch (error) {
+      this.logger.debug(`Health check ${name} failed: ${error.message}`);
+      return {
+        status: critical ? 'down' : 'degraded',
+        critical,
+        error: error.message,
+      };
+    } finally {
+      clearTimeout(timer!);
+    }
+  }
+}
@@ -1,26 +1,69 @@
-import { Order } from '../models/order.model';
+// Payloads carried inside the event envelope (see src/events). Changing a
+// field means a new version in src/events/event-schemas.ts.
 
 export interface RiderLocationPayload {
   riderId: number;
   latitude: number;
   longitude: number;
-  timestamp: string;
 }
 
 export interface OrderCreatedPayload {
-  order: Order;
-  timestamp: string;
+  orderId: number;
+  orderCode: string | null;
+  userId: string;
+  orderTypeId: number | null;
+  status: string;
+  zoneId: number | null;
+  cokitchenId: string | null;
+  deliveryLatitude: number | null;
+  deliveryLongitude: number | null;
+  totalAmount: number | null;
+  scheduled: boolean;
+  createdAt: string;
 }
 
 export interface OrderUpdatedPayload {
-  order: Order;
-  previousStatus?: string;
-  newStatus: string;
-  timestamp: string;
+  orderId: number;
+  previousStatus: string | null;
+  status: string;
+  riderId: number | null;
+  description: string | null;
+  actor: {
+    type: string;
+    id: string | null;
+  };
 }
 
 export interface OrderAssignedPayload {
-  order: Order;
+  orderId: number;
   riderId: number;
-  timestamp: string;
+  status: string;
+  deliveryLatitude: number | null;
+  deliveryLongitude: number | null;
 }
+
+export interface OrderCancelledPayload {
+  orderId: number;
+  previousStatus: string;
+  category: string;
+  reasonCode: string;
+  note: string | null;
+  riderId: number | null;
+  fee: number;
+  actor: {
+    type: string;
+    id: string | null;
+  };
+  cancelledAt: string;
+}
+
+// Payload of each delivery event, keyed by event type (also its queue name)
+export interface DeliveryEventPayloads {
+  'order.created': OrderCreatedPayload;
+  'order.updated': OrderUpdatedPayload;
+  'order.assigned': OrderAssignedPayload;
+  'order.cancelled': OrderCancelledPayload;
+  'rider.location': RiderLocationPayload;
+}
+
+export type DeliveryEventType = keyof DeliveryEventPayloads;
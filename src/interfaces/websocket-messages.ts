@@ -1,5 +1,3 @@
-import { Order } from '../models/order.model';
-
 export interface RiderLocationUpdateMessage {
   riderId: number;
   latitude: number;
@@ -11,6 +9,60 @@ export interface OrderAssignmentMessage {
   riderId: number;
 }
 
+export interface RiderAssignmentNoticeMessage extends OrderAssignmentMessage {
+  status: string;
+  deliveryLatitude: number | null;
+  deliveryLongitude: number | null;
+  assignedAt: string;
+  // Shown to the kitchen at collection; null if the order was reassigned since
+  pickupCode: string | null;
+}
+
+export interface OrderCancelledMessage {
+  orderId: number;
+  riderId: number | null;
+  category: string;
+  reasonCode: string;
+  note: string | null;
+  cancelledAt: string;
+}
+
+export interface FailedTripMessage {
+  orderId: number;
+  riderId: number;
+  failedTripId: number;
+  reason: string;
+  note: string | null;
+  photoRef: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  reportedAt: string;
+  // Set once ops have decided: return_to_kitchen, reattempt or reassign
+  resolution: string | null;
+  resolutionNote: string | null;
+}
+
+// Sent to the `kitchen:<cokitchenId>` room; never carries the pickup code
+export interface KitchenOrderMessage {
+  orderId: number;
+  orderCode: string | null;
+  status: string;
+  kitchenPrepared: boolean;
+  boxNumber: string | null;
+  shelfId: string | null;
+  riderId: number | null;
+  scheduled: boolean;
+  updatedAt: string;
+}
+
+export interface KitchenOrderCancelledMessage {
+  orderId: number;
+  category: string;
+  reasonCode: string;
+  note: string | null;
+  cancelledAt: string;
+}
+
 export interface OrderActionMessage {
   orderId: number;
   riderId: number;
@@ -39,6 +91,53 @@ export interface OrderForBroadcast {
   distance?: number;
 }
 
+export interface OrderOfferDetails {
+  id: number;
+  expires_at: string;
+}
+
 export interface NewOrderMessage {
   order: OrderForBroadcast;
+  offer?: OrderOfferDetails;
+}
+
+export interface OfferRevokedMessage {
+  orderId: number;
+  reason: string;
+}
+
+export interface DispatchFailedMessage {
+  orderId: number;
+  rounds: number;
+}
+
+export interface OrderStatusMessage {
+  orderId: number;
+  status: string;
+  previousStatus: string | null;
+  riderId: number | null;
+  updatedAt: string;
+}
+
+export interface RiderPositionMessage {
+  orderId: number;
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+export interface OrderEtaMessage {
+  orderId: number;
+  distanceKm: number; // estimated road distance to the drop-off
+  etaSeconds: number;
+  estimatedArrival: string;
+}
+
+export interface OrderTrackingSnapshot {
+  orderId: number;
+  status: string | null;
+  riderId: number | null;
+  riderName: string | null;
+  position: RiderPositionMessage | null;
+  eta: OrderEtaMessage | null;
 }
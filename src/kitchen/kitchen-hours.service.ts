@@ -0,0 +1,70 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Knex } from 'knex';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { KitchenHours } from '../models/kitchen-hours.model';
+import { OpeningHoursDto } from '../dto/kitchen.dto';
+
+@Injectable()
+export class KitchenHoursService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(KitchenHoursService.name);
+  }
+
+  async getHours(
+    cokitchenId: string,
+    trx?: Knex.Transaction,
+  ): Promise<KitchenHours[]> {
+    return (trx ?? this.db.knex)('kitchen_hours')
+      .where('cokitchen_id', cokitchenId)
+      .orderBy('day_of_week', 'asc');
+  }
+
+  /** Replaces the kitchen's weekly hours with the given intervals. */
+  async setHours(
+    cokitchenId: string,
+    hours: OpeningHoursDto[],
+  ): Promise<KitchenHours[]> {
+    const days = new Set(hours.map((row) => row.dayOfWeek));
+    if (days.size !== hours.length) {
+      throw new BadRequestException('Each day may only have one interval');
+    }
+    const backwards = hours.find((row) => row.opensAt >= row.closesAt);
+    if (backwards) {
+      throw new BadRequestException(
+        `Day ${backwards.dayOfWeek} closes before it opens`,
+      );
+    }
+
+    try {
+      return await this.db.knex.transaction(async (trx) => {
+        await trx('kitchen_hours').where('cokitchen_id', cokitchenId).delete();
+        if (hours.length) {
+          await trx('kitchen_hours').insert(
+            hours.map((row) => ({
+              cokitchen_id: cokitchenId,
+              day_of_week: row.dayOfWeek,
+              opens_at: row.opensAt,
+              closes_at: row.closesAt,
+            })),
+          );
+        }
+
+        this.logger.log(
+          `Set opening hours of kitchen ${cokitchenId} for ${hours.length} days`,
+        );
+        return this.getHours(cokitchenId, trx);
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to set opening hours of kitchen ${cokitchenId}`,
+        error.stack,
+        'setHours',
+      );
+      throw error;
+    }
+  }
+}
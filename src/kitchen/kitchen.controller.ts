@@ -0,0 +1,223 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { OrdersService } from '../orders/orders.service';
+import { OrderTrackingService } from '../orders/order-tracking.service';
+import { withoutPickupCode } from '../orders/pickup-code';
+import { UsersService } from '../users/users.service';
+import { DispatchGateway } from '../websockets/dispatch.gateway';
+import { Order } from '../models/order.model';
+import { OrderStatus } from '../dto/order.dto';
+import {
+  KitchenHandoffDto,
+  KitchenPlacementDto,
+  SetKitchenHoursDto,
+} from '../dto/kitchen.dto';
+import { KitchenHoursService } from './kitchen-hours.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+
+const QUEUE_STATUSES = [OrderStatus.PENDING, OrderStatus.ACCEPTED];
+
+@ApiTags('kitchen')
+@ApiBearerAuth()
+@Roles(Role.KITCHEN)
+@Controller('kitchen')
+export class KitchenController {
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderTracking: OrderTrackingService,
+    private readonly usersService: UsersService,
+    private readonly dispatchGateway: DispatchGateway,
+    private readonly kitchenHours: KitchenHoursService,
+  ) {}
+
+  @Get('orders')
+  @Roles(Role.KITCHEN, Role.DISPATCHER)
+  @ApiOperation({
+    summary: "A kitchen's pending and accepted orders, oldest first",
+  })
+  @ApiQuery({
+    name: 'cokitchenId',
+    type: String,
+    required: false,
+    description:
+      'Required for dispatchers and admins; kitchen staff always see their own kitchen',
+  })
+  @ApiQuery({ name: 'status', enum: QUEUE_STATUSES, required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Orders in the kitchen, without pickup codes',
+  })
+  async getQueue(
+    @Request() req,
+    @Query('cokitchenId') cokitchenId?: string,
+    @Query('status') status?: OrderStatus,
+  ) {
+    if (status && !QUEUE_STATUSES.includes(status)) {
+      throw new BadRequestException(
+        `status must be one of: ${QUEUE_STATUSES.join(', ')}`,
+      );
+    }
+
+    const kitchen = (await this.getKitchenScope(req)) ?? cokitchenId;
+    if (!kitchen) {
+      throw new BadRequestException('cokitchenId is required');
+    }
+    return this.ordersService.getKitchenQueue(kitchen, status);
+  }
+
+  @Post('orders/:id/accept')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Accept a pending order' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'The accepted order' })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
+  @ApiResponse({ status: 409, description: 'Order is no longer pending' })
+  async acceptOrder(@Request() req, @Param('id') id: number) {
+    const order = await this.ordersService.acceptKitchenOrder(
+      id,
+      this.getActor(req),
+      await this.getKitchenScope(req),
+    );
+
+    this.orderTracking.publishStatus(order);
+    return this.publish(order);
+  }
+
+  @Post('orders/:id/prepared')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Mark an accepted order as prepared' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'The prepared order' })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order is not in the kitchen or is already prepared',
+  })
+  async markPrepared(@Request() req, @Param('id') id: number) {
+    const order = await this.ordersService.markKitchenOrderPrepared(
+      id,
+      this.getActor(req),
+      await this.getKitchenScope(req),
+    );
+    return this.publish(order);
+  }
+
+  @Put('orders/:id/placement')
+  @ApiOperation({
+    summary: 'Set the box an order is packed in and the shelf it waits on',
+  })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'The updated order' })
+  @ApiResponse({
+    status: 400,
+    description: 'Neither boxNumber nor shelfId given',
+  })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
+  @ApiResponse({ status: 409, description: 'Order is not in the kitchen' })
+  async setPlacement(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: KitchenPlacementDto,
+  ) {
+    const order = await this.ordersService.setKitchenOrderPlacement(
+      id,
+      data,
+      this.getActor(req),
+      await this.getKitchenScope(req),
+    );
+    return this.publish(order);
+  }
+
+  @Post('orders/:id/handoff')
+  @HttpCode(200)
+  @ApiOperation({
+    summary:
+      "Hand a prepared order to its rider after checking the rider's pickup code",
+  })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'The order, now `picked_up`' })
+  @ApiResponse({ status: 400, description: 'Pickup code does not match' })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order is not prepared, has no rider or has left the kitchen',
+  })
+  async handOff(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: KitchenHandoffDto,
+  ) {
+    const order = await this.ordersService.handOffKitchenOrder(
+      id,
+      data.pickupCode,
+      this.getActor(req),
+      await this.getKitchenScope(req),
+    );
+
+    this.orderTracking.publishStatus(order);
+    return this.publish(order);
+  }
+
+  @Get(':cokitchenId/hours')
+  @Roles(Role.KITCHEN, Role.DISPATCHER, Role.CUSTOMER_SERVICE)
+  @ApiOperation({ summary: "A kitchen's weekly opening hours" })
+  @ApiParam({ name: 'cokitchenId', required: true })
+  @ApiResponse({
+    status: 200,
+    description:
+      'One interval per open weekday (0 = Sunday), in KITCHEN_TIMEZONE; empty when hours are not enforced',
+  })
+  async getHours(@Param('cokitchenId') cokitchenId: string) {
+    return this.kitchenHours.getHours(cokitchenId);
+  }
+
+  @Put(':cokitchenId/hours')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: "Replace a kitchen's weekly opening hours",
+  })
+  @ApiParam({ name: 'cokitchenId', required: true })
+  @ApiResponse({ status: 200, description: 'The saved opening hours' })
+  @ApiResponse({
+    status: 400,
+    description: 'Duplicate day or a day that closes before it opens',
+  })
+  async setHours(
+    @Param('cokitchenId') cokitchenId: string,
+    @Body() data: SetKitchenHoursDto,
+  ) {
+    return this.kitchenHours.setHours(cokitchenId, data.hours);
+  }
+
+  private getActor(req) {
+    return { type: req.user.role, id: req.user.userId };
+  }
+
+  private getKitchenScope(req): Promise<string | null> {
+    return this.usersService.getKitchenScope(req.user);
+  }
+
+  private publish(order: Order) {
+    this.dispatchGateway.notifyKitchenOrderUpdated(order);
+    return withoutPickupCode(order);
+  }
+}
@@ -1,7 +1,10 @@
-import { HttpAdapterHost, NestFactory } from '@nestjs/core';
+import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { AllExceptionsFilter } from './common/filters/http-exception.filter';
 import { CustomLogger } from './common/logger/logger.service';
+import { correlationMiddleware } from './common/context/correlation.context';
+import { MetricsService } from './metrics/metrics.service';
+import { httpMetricsMiddleware } from './metrics/http-metrics.middleware';
 import { NestExpressApplication } from '@nestjs/platform-express';
 import { IoAdapter } from '@nestjs/platform-socket.io';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
@@ -10,22 +13,28 @@ import { AppModule } from './app.module';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  
+
   try {
     // Create the application instance with specific platform
     const app = await NestFactory.create<NestExpressApplication>(AppModule, {
       logger: new CustomLogger(),
-      cors: true
+      cors: true,
     });
 
     // Security middleware
     app.use(compression());
 
+    // Correlation ID for everything a request triggers, including published events
+    app.use(correlationMiddleware);
+
+    // Request latency per route for /metrics
+    app.use(httpMetricsMiddleware(app.get(MetricsService)));
+
     // Global exception filter
     app.useGlobalFilters(new AllExceptionsFilter());
 
-    // Set global prefix for all routes
-    app.setGlobalPrefix('api');
+    // Set global prefix for all routes; Prometheus scrapes /metrics at the root
+    app.setGlobalPrefix('api', { exclude: ['metrics'] });
 
     // Configure Swagger documentation
     const config = new DocumentBuilder()
@@ -40,30 +49,32 @@ async function bootstrap() {
       .build();
 
     const document = SwaggerModule.createDocument(app, config);
-    SwaggerModule.setup('api/docs', app, document, {
-    });
+    SwaggerModule.setup('api/docs', app, document, {});
 
     // Configure Socket.IO adapter with CORS
     app.useWebSocketAdapter(new IoAdapter(app));
 
     // Validation pipe configuration
-    app.useGlobalPipes(new ValidationPipe({
-      whitelist: true,
-      forbidNonWhitelisted: true,
-      transform: true,
-      transformOptions: {
-        enableImplicitConversion: true
-      },
-      disableErrorMessages: process.env.NODE_ENV === 'production'
-    }));
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: {
+          enableImplicitConversion: true,
+        },
+        disableErrorMessages: process.env.NODE_ENV === 'production',
+      }),
+    );
 
     // CORS configuration
     app.enableCors({
       origin: process.env.FRONTEND_URL || 'http://localhost:3000',
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-Id'],
+      exposedHeaders: ['X-Correlation-Id'],
       credentials: true,
-      maxAge: 3600
+      maxAge: 3600,
     });
 
     // Trust proxy if behind reverse proxy
@@ -78,20 +89,20 @@ async function bootstrap() {
     // Start listening
     const port = process.env.PORT || 3001;
     const host = process.env.HOST || '0.0.0.0';
-    
+
     await app.listen(port, host);
-    
+
     logger.log(`🚀 Application is running on: http://localhost:${port}`);
     logger.log(`🚀 find documentation at: http://localhost:${port}/api/docs`);
     logger.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
     logger.log(`Database: ${process.env.DB_HOST || 'localhost'}`);
-    
+
     // // Graceful shutdown
     // const signals = ['SIGTERM', 'SIGINT'];
     // signals.forEach(signal => {
     //   process.on(signal, async () => {
     //     logger.warn(`Received ${signal}, starting graceful shutdown...`);
-        
+
     //     try {
     //       await app.close();
     //       logger.log('Application shut down successfully');
@@ -102,7 +113,6 @@ async function bootstrap() {
     //     }
     //   });
     // });
-
   } catch (error) {
     logger.error('Error during application bootstrap:', error);
     process.exit(1);
@@ -110,21 +120,17 @@ async function bootstrap() {
 }
 
 // Handle unhandled promise rejections
-process.on('unhandledRejection', (reason, promise) => {
+process.on('unhandledRejection', (reason) => {
   Logger.error(
     'Unhandled Promise Rejection',
     reason instanceof Error ? reason.stack : reason,
-    'Unhandled Promise'
+    'Unhandled Promise',
   );
 });
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
-  Logger.error(
-    'Uncaught Exception',
-    error.stack,
-    'Uncaught Exception'
-  );
+  Logger.error('Uncaught Exception', error.stack, 'Uncaught Exception');
   process.exit(1);
 });
 
@@ -0,0 +1,25 @@
+import { MetricsService } from './metrics.service';
+
+/**
+ * Express middleware timing every request, labelled with the matched route
+ * template (e.g. /api/orders/:id) rather than the raw path so IDs don't
+ * multiply the series. Registered ahead of the guards, so rejected requests
+ * are timed too.
+ */
+export function httpMetricsMiddleware(metrics: MetricsService) {
+  return (req: any, res: any, next: () => void) => {
+    const started = process.hrtime.bigint();
+    res.on('finish', () => {
+      const route = req.route?.path
+        ? `${req.baseUrl ?? ''}${req.route.path}`
+        : 'unmatched';
+      metrics.recordHttpRequest(
+        req.method,
+        route,
+        res.statusCode,
+        Number(process.hrtime.bigint() - started) / 1e9,
+      );
+    });
+    next();
+  };
+}
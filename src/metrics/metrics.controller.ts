@@ -0,0 +1,22 @@
+import { Controller, Get, Header, Res } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { MetricsService } from './metrics.service';
+import { Public } from '../auth/roles.decorator';
+
+// Served outside the /api prefix at /metrics, where Prometheus expects it
+@ApiTags('metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @ApiOperation({ summary: 'Prometheus metrics in the text exposition format' })
+  @ApiResponse({ status: 200, description: 'Current metric values' })
+  @Public()
+  @Get()
+  @Header('Cache-Control', 'no-store')
+  async scrape(@Res({ passthrough: true }) res: Response): Promise<string> {
+    res.type(this.metricsService.contentType);
+    return this.metricsService.metrics();
+  }
+}
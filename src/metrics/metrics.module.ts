@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+
+// Imported wherever metrics are recorded, so every module shares one registry
+@Module({
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
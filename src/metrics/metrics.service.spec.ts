@@ -0,0 +1,94 @@
+import { EventEmitter } from 'events';
+import { Knex } from 'knex';
+import { MetricsService } from './metrics.service';
+
+const valueOf = async (
+  metrics: MetricsService,
+  name: string,
+  labels: Record<string, string>,
+) => {
+  const metric = await metrics.registry.getSingleMetric(name)!.get();
+  return metric.values.find((value) =>
+    Object.entries(labels).every(([key, label]) => value.labels[key] === label),
+  )?.value;
+};
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('sums pool usage over every instrumented database', async () => {
+    const pool = (used: number) => () => ({
+      used,
+      free: 1,
+      pending: 0,
+      max: 10,
+    });
+    metrics.instrumentDatabase(new EventEmitter() as unknown as Knex, pool(2));
+    metrics.instrumentDatabase(new EventEmitter() as unknown as Knex, pool(3));
+
+    expect(
+      await valueOf(metrics, 'db_pool_connections', { state: 'used' }),
+    ).toBe(5);
+    expect(
+      await valueOf(metrics, 'db_pool_connections', { state: 'max' }),
+    ).toBe(20);
+  });
+
+  it('times queries from start to response or error', async () => {
+    const knex = new EventEmitter();
+    metrics.instrumentDatabase(knex as unknown as Knex, () => ({
+      used: 0,
+      free: 0,
+      pending: 0,
+      max: 0,
+    }));
+
+    knex.emit('query', { __knexQueryUid: 'a', method: 'select' });
+    knex.emit('query', { __knexQueryUid: 'b', method: 'insert' });
+    knex.emit('query-response', [], { __knexQueryUid: 'a' });
+    knex.emit('query-error', new Error('boom'), { __knexQueryUid: 'b' });
+    // A response for a query that was never started is ignored
+    knex.emit('query-response', [], { __knexQueryUid: 'c' });
+
+    const count = (labels: Record<string, string>) =>
+      valueOf(metrics, 'db_query_duration_seconds', {
+        ...labels,
+        le: '+Inf',
+      });
+    expect(await count({ method: 'select', outcome: 'ok' })).toBe(1);
+    expect(await count({ method: 'insert', outcome: 'error' })).toBe(1);
+  });
+
+  it('reports zero connected clients until the gateway registers', async () => {
+    expect(
+      await valueOf(metrics, 'socket_connected_clients', { role: 'rider' }),
+    ).toBe(0);
+
+    metrics.trackSocketConnections(() => ({
+      riders: 4,
+      staff: 2,
+      customers: 7,
+    }));
+    expect(
+      await valueOf(metrics, 'socket_connected_clients', {
+        role: 'dispatcher',
+      }),
+    ).toBe(2);
+  });
+
+  it('serves every metric in the exposition format', async () => {
+    metrics.recordOrderCreated(null);
+    metrics.recordOfferResponse('accepted');
+
+    const body = await metrics.metrics();
+    expect(body).toContain('orders_created_total{order_type="unknown"} 1');
+    expect(body).toContain(
+      'dispatch_offer_responses_total{response="accepted"} 1',
+    );
+    expect(metrics.contentType).toContain('text/plain');
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+
+export interface PoolStats {
+  used: number;
+  free: number;
+  pending: number;
+  max: number;
+}
+
+export interface SocketConnectionStats {
+  riders: number;
+  staff: number;
+  customers: number;
+}
+
+export type OfferResponse = 'accepted' | 'rejected';
+
+// Set on every knex query event so responses can be matched to their query
+interface KnexQueryEvent {
+  __knexQueryUid?: string;
+  method?: string;
+}
+
+/**
+ * Owns the Prometheus registry served at /metrics. Components push their
+ * counters and histograms in through the record* methods; gauges for state
+ * held elsewhere (pools, sockets) read it at scrape time through the sources
+ * registered with them, so this service depends on nothing else.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly poolSources: (() => PoolStats)[] = [];
+  private socketSource?: () => SocketConnectionStats;
+
+  private readonly ordersCreated = new Counter({
+    name: 'orders_created_total',
+    help: 'Orders created, by order type',
+    labelNames: ['order_type'],
+    registers: [this.registry],
+  });
+
+  private readonly ordersCancelled = new Counter({
+    name: 'orders_cancelled_total',
+    help: 'Orders cancelled, by cancellation category',
+    labelNames: ['category'],
+    registers: [this.registry],
+  });
+
+  private readonly timeToAssign = new Histogram({
+    name: 'order_time_to_assign_seconds',
+    help: 'Time from order creation to rider assignment',
+    buckets: [15, 30, 60, 120, 300, 600, 1200, 1800, 3600],
+    registers: [this.registry],
+  });
+
+  private readonly timeToDeliver = new Histogram({
+    name: 'order_time_to_deliver_seconds',
+    help: 'Time from order creation to delivery',
+    buckets: [600, 900, 1200, 1800, 2700, 3600, 5400, 7200],
+    registers: [this.registry],
+  });
+
+  private readonly offerResponses = new Counter({
+    name: 'dispatch_offer_responses_total',
+    help: 'Offer responses handled for riders over the socket',
+    labelNames: ['response'],
+    registers: [this.registry],
+  });
+
+  private readonly publishFailures = new Counter({
+    name: 'event_bus_publish_failures_total',
+    help: 'Events that could not be published, by reason',
+    labelNames: ['event_type', 'reason'],
+    registers: [this.registry],
+  });
+
+  private readonly retries = new Counter({
+    name: 'event_bus_retries_total',
+    help: 'Failed deliveries moved to a retry tier',
+    labelNames: ['queue'],
+    registers: [this.registry],
+  });
+
+  private readonly deadLettered = new Counter({
+    name: 'event_bus_dead_lettered_total',
+    help: 'Failed deliveries moved to the dead letter queue',
+    labelNames: ['queue', 'reason'],
+    registers: [this.registry],
+  });
+
+  private readonly queryDuration = new Histogram({
+    name: 'db_query_duration_seconds',
+    help: 'Database query duration, by query method',
+    labelNames: ['method', 'outcome'],
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+
+  private readonly httpDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency, by route template',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+
+    const poolSources = this.poolSources;
+    new Gauge({
+      name: 'db_pool_connections',
+      help: 'Knex pool connections by state, summed over every pool',
+      labelNames: ['state'],
+      registers: [this.registry],
+      collect() {
+        const totals = { used: 0, free: 0, pending: 0, max: 0 };
+        for (const source of poolSources) {
+          const stats = source();
+          for (const state of Object.keys(totals)) {
+            totals[state] += stats[state];
+          }
+        }
+        for (const [state, value] of Object.entries(totals)) {
+          this.set({ state }, value);
+        }
+      },
+    });
+
+    const getSocketStats = () => this.socketSource?.();
+    new Gauge({
+      name: 'socket_connected_clients',
+      help: 'Authenticated /dispatch socket connections, by role',
+      labelNames: ['role'],
+      registers: [this.registry],
+      collect() {
+        const stats = getSocketStats();
+        this.set({ role: 'rider' }, stats?.riders ?? 0);
+        this.set({ role: 'dispatcher' }, stats?.staff ?? 0);
+        this.set({ role: 'customer' }, stats?.customers ?? 0);
+      },
+    });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  metrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /** Reports pool usage and times every query run through the instance. */
+  instrumentDatabase(knex: Knex, getPoolStats: () => PoolStats) {
+    this.poolSources.push(getPoolStats);
+
+    const started = new Map<string, { method: string; at: bigint }>();
+    const finish = (query: KnexQueryEvent, outcome: 'ok' | 'error') => {
+      const uid = query.__knexQueryUid;
+      const start = uid ? started.get(uid) : undefined;
+      if (!uid || !start) {
+        return;
+      }
+      started.delete(uid);
+      const seconds = Number(process.hrtime.bigint() - start.at) / 1e9;
+      this.queryDuration.observe({ method: start.method, outcome }, seconds);
+    };
+
+    knex.on('query', (query: KnexQueryEvent) => {
+      if (query.__knexQueryUid) {
+        started.set(query.__knexQueryUid, {
+          method: query.method ?? 'raw',
+          at: process.hrtime.bigint(),
+        });
+      }
+    });
+    knex.on('query-response', (_response, query: KnexQueryEvent) =>
+      finish(query, 'ok'),
+    );
+    knex.on('query-error', (_error, query: KnexQueryEvent) =>
+      finish(query, 'error'),
+    );
+  }
+
+  trackSocketConnections(getStats: () => SocketConnectionStats) {
+    this.socketSource = getStats;
+  }
+
+  recordOrderCreated(orderType: string | null | undefined) {
+    this.ordersCreated.inc({ order_type: orderType ?? 'unknown' });
+  }
+
+  recordOrderCancelled(category: string) {
+    this.ordersCancelled.inc({ category });
+  }
+
+  recordOrderAssigned(createdAt: Date, assignedAt: Date = new Date()) {
+    this.timeToAssign.observe(secondsBetween(createdAt, assignedAt));
+  }
+
+  recordOrderDelivered(createdAt: Date, deliveredAt: Date) {
+    this.timeToDeliver.observe(secondsBetween(createdAt, deliveredAt));
+  }
+
+  recordOfferResponse(response: OfferResponse) {
+    this.offerResponses.inc({ response });
+  }
+
+  recordPublishFailure(eventType: string, reason: 'buffer_full' | 'error') {
+    this.publishFailures.inc({ event_type: eventType, reason });
+  }
+
+  recordRetry(queue: string) {
+    this.retries.inc({ queue });
+  }
+
+  recordDeadLetter(queue: string, reason: string) {
+    this.deadLettered.inc({ queue, reason });
+  }
+
+  recordHttpRequest(
+    method: string,
+    route: string,
+    status: number,
+    seconds: number,
+  ) {
+    this.httpDuration.observe({ method, route, status }, seconds);
+  }
+}
+
+const secondsBetween = (from: Date, to: Date) =>
+  Math.max(0, (to.getTime() - from.getTime()) / 1000);
@@ -0,0 +1,19 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('order_status_transitions', (table) => {
+    table.increments('id').primary();
+    table.integer('order_id').notNullable().references('id').inTable('orders');
+    table.string('from_status').nullable();
+    table.string('to_status').notNullable();
+    table.string('actor_type').notNullable().defaultTo('system');
+    table.string('actor_id').nullable();
+    table.text('reason').nullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.index(['order_id', 'created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('order_status_transitions');
+}
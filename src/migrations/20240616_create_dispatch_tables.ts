@@ -0,0 +1,41 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('dispatch_rounds', (table) => {
+    table.increments('id').primary();
+    table.integer('order_id').notNullable().references('id').inTable('orders');
+    table.integer('round').notNullable();
+    table.decimal('radius_km', 6, 2).notNullable();
+    table.integer('offers_made').notNullable().defaultTo(0);
+    // assigned | exhausted | no_candidates | cancelled
+    table.string('outcome').nullable();
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('finished_at').nullable();
+    table.unique(['order_id', 'round']);
+  });
+
+  await knex.schema.createTable('dispatch_offers', (table) => {
+    table.increments('id').primary();
+    table.integer('order_id').notNullable().references('id').inTable('orders');
+    table
+      .integer('round_id')
+      .notNullable()
+      .references('id')
+      .inTable('dispatch_rounds');
+    table.integer('rider_id').notNullable().references('id').inTable('riders');
+    table.decimal('distance_km', 8, 3).nullable();
+    // pending | accepted | rejected | expired | undeliverable | cancelled
+    table.string('status').notNullable().defaultTo('pending');
+    table.text('reason').nullable();
+    table.timestamp('offered_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('responded_at').nullable();
+    table.index(['order_id', 'status']);
+    table.index(['rider_id', 'status']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('dispatch_offers');
+  await knex.schema.dropTableIfExists('dispatch_rounds');
+}
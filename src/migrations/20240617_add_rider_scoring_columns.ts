@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('riders', (table) => {
+    table.decimal('rating', 3, 2).nullable();
+    table.timestamp('last_assigned_at').nullable();
+  });
+
+  await knex.schema.alterTable('order_types', (table) => {
+    table.string('scoring_strategy').notNullable().defaultTo('nearest');
+    table.jsonb('scoring_weights').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('order_types', (table) => {
+    table.dropColumn('scoring_weights');
+    table.dropColumn('scoring_strategy');
+  });
+
+  await knex.schema.alterTable('riders', (table) => {
+    table.dropColumn('last_assigned_at');
+    table.dropColumn('rating');
+  });
+}
@@ -0,0 +1,42 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const { rows } = await knex.raw(
+    `SELECT 1 FROM pg_available_extensions WHERE name = 'postgis'`,
+  );
+  if (!rows.length) {
+    console.warn(
+      'PostGIS is not available on this server; riders.location was not created and proximity queries will use the haversine fallback',
+    );
+    return;
+  }
+
+  // CREATE EXTENSION needs elevated privileges; keep the migration going without it
+  await knex.raw('SAVEPOINT enable_postgis');
+  try {
+    await knex.raw('CREATE EXTENSION IF NOT EXISTS postgis');
+  } catch (error) {
+    await knex.raw('ROLLBACK TO SAVEPOINT enable_postgis');
+    console.warn(
+      `Could not enable PostGIS (${error.message}); skipping riders.location`,
+    );
+    return;
+  }
+
+  await knex.raw(
+    'ALTER TABLE riders ADD COLUMN IF NOT EXISTS location geography(POINT, 4326)',
+  );
+  await knex.raw(`
+    UPDATE riders
+    SET location = ST_SetSRID(ST_MakePoint(current_longitude, current_latitude), 4326)::geography
+    WHERE current_latitude IS NOT NULL AND current_longitude IS NOT NULL
+  `);
+  await knex.raw(
+    'CREATE INDEX IF NOT EXISTS riders_location_idx ON riders USING GIST (location)',
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS riders_location_idx');
+  await knex.raw('ALTER TABLE riders DROP COLUMN IF EXISTS location');
+}
@@ -0,0 +1,34 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('delivery_zones', (table) => {
+    table.increments('id').primary();
+    table.string('name').notNullable();
+    table.string('cokitchen_id').notNullable();
+    table.jsonb('polygon').notNullable(); // GeoJSON Polygon, [lng, lat] positions
+    // Bounding box used to prefilter point-in-polygon checks
+    table.decimal('min_lat', 10, 8).notNullable();
+    table.decimal('max_lat', 10, 8).notNullable();
+    table.decimal('min_lng', 11, 8).notNullable();
+    table.decimal('max_lng', 11, 8).notNullable();
+    table.boolean('is_active').defaultTo(true);
+    table.timestamps(true, true);
+    table.index(['cokitchen_id']);
+  });
+
+  await knex.schema.alterTable('riders', (table) => {
+    table
+      .integer('home_zone_id')
+      .nullable()
+      .references('id')
+      .inTable('delivery_zones')
+      .onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('riders', (table) => {
+    table.dropColumn('home_zone_id');
+  });
+  await knex.schema.dropTableIfExists('delivery_zones');
+}
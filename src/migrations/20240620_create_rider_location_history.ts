@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Append-only breadcrumb trail; rows are only ever inserted or purged by age
+  await knex.schema.createTable('rider_location_history', (table) => {
+    table.bigIncrements('id').primary();
+    table
+      .integer('rider_id')
+      .notNullable()
+      .references('id')
+      .inTable('riders')
+      .onDelete('CASCADE');
+    table.decimal('latitude', 10, 8).notNullable();
+    table.decimal('longitude', 11, 8).notNullable();
+    table.timestamp('recorded_at').notNullable().defaultTo(knex.fn.now());
+    table.index(['rider_id', 'recorded_at']);
+    table.index(['recorded_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('rider_location_history');
+}
@@ -0,0 +1,49 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('orders', (table) => {
+    // Where the rider actually collected the order
+    table.decimal('pickup_latitude', 10, 8).nullable();
+    table.decimal('pickup_longitude', 11, 8).nullable();
+    // Customer drop-off point
+    table.decimal('delivery_latitude', 10, 8).nullable();
+    table.decimal('delivery_longitude', 11, 8).nullable();
+    // Measured from rider location history between pickup and delivery
+    table.decimal('travelled_distance_km', 10, 3).nullable();
+    table.smallint('rating').nullable();
+    table.text('rating_comment').nullable();
+    table.timestamp('rated_at').nullable();
+    table.index(['rider_id', 'completed_time']);
+  });
+
+  await knex.raw(
+    'ALTER TABLE orders ADD CONSTRAINT orders_rating_range CHECK (rating BETWEEN 1 AND 5)',
+  );
+
+  await knex.raw(`
+    UPDATE orders
+    SET delivery_latitude = calculated_orders.lat,
+        delivery_longitude = calculated_orders.lng
+    FROM calculated_orders
+    WHERE orders.calculated_order_id = calculated_orders.id
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(
+    'ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_rating_range',
+  );
+  await knex.schema.alterTable('orders', (table) => {
+    table.dropIndex(['rider_id', 'completed_time']);
+    table.dropColumns(
+      'pickup_latitude',
+      'pickup_longitude',
+      'delivery_latitude',
+      'delivery_longitude',
+      'travelled_distance_km',
+      'rating',
+      'rating_comment',
+      'rated_at',
+    );
+  });
+}
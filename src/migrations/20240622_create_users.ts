@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+// Staff accounts; riders keep authenticating against the riders table
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('users', (table) => {
+    table.increments('id').primary();
+    table.string('name').notNullable();
+    table.string('email').notNullable().unique();
+    table.string('password').notNullable();
+    table
+      .enu('role', ['dispatcher', 'kitchen', 'customer_service', 'admin'])
+      .notNullable();
+    table.string('cokitchen_id').nullable(); // kitchen staff only
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.timestamps(true, true);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('users');
+}
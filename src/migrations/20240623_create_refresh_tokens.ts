@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // One family per login session; every refresh rotates to a new row in the
+  // same family. Only SHA-256 hashes of the tokens are stored.
+  await knex.schema.createTable('refresh_tokens', (table) => {
+    table.increments('id').primary();
+    table.uuid('family_id').notNullable();
+    table.string('subject_type').notNullable(); // 'rider' | 'user'
+    table.integer('subject_id').notNullable();
+    table.string('device_id').nullable();
+    table.string('user_agent').nullable();
+    table.string('token_hash', 64).notNullable().unique();
+    table
+      .integer('parent_id')
+      .nullable()
+      .references('id')
+      .inTable('refresh_tokens')
+      .onDelete('SET NULL');
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('used_at').nullable(); // set once rotated
+    table.timestamp('revoked_at').nullable();
+    table.string('revoked_reason').nullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.index(['family_id']);
+    table.index(['subject_type', 'subject_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('refresh_tokens');
+}
@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Domain events written in the same transaction as the change they describe
+  // and published to RabbitMQ afterwards by the outbox relay
+  await knex.schema.createTable('outbox_events', (table) => {
+    table.bigIncrements('id').primary();
+    table.uuid('message_id').notNullable().unique();
+    table.string('event_type').notNullable(); // e.g. 'order.created'
+    table.string('aggregate_type').notNullable(); // e.g. 'order'
+    table.string('aggregate_id').notNullable();
+    table.jsonb('payload').notNullable();
+    table.string('status').notNullable().defaultTo('pending'); // 'pending' | 'sent' | 'failed'
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.timestamp('next_attempt_at').notNullable().defaultTo(knex.fn.now());
+    table.text('last_error').nullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('sent_at').nullable();
+    table.index(['aggregate_type', 'aggregate_id']);
+  });
+
+  // The relay only ever scans events still waiting to be published
+  await knex.raw(`
+    CREATE INDEX outbox_events_pending_idx
+    ON outbox_events (next_attempt_at, id)
+    WHERE status = 'pending'
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('outbox_events');
+}
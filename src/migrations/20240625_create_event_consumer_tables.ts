@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // One row per (message, handler) that completed, so redelivered messages
+  // are skipped by handlers that already ran
+  await knex.schema.createTable('processed_messages', (table) => {
+    table.string('message_id').notNullable();
+    table.string('consumer').notNullable(); // e.g. 'OrderLogsConsumer.onOrderCreated'
+    table.string('queue').notNullable();
+    table.timestamp('processed_at').notNullable().defaultTo(knex.fn.now());
+    table.primary(['message_id', 'consumer']);
+    table.index(['processed_at']);
+  });
+
+  // Per-day event counts shown on the dispatch dashboard
+  await knex.schema.createTable('dashboard_counters', (table) => {
+    table.date('day').notNullable();
+    table.string('metric').notNullable(); // e.g. 'orders_created'
+    table.integer('value').notNullable().defaultTo(0);
+    table.primary(['day', 'metric']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('dashboard_counters');
+  await knex.schema.dropTableIfExists('processed_messages');
+}
@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // One row per cancelled order: why, by whom and what it cost the customer
+  await knex.schema.createTable('order_cancellations', (table) => {
+    table.increments('id').primary();
+    table
+      .integer('order_id')
+      .notNullable()
+      .unique()
+      .references('id')
+      .inTable('orders');
+    table.string('category').notNullable(); // customer, kitchen, rider or ops
+    table.string('reason_code').notNullable(); // e.g. 'out_of_stock'
+    table.text('note').nullable();
+    table.string('previous_status').notNullable();
+    table.integer('rider_id').nullable().references('id').inTable('riders'); // rider released by the cancellation
+    table.decimal('fee', 10, 2).notNullable().defaultTo(0);
+    table.string('actor_type').notNullable();
+    table.string('actor_id').nullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.index(['category', 'created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('order_cancellations');
+}
@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Every failed delivery attempt and how ops resolved it; orders.failed_trip_details
+  // keeps a copy of the latest one
+  await knex.schema.createTable('failed_trips', (table) => {
+    table.increments('id').primary();
+    table.integer('order_id').notNullable().references('id').inTable('orders');
+    table.integer('rider_id').notNullable().references('id').inTable('riders');
+    table.string('reason').notNullable(); // customer_unreachable, wrong_address or refused
+    table.text('note').nullable();
+    table.string('photo_ref').nullable(); // reference to a photo stored elsewhere
+    table.decimal('latitude', 10, 8).nullable();
+    table.decimal('longitude', 11, 8).nullable();
+    table.timestamp('reported_at').notNullable().defaultTo(knex.fn.now());
+    table.string('resolution').nullable(); // return_to_kitchen, reattempt or reassign
+    table.text('resolution_note').nullable();
+    table.string('resolved_by_type').nullable();
+    table.string('resolved_by_id').nullable();
+    table.timestamp('resolved_at').nullable();
+    table.index(['order_id', 'reported_at']);
+    table.index(['rider_id', 'reported_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('failed_trips');
+}
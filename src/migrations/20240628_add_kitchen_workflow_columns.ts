@@ -0,0 +1,15 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('orders', (table) => {
+    table.timestamp('kitchen_accepted_time').nullable();
+    // Issued to the assigned rider; the kitchen checks it at handoff
+    table.string('pickup_code', 8).nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('orders', (table) => {
+    table.dropColumns('kitchen_accepted_time', 'pickup_code');
+  });
+}
@@ -0,0 +1,50 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('orders', (table) => {
+    // Window the customer booked; scheduled_delivery_date/time keep a
+    // human-readable copy in kitchen time
+    table.timestamp('delivery_window_start').nullable();
+    table.timestamp('delivery_window_end').nullable();
+    // When the scheduler hands the order to the kitchen and dispatch
+    table.timestamp('release_at').nullable();
+    table.timestamp('released_at').nullable();
+  });
+
+  // The scheduler only ever scans scheduled orders it hasn't released yet
+  await knex.raw(`
+    CREATE INDEX orders_release_due_idx ON orders (release_at)
+    WHERE scheduled = true AND released_at IS NULL
+  `);
+
+  // One opening interval per kitchen and weekday; no row means closed that
+  // day, no rows at all means the kitchen's hours aren't enforced
+  await knex.schema.createTable('kitchen_hours', (table) => {
+    table.increments('id').primary();
+    table.string('cokitchen_id').notNullable();
+    table.smallint('day_of_week').notNullable();
+    table.time('opens_at').notNullable();
+    table.time('closes_at').notNullable();
+    table.timestamps(true, true);
+    table.unique(['cokitchen_id', 'day_of_week']);
+  });
+
+  await knex.raw(`
+    ALTER TABLE kitchen_hours
+      ADD CONSTRAINT kitchen_hours_day_range CHECK (day_of_week BETWEEN 0 AND 6),
+      ADD CONSTRAINT kitchen_hours_order CHECK (opens_at < closes_at)
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('kitchen_hours');
+  await knex.raw('DROP INDEX IF EXISTS orders_release_due_idx');
+  await knex.schema.alterTable('orders', (table) => {
+    table.dropColumns(
+      'delivery_window_start',
+      'delivery_window_end',
+      'release_at',
+      'released_at',
+    );
+  });
+}
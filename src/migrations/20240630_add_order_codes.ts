@@ -0,0 +1,46 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Letters that start every code of the order type, e.g. DL for delivery
+  await knex.schema.alterTable('order_types', (table) => {
+    table.string('code_prefix', 4).nullable();
+  });
+  // Existing types start from the first letters of their name, e.g. DEL for
+  // Delivery; admins can change them through PUT /order-types/:id
+  await knex.raw(`
+    UPDATE order_types
+    SET code_prefix = COALESCE(
+      NULLIF(UPPER(LEFT(regexp_replace(name, '[^A-Za-z]', '', 'g'), 3)), ''),
+      'ORD'
+    )
+  `);
+  await knex.raw(`
+    ALTER TABLE order_types
+      ADD CONSTRAINT order_types_code_prefix_format CHECK (code_prefix ~ '^[A-Z]{1,4}$')
+  `);
+
+  // Last sequence number handed out per prefix and kitchen-local day
+  await knex.schema.createTable('order_code_sequences', (table) => {
+    table.string('prefix', 4).notNullable();
+    table.date('code_date').notNullable();
+    table.integer('last_value').notNullable();
+    table.primary(['prefix', 'code_date']);
+  });
+
+  await knex.schema.alterTable('orders', (table) => {
+    table.unique(['order_code'], { indexName: 'orders_order_code_unique' });
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('orders', (table) => {
+    table.dropUnique(['order_code'], 'orders_order_code_unique');
+  });
+  await knex.schema.dropTableIfExists('order_code_sequences');
+  await knex.raw(
+    'ALTER TABLE order_types DROP CONSTRAINT IF EXISTS order_types_code_prefix_format',
+  );
+  await knex.schema.alterTable('order_types', (table) => {
+    table.dropColumn('code_prefix');
+  });
+}
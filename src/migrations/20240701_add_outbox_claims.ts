@@ -0,0 +1,15 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Set while a relay is publishing the event; next_attempt_at doubles as
+  // the claim's expiry, so events of a relay that died are picked up again
+  await knex.schema.alterTable('outbox_events', (table) => {
+    table.timestamp('claimed_at').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('outbox_events', (table) => {
+    table.dropColumn('claimed_at');
+  });
+}
@@ -0,0 +1,20 @@
+export type GeoJsonPosition = [number, number]; // [longitude, latitude]
+
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: GeoJsonPosition[][]; // outer ring first, then holes
+}
+
+export interface DeliveryZone {
+  id: number;
+  name: string;
+  cokitchen_id: string;
+  polygon: GeoJsonPolygon;
+  min_lat: string;
+  max_lat: string;
+  min_lng: string;
+  max_lng: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,37 @@
+export type DispatchOfferStatus =
+  | 'pending'
+  | 'accepted'
+  | 'rejected'
+  | 'expired'
+  | 'undeliverable'
+  | 'cancelled';
+
+export type DispatchRoundOutcome =
+  | 'assigned'
+  | 'exhausted'
+  | 'no_candidates'
+  | 'cancelled';
+
+export interface DispatchOffer {
+  id: number;
+  order_id: number;
+  round_id: number;
+  rider_id: number;
+  distance_km: string | null;
+  status: DispatchOfferStatus;
+  reason: string | null;
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+}
+
+export interface DispatchRound {
+  id: number;
+  order_id: number;
+  round: number;
+  radius_km: string;
+  offers_made: number;
+  outcome: DispatchRoundOutcome | null;
+  started_at: string;
+  finished_at: string | null;
+}
@@ -0,0 +1,16 @@
+export interface FailedTrip {
+  id: number;
+  order_id: number;
+  rider_id: number;
+  reason: string;
+  note: string | null;
+  photo_ref: string | null;
+  latitude: string | null;
+  longitude: string | null;
+  reported_at: string;
+  resolution: string | null;
+  resolution_note: string | null;
+  resolved_by_type: string | null;
+  resolved_by_id: string | null;
+  resolved_at: string | null;
+}
@@ -0,0 +1,9 @@
+export interface KitchenHours {
+  id: number;
+  cokitchen_id: string;
+  day_of_week: number; // 0 = Sunday, in KITCHEN_TIMEZONE
+  opens_at: string; // HH:mm:ss
+  closes_at: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,13 @@
+export interface OrderCancellation {
+  id: number;
+  order_id: number;
+  category: string;
+  reason_code: string;
+  note: string | null;
+  previous_status: string;
+  rider_id: number | null;
+  fee: string;
+  actor_type: string;
+  actor_id: string | null;
+  created_at: string;
+}
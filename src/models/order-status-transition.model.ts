@@ -0,0 +1,10 @@
+export interface OrderStatusTransition {
+  id: number;
+  order_id: number;
+  from_status: string | null;
+  to_status: string;
+  actor_type: string;
+  actor_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
@@ -1,6 +1,9 @@
 export interface OrderType {
   id: string;
   name: string;
+  scoring_strategy: string;
+  scoring_weights: Record<string, number> | null;
+  code_prefix: string | null;
   created_at: string;
   updated_at: string;
-} 
\ No newline at end of file
+}
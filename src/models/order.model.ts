@@ -1,8 +1,7 @@
 import { Log } from './log.model';
 import { OrderTotalAmountHistory } from './order-total-amount-history.model';
 import { CalculatedOrder } from './calculated-order.model';
-import { OrderType } from './order-type.model'; 
-
+import { OrderType } from './order-type.model';
 
 export interface Order {
   id: string;
@@ -21,8 +20,10 @@ export interface Order {
   order_code: string;
   order_change: number | null;
   calculated_order_id: string;
+  order_type_id: string | null;
   created_at: string;
   updated_at: string;
+  kitchen_accepted_time: string | null;
   kitchen_verified_time: string | null;
   kitchen_completed_time: string | null;
   shop_accepted: boolean;
@@ -42,11 +43,26 @@ export interface Order {
   completed_by_id: string | null;
   scheduled_delivery_date: string | null;
   scheduled_delivery_time: string | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  release_at: string | null;
+  released_at: string | null;
   is_hidden: boolean;
+  status: string;
+  pickup_latitude: string | null;
+  pickup_longitude: string | null;
+  delivery_latitude: string | null;
+  delivery_longitude: string | null;
+  travelled_distance_km: string | null;
+  rating: number | null;
+  rating_comment: string | null;
+  rated_at: string | null;
+  pickup_code: string | null;
+  // Joined from order_types when loaded through OrdersService
+  order_type_name?: string | null;
   // Relations
   logs?: Log[];
   order_total_amount_history?: OrderTotalAmountHistory[];
   calculated_order?: CalculatedOrder;
   order_type?: OrderType;
 }
-
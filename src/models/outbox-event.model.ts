@@ -0,0 +1,18 @@
+// 'failed' events were rejected by schema validation and are never retried
+export type OutboxEventStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEvent {
+  id: number;
+  message_id: string;
+  event_type: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  payload: any;
+  status: OutboxEventStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  claimed_at: Date | null;
+  created_at: Date;
+  sent_at: Date | null;
+}
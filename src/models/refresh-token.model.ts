@@ -0,0 +1,17 @@
+export type SessionSubjectType = 'rider' | 'user';
+
+export interface RefreshToken {
+  id: number;
+  family_id: string;
+  subject_type: SessionSubjectType;
+  subject_id: number;
+  device_id: string | null;
+  user_agent: string | null;
+  token_hash: string;
+  parent_id: number | null;
+  expires_at: Date;
+  used_at: Date | null;
+  revoked_at: Date | null;
+  revoked_reason: string | null;
+  created_at: Date;
+}
@@ -0,0 +1,28 @@
+export interface RiderLocationHistoryPoint {
+  id: number;
+  rider_id: number;
+  latitude: string;
+  longitude: string;
+  recorded_at: Date;
+}
+
+export interface RiderTrackPoint {
+  lat: number;
+  lng: number;
+  recorded_at: Date;
+}
+
+export interface RiderTrack {
+  rider_id: number;
+  from: Date;
+  to: Date;
+  tolerance_meters: number;
+  raw_point_count: number;
+  distance_km: number;
+  points: RiderTrackPoint[];
+  geojson: {
+    type: 'Feature';
+    geometry: { type: 'LineString'; coordinates: Array<[number, number]> };
+    properties: { rider_id: number; from: string; to: string };
+  };
+}
@@ -7,7 +7,10 @@ export interface Rider {
   is_available: boolean;
   current_latitude: number | null;
   current_longitude: number | null;
+  rating?: string | null; // Average customer rating (1-5)
+  last_assigned_at?: Date | null;
+  home_zone_id?: number | null;
   created_at: Date;
   updated_at: Date;
   distance?: number; // Added for proximity search results
-} 
\ No newline at end of file
+}
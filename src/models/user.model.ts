@@ -0,0 +1,13 @@
+import { Role } from '../auth/roles';
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  password?: string; // Only loaded for credential checks
+  role: Role;
+  cokitchen_id: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
@@ -0,0 +1,54 @@
+import { Body, Controller, Get, Param, Post, Put } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { OrderTypesService } from './order-types.service';
+import { CreateOrderTypeDto, UpdateOrderTypeDto } from '../dto/order-type.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+
+@ApiTags('order-types')
+@ApiBearerAuth()
+@Controller('order-types')
+export class OrderTypesController {
+  constructor(private readonly orderTypesService: OrderTypesService) {}
+
+  @ApiOperation({ summary: 'Create an order type with its order code prefix' })
+  @ApiResponse({ status: 201, description: 'Order type created' })
+  @ApiResponse({ status: 400, description: 'Invalid name or code prefix' })
+  @Post()
+  @Roles(Role.ADMIN)
+  async createOrderType(@Body() data: CreateOrderTypeDto) {
+    return this.orderTypesService.createOrderType(data);
+  }
+
+  @ApiOperation({ summary: 'List order types' })
+  @Get()
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  async getOrderTypes() {
+    return this.orderTypesService.findAll();
+  }
+
+  @ApiOperation({ summary: 'Get an order type' })
+  @ApiResponse({ status: 404, description: 'Order type not found' })
+  @Get(':id')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  async getOrderType(@Param('id') id: number) {
+    return this.orderTypesService.findById(id);
+  }
+
+  @ApiOperation({ summary: 'Rename an order type or change its code prefix' })
+  @ApiResponse({ status: 400, description: 'Invalid name or code prefix' })
+  @ApiResponse({ status: 404, description: 'Order type not found' })
+  @Put(':id')
+  @Roles(Role.ADMIN)
+  async updateOrderType(
+    @Param('id') id: number,
+    @Body() data: UpdateOrderTypeDto,
+  ) {
+    return this.orderTypesService.updateOrderType(id, data);
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { OrderType } from '../models/order-type.model';
+import { CreateOrderTypeDto, UpdateOrderTypeDto } from '../dto/order-type.dto';
+
+@Injectable()
+export class OrderTypesService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(OrderTypesService.name);
+  }
+
+  async createOrderType(data: CreateOrderTypeDto): Promise<OrderType> {
+    try {
+      const [orderType] = await this.db
+        .knex('order_types')
+        .insert({ name: data.name, code_prefix: data.code_prefix })
+        .returning('*');
+
+      this.logger.log(
+        `Created order type ${orderType.id} (${orderType.name}, ${orderType.code_prefix})`,
+      );
+      return orderType;
+    } catch (error) {
+      this.logger.error(
+        'Failed to create order type',
+        error.stack,
+        'createOrderType',
+      );
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<OrderType[]> {
+    return this.db.knex('order_types').orderBy('id', 'asc');
+  }
+
+  async findById(orderTypeId: number): Promise<OrderType> {
+    const orderType = await this.db
+      .knex('order_types')
+      .where('id', orderTypeId)
+      .first();
+    if (!orderType) {
+      throw new NotFoundException(
+        `Order type with ID ${orderTypeId} not found`,
+      );
+    }
+    return orderType;
+  }
+
+  /**
+   * A new prefix applies to codes issued from now on; existing orders keep
+   * theirs and the new prefix starts its own daily sequence.
+   */
+  async updateOrderType(
+    orderTypeId: number,
+    data: UpdateOrderTypeDto,
+  ): Promise<OrderType> {
+    try {
+      await this.findById(orderTypeId);
+
+      const [orderType] = await this.db
+        .knex('order_types')
+        .where('id', orderTypeId)
+        .update({
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.code_prefix !== undefined && {
+            code_prefix: data.code_prefix,
+          }),
+          updated_at: this.db.knex.fn.now(),
+        })
+        .returning('*');
+
+      return orderType;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update order type ${orderTypeId}`,
+        error.stack,
+        'updateOrderType',
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DeliveryWindowRules,
+  OpeningHours,
+  assertDeliveryWindow,
+  getReleaseAt,
+  toKitchenTime,
+  toScheduledColumns,
+} from './delivery-window';
+
+// Lagos is UTC+1 all year; 2024-07-01 is a Monday
+const rules: DeliveryWindowRules = {
+  minLeadMinutes: 60,
+  maxDaysAhead: 7,
+  maxWindowMinutes: 120,
+  timeZone: 'Africa/Lagos',
+};
+const now = new Date('2024-07-01T08:00:00Z'); // 09:00 in Lagos
+const weekdays: OpeningHours[] = [1, 2, 3, 4, 5].map((day) => ({
+  day_of_week: day,
+  opens_at: '10:00:00',
+  closes_at: '22:00:00',
+}));
+
+const window = (start: string, end: string) => ({
+  start: new Date(start),
+  end: new Date(end),
+});
+
+const codeOf = (fn: () => void) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(BadRequestException);
+    return (error as BadRequestException).getResponse()['code'];
+  }
+  return undefined;
+};
+
+describe('delivery windows', () => {
+  it('converts instants to kitchen wall-clock time', () => {
+    expect(
+      toKitchenTime(new Date('2024-07-01T23:30:00Z'), 'Africa/Lagos'),
+    ).toEqual({
+      date: '2024-07-02',
+      dayOfWeek: 2,
+      minutes: 30,
+      time: '00:30',
+    });
+  });
+
+  it('accepts a window inside opening hours', () => {
+    expect(() =>
+      assertDeliveryWindow(
+        window('2024-07-01T11:00:00Z', '2024-07-01T12:00:00Z'),
+        weekdays,
+        rules,
+        now,
+      ),
+    ).not.toThrow();
+  });
+
+  it('rejects malformed and overlong windows', () => {
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-01T12:00:00Z', '2024-07-01T11:00:00Z'),
+          [],
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('INVALID_DELIVERY_WINDOW');
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-01T11:00:00Z', '2024-07-01T14:00:00Z'),
+          [],
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('INVALID_DELIVERY_WINDOW');
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          { start: new Date('soon'), end: new Date() },
+          [],
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('INVALID_DELIVERY_WINDOW');
+  });
+
+  it('requires the minimum lead time and caps how far ahead', () => {
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-01T08:30:00Z', '2024-07-01T09:30:00Z'),
+          [],
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('DELIVERY_WINDOW_TOO_SOON');
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-09T11:00:00Z', '2024-07-09T12:00:00Z'),
+          [],
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('DELIVERY_WINDOW_TOO_FAR');
+  });
+
+  it('rejects windows outside opening hours or on closed days', () => {
+    // 09:30-10:30 local starts before opening
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-02T08:30:00Z', '2024-07-02T09:30:00Z'),
+          weekdays,
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('KITCHEN_CLOSED');
+    // 21:30-22:30 local runs past closing
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-01T20:30:00Z', '2024-07-01T21:30:00Z'),
+          weekdays,
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('KITCHEN_CLOSED');
+    // Saturday has no hours
+    expect(
+      codeOf(() =>
+        assertDeliveryWindow(
+          window('2024-07-06T11:00:00Z', '2024-07-06T12:00:00Z'),
+          weekdays,
+          rules,
+          now,
+        ),
+      ),
+    ).toBe('KITCHEN_CLOSED');
+  });
+
+  it('accepts any day when the kitchen has no hours configured', () => {
+    expect(() =>
+      assertDeliveryWindow(
+        window('2024-07-06T23:00:00Z', '2024-07-07T00:30:00Z'),
+        [],
+        rules,
+        now,
+      ),
+    ).not.toThrow();
+  });
+
+  it('releases the lead time before the window, but not in the past', () => {
+    expect(
+      getReleaseAt(new Date('2024-07-01T12:00:00Z'), 45, now).toISOString(),
+    ).toBe('2024-07-01T11:15:00.000Z');
+    expect(
+      getReleaseAt(new Date('2024-07-01T08:30:00Z'), 45, now).toISOString(),
+    ).toBe(now.toISOString());
+  });
+
+  it('formats the legacy scheduled columns in kitchen time', () => {
+    expect(
+      toScheduledColumns(
+        window('2024-07-01T11:00:00Z', '2024-07-01T12:30:00Z'),
+        'Africa/Lagos',
+      ),
+    ).toEqual({
+      scheduled_delivery_date: '2024-07-01',
+      scheduled_delivery_time: '12:00-13:30',
+    });
+  });
+});
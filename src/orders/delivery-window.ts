@@ -0,0 +1,152 @@
+import { BadRequestException } from '@nestjs/common';
+
+export interface DeliveryWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface DeliveryWindowRules {
+  minLeadMinutes: number; // earliest booking, counted from now
+  maxDaysAhead: number;
+  maxWindowMinutes: number;
+  timeZone: string; // the kitchens' local time zone
+}
+
+// A kitchen's opening interval on one weekday (0 = Sunday), times as HH:mm[:ss]
+export interface OpeningHours {
+  day_of_week: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+export interface KitchenTime {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number; // since local midnight
+  time: string; // HH:mm
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTE_MS = 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock date and time of an instant in the given time zone. */
+export function toKitchenTime(instant: Date, timeZone: string): KitchenTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).map((part) => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Throws a 400 unless the window is well formed, far enough ahead but not
+ * too far, and inside the kitchen's opening hours on the day it falls on.
+ * A kitchen with no hours configured accepts any window.
+ */
+export function assertDeliveryWindow(
+  window: DeliveryWindow,
+  hours: OpeningHours[],
+  rules: DeliveryWindowRules,
+  now: Date = new Date(),
+): void {
+  const { start, end } = window;
+  if (
+    isNaN(start.getTime()) ||
+    isNaN(end.getTime()) ||
+    end.getTime() <= start.getTime()
+  ) {
+    throw new BadRequestException({
+      code: 'INVALID_DELIVERY_WINDOW',
+      message: 'The delivery window must end after it starts',
+    });
+  }
+  if (end.getTime() - start.getTime() > rules.maxWindowMinutes * MINUTE_MS) {
+    throw new BadRequestException({
+      code: 'INVALID_DELIVERY_WINDOW',
+      message: `Delivery windows may be at most ${rules.maxWindowMinutes} minutes long`,
+    });
+  }
+  if (start.getTime() < now.getTime() + rules.minLeadMinutes * MINUTE_MS) {
+    throw new BadRequestException({
+      code: 'DELIVERY_WINDOW_TOO_SOON',
+      message: `Scheduled deliveries must start at least ${rules.minLeadMinutes} minutes from now`,
+    });
+  }
+  if (
+    start.getTime() >
+    now.getTime() + rules.maxDaysAhead * 24 * 60 * MINUTE_MS
+  ) {
+    throw new BadRequestException({
+      code: 'DELIVERY_WINDOW_TOO_FAR',
+      message: `Deliveries can be scheduled at most ${rules.maxDaysAhead} days ahead`,
+    });
+  }
+
+  if (!hours.length) {
+    return;
+  }
+  const from = toKitchenTime(start, rules.timeZone);
+  const to = toKitchenTime(end, rules.timeZone);
+  const day = hours.find((row) => row.day_of_week === from.dayOfWeek);
+  const open =
+    day &&
+    from.date === to.date &&
+    from.minutes >= toMinutes(day.opens_at) &&
+    to.minutes <= toMinutes(day.closes_at);
+  if (!open) {
+    throw new BadRequestException({
+      code: 'KITCHEN_CLOSED',
+      message: day
+        ? `The kitchen is open ${day.opens_at.slice(0, 5)}-${day.closes_at.slice(0, 5)} on ${WEEKDAYS[from.dayOfWeek]}`
+        : `The kitchen is closed on ${WEEKDAYS[from.dayOfWeek]}`,
+      details: { date: from.date, from: from.time, to: to.time },
+    });
+  }
+}
+
+/** When to hand the order to the kitchen and dispatch: `leadMinutes` before the window, never in the past. */
+export function getReleaseAt(
+  windowStart: Date,
+  leadMinutes: number,
+  now: Date = new Date(),
+): Date {
+  return new Date(
+    Math.max(now.getTime(), windowStart.getTime() - leadMinutes * MINUTE_MS),
+  );
+}
+
+/** The window as the legacy scheduled_delivery_date/time columns show it, in kitchen time. */
+export function toScheduledColumns(window: DeliveryWindow, timeZone: string) {
+  const from = toKitchenTime(window.start, timeZone);
+  const to = toKitchenTime(window.end, timeZone);
+  return {
+    scheduled_delivery_date: from.date,
+    scheduled_delivery_time: `${from.time}-${to.time}`,
+  };
+}
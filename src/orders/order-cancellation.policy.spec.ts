@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { OrderStatus } from '../dto/order.dto';
+import { Role } from '../auth/roles';
+import {
+  CancellationCategory,
+  CancellationRequest,
+  assertCanCancel,
+  getCancellationFee,
+} from './order-cancellation.policy';
+
+const request = (
+  overrides: Partial<CancellationRequest>,
+): CancellationRequest => ({
+  category: CancellationCategory.CUSTOMER,
+  reasonCode: 'changed_mind',
+  status: OrderStatus.PENDING,
+  role: Role.CUSTOMER_SERVICE,
+  actorId: '7',
+  riderId: null,
+  ...overrides,
+});
+
+describe('order cancellation policy', () => {
+  it('lets customer service cancel for the customer before pickup', () => {
+    expect(() => assertCanCancel(request({}))).not.toThrow();
+    expect(() =>
+      assertCanCancel(request({ status: OrderStatus.ACCEPTED })),
+    ).not.toThrow();
+  });
+
+  it('rejects a reason from another category with a 400', () => {
+    expect(() =>
+      assertCanCancel(request({ reasonCode: 'out_of_stock' })),
+    ).toThrow(BadRequestException);
+  });
+
+  it('rejects roles that cannot cancel on behalf of the category', () => {
+    expect(() =>
+      assertCanCancel(
+        request({
+          category: CancellationCategory.KITCHEN,
+          reasonCode: 'out_of_stock',
+        }),
+      ),
+    ).toThrow(ForbiddenException);
+    expect(() =>
+      assertCanCancel(
+        request({
+          category: CancellationCategory.OPS,
+          reasonCode: 'suspected_fraud',
+          role: Role.KITCHEN,
+        }),
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('always lets admins cancel', () => {
+    expect(() =>
+      assertCanCancel(
+        request({
+          category: CancellationCategory.OPS,
+          reasonCode: 'other',
+          status: OrderStatus.IN_TRANSIT,
+          role: Role.ADMIN,
+        }),
+      ),
+    ).not.toThrow();
+  });
+
+  it('stops the kitchen and customer cancelling once the order is picked up', () => {
+    expect(() =>
+      assertCanCancel(request({ status: OrderStatus.PICKED_UP })),
+    ).toThrow(ConflictException);
+    expect(() =>
+      assertCanCancel(
+        request({
+          category: CancellationCategory.KITCHEN,
+          reasonCode: 'kitchen_closed',
+          role: Role.KITCHEN,
+          status: OrderStatus.IN_TRANSIT,
+        }),
+      ),
+    ).toThrow(ConflictException);
+  });
+
+  it('never cancels a finished order', () => {
+    for (const status of [OrderStatus.DELIVERED, OrderStatus.CANCELLED]) {
+      expect(() =>
+        assertCanCancel(
+          request({
+            category: CancellationCategory.OPS,
+            reasonCode: 'other',
+            role: Role.DISPATCHER,
+            status,
+          }),
+        ),
+      ).toThrow(ConflictException);
+    }
+  });
+
+  it('only lets a rider cancel an order assigned to them', () => {
+    const riderRequest = request({
+      category: CancellationCategory.RIDER,
+      reasonCode: 'vehicle_breakdown',
+      role: Role.RIDER,
+      status: OrderStatus.IN_TRANSIT,
+      actorId: 12,
+    });
+
+    expect(() =>
+      assertCanCancel({ ...riderRequest, riderId: '12' }),
+    ).not.toThrow();
+    expect(() => assertCanCancel({ ...riderRequest, riderId: '13' })).toThrow(
+      ForbiddenException,
+    );
+    expect(() => assertCanCancel({ ...riderRequest, riderId: null })).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('requires an assigned rider for rider cancellations by dispatchers', () => {
+    expect(() =>
+      assertCanCancel(
+        request({
+          category: CancellationCategory.RIDER,
+          reasonCode: 'accident',
+          role: Role.DISPATCHER,
+        }),
+      ),
+    ).toThrow(ConflictException);
+  });
+
+  describe('getCancellationFee', () => {
+    it('is free while the order is pending', () => {
+      expect(
+        getCancellationFee(
+          CancellationCategory.CUSTOMER,
+          OrderStatus.PENDING,
+          5000,
+          50,
+        ),
+      ).toBe(0);
+    });
+
+    it('charges the customer a share once the kitchen accepted', () => {
+      expect(
+        getCancellationFee(
+          CancellationCategory.CUSTOMER,
+          OrderStatus.ACCEPTED,
+          4999.99,
+          50,
+        ),
+      ).toBe(2500);
+      expect(
+        getCancellationFee(
+          CancellationCategory.CUSTOMER,
+          OrderStatus.ACCEPTED,
+          1234.5,
+          10,
+        ),
+      ).toBe(123.45);
+    });
+
+    it('never charges for kitchen, rider or ops cancellations', () => {
+      for (const category of [
+        CancellationCategory.KITCHEN,
+        CancellationCategory.RIDER,
+        CancellationCategory.OPS,
+      ]) {
+        expect(
+          getCancellationFee(category, OrderStatus.IN_TRANSIT, 5000, 50),
+        ).toBe(0);
+      }
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { OrderStatus } from '../dto/order.dto';
+import { Role } from '../auth/roles';
+
+// Who the cancellation is attributed to, not who pressed the button
+export enum CancellationCategory {
+  CUSTOMER = 'customer',
+  KITCHEN = 'kitchen',
+  RIDER = 'rider',
+  OPS = 'ops',
+}
+
+export const CANCELLATION_REASONS: Record<CancellationCategory, string[]> = {
+  [CancellationCategory.CUSTOMER]: [
+    'changed_mind',
+    'ordered_by_mistake',
+    'delivery_too_slow',
+    'duplicate_order',
+  ],
+  [CancellationCategory.KITCHEN]: [
+    'out_of_stock',
+    'kitchen_closed',
+    'kitchen_overloaded',
+  ],
+  [CancellationCategory.RIDER]: [
+    'vehicle_breakdown',
+    'accident',
+    'unsafe_location',
+    'customer_unreachable',
+  ],
+  [CancellationCategory.OPS]: [
+    'suspected_fraud',
+    'payment_failed',
+    'address_unserviceable',
+    'other',
+  ],
+};
+
+interface CancellationRule {
+  roles: Role[]; // admins may always cancel
+  statuses: OrderStatus[]; // statuses the order may be cancelled from
+  requiresRider?: boolean;
+}
+
+const BEFORE_PICKUP = [OrderStatus.PENDING, OrderStatus.ACCEPTED];
+const NOT_DONE = [
+  ...BEFORE_PICKUP,
+  OrderStatus.PICKED_UP,
+  OrderStatus.IN_TRANSIT,
+  OrderStatus.DELIVERY_FAILED,
+];
+
+// The kitchen and the customer can only back out before the food leaves;
+// after that only the rider's trip or ops can end the order
+export const CANCELLATION_RULES: Record<
+  CancellationCategory,
+  CancellationRule
+> = {
+  [CancellationCategory.CUSTOMER]: {
+    roles: [Role.CUSTOMER_SERVICE, Role.DISPATCHER],
+    statuses: BEFORE_PICKUP,
+  },
+  [CancellationCategory.KITCHEN]: {
+    roles: [Role.KITCHEN, Role.DISPATCHER],
+    statuses: BEFORE_PICKUP,
+  },
+  [CancellationCategory.RIDER]: {
+    roles: [Role.RIDER, Role.DISPATCHER],
+    statuses: NOT_DONE,
+    requiresRider: true,
+  },
+  [CancellationCategory.OPS]: {
+    roles: [Role.DISPATCHER],
+    statuses: NOT_DONE,
+  },
+};
+
+export interface CancellationRequest {
+  category: CancellationCategory;
+  reasonCode: string;
+  status: string; // current order status
+  role: string; // role of the caller
+  actorId?: string | number | null;
+  riderId?: string | number | null; // rider assigned to the order, if any
+}
+
+/**
+ * Throws unless the caller may cancel the order for this reason now: 400 for
+ * an unknown reason, 403 for a role that can't cancel on the category's
+ * behalf (or a rider cancelling someone else's order), 409 when the order
+ * has gone past the point the category allows.
+ */
+export function assertCanCancel(request: CancellationRequest): void {
+  const { category, reasonCode, status, role } = request;
+  const rule = CANCELLATION_RULES[category];
+
+  if (!CANCELLATION_REASONS[category]?.includes(reasonCode)) {
+    throw new BadRequestException({
+      code: 'INVALID_CANCELLATION_REASON',
+      message: `'${reasonCode}' is not a ${category} cancellation reason`,
+      details: { allowed: CANCELLATION_REASONS[category] ?? [] },
+    });
+  }
+
+  if (role !== Role.ADMIN && !rule.roles.includes(role as Role)) {
+    throw new ForbiddenException(
+      `Role '${role}' cannot cancel orders for ${category} reasons`,
+    );
+  }
+
+  if (
+    role === Role.RIDER &&
+    (request.riderId == null ||
+      String(request.riderId) !== String(request.actorId))
+  ) {
+    throw new ForbiddenException('Order is not assigned to you');
+  }
+
+  if (!rule.statuses.includes(status as OrderStatus)) {
+    throw new ConflictException({
+      code: 'ORDER_NOT_CANCELLABLE',
+      message: `Orders that are '${status}' cannot be cancelled for ${category} reasons`,
+      details: { status, category, allowed: rule.statuses },
+    });
+  }
+
+  if (rule.requiresRider && request.riderId == null) {
+    throw new ConflictException({
+      code: 'ORDER_NOT_CANCELLABLE',
+      message: 'Order has no rider assigned',
+      details: { status, category },
+    });
+  }
+}
+
+/**
+ * What the customer is charged on cancellation. Only customer cancellations
+ * cost anything, and only once the kitchen has started on the order.
+ */
+export function getCancellationFee(
+  category: CancellationCategory,
+  status: string,
+  totalAmount: number,
+  feePercent: number,
+): number {
+  if (
+    category !== CancellationCategory.CUSTOMER ||
+    status === OrderStatus.PENDING
+  ) {
+    return 0;
+  }
+  return Math.round(totalAmount * feePercent) / 100;
+}
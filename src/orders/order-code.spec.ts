@@ -0,0 +1,77 @@
+import {
+  compactOrderCode,
+  formatOrderCode,
+  orderCodeCheckCharacter,
+  parseOrderCode,
+} from './order-code';
+
+describe('order codes', () => {
+  it('formats prefix, day and zero-padded sequence with a check character', () => {
+    expect(
+      formatOrderCode({ prefix: 'DL', date: '240701', sequence: 42 }),
+    ).toBe('DL-240701-00426');
+    expect(
+      formatOrderCode({ prefix: 'ORD', date: '250314', sequence: 1 }),
+    ).toBe('ORD-250314-0001X');
+  });
+
+  it('grows the sequence past its padding', () => {
+    expect(
+      formatOrderCode({ prefix: 'DL', date: '240701', sequence: 12345 }),
+    ).toBe('DL-240701-123459');
+    expect(parseOrderCode('DL-240701-123459')).toEqual({
+      code: 'DL-240701-123459',
+      valid: true,
+    });
+  });
+
+  it('never uses I, L, O or U as the check character', () => {
+    for (let sequence = 1; sequence <= 2000; sequence++) {
+      const code = formatOrderCode({ prefix: 'DL', date: '240701', sequence });
+      expect(code.slice(-1)).not.toMatch(/[ILOU]/);
+    }
+  });
+
+  it('reads codes in any case or spacing', () => {
+    expect(compactOrderCode(' dl-240701 00426 ')).toBe('DL24070100426');
+    expect(parseOrderCode('dl 240701 0042 6')).toEqual({
+      code: 'DL-240701-00426',
+      valid: true,
+    });
+    expect(parseOrderCode('ORD2503140001X')).toEqual({
+      code: 'ORD-250314-0001X',
+      valid: true,
+    });
+  });
+
+  it('takes O for 0 and I or L for 1 after the prefix', () => {
+    // The check character of the 7th order is 0, easily read out as O
+    expect(parseOrderCode('DL-240701-0007O')).toEqual({
+      code: 'DL-240701-00070',
+      valid: true,
+    });
+    expect(parseOrderCode('dl 24o7oI oo42 6')).toEqual({
+      code: 'DL-240701-00426',
+      valid: true,
+    });
+  });
+
+  it('flags a single wrong character', () => {
+    expect(parseOrderCode('DL-240701-00436')?.valid).toBe(false);
+    expect(parseOrderCode('DL-240701-00427')?.valid).toBe(false);
+    expect(parseOrderCode('DL-240701-0042U')?.valid).toBe(false);
+  });
+
+  it('flags swapped adjacent digits', () => {
+    expect(orderCodeCheckCharacter('DL2407010024')).not.toBe(
+      orderCodeCheckCharacter('DL2407010042'),
+    );
+    expect(parseOrderCode('DL-240701-00246')?.valid).toBe(false);
+  });
+
+  it('does not parse codes in other formats', () => {
+    expect(parseOrderCode('ORD-2025-001')).toBeNull();
+    expect(parseOrderCode('12345')).toBeNull();
+    expect(parseOrderCode('')).toBeNull();
+  });
+});
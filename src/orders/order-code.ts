@@ -0,0 +1,89 @@
+// Codes read out over the phone: PREFIX-YYMMDD-SEQUENCE followed by a check
+// character, e.g. DL-240701-00426 for the 42nd delivery order on 1 July 2024
+export const DEFAULT_ORDER_CODE_PREFIX = 'ORD';
+export const ORDER_CODE_SEQUENCE_DIGITS = 4;
+
+// Values of the characters the code is made of
+const CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+// Crockford's base 32: no I, L, O or U, so the check can't be misread as 1 or 0
+const CHECK_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+// Letters heard or typed in place of the digits they look like
+const MISREAD_DIGITS: Record<string, string> = { O: '0', I: '1', L: '1' };
+const CODE_PATTERN =
+  /^([A-Z]{1,4})-?([0-9OIL]{6})-?([0-9OIL]{4,})-?([0-9A-Z])$/;
+
+export interface OrderCodeParts {
+  prefix: string;
+  date: string; // YYMMDD
+  sequence: number;
+}
+
+/**
+ * Luhn mod 32 check character over the code without its separators. It
+ * catches any single wrong character and swaps of adjacent characters.
+ */
+export function orderCodeCheckCharacter(payload: string): string {
+  const base = CHECK_ALPHABET.length;
+  let sum = 0;
+  let double = true;
+  for (let i = payload.length - 1; i >= 0; i--) {
+    const index = CHARACTERS.indexOf(payload[i]);
+    if (index < 0) {
+      throw new Error(`Invalid order code character '${payload[i]}'`);
+    }
+    // W-Z share values with 0-3, but letters only appear in the prefix
+    let value = index % base;
+    if (double) {
+      value *= 2;
+      value = Math.floor(value / base) + (value % base);
+    }
+    sum += value;
+    double = !double;
+  }
+  return CHECK_ALPHABET[(base - (sum % base)) % base];
+}
+
+export function formatOrderCode({
+  prefix,
+  date,
+  sequence,
+}: OrderCodeParts): string {
+  const padded = String(sequence).padStart(ORDER_CODE_SEQUENCE_DIGITS, '0');
+  return `${prefix}-${date}-${padded}${orderCodeCheckCharacter(`${prefix}${date}${padded}`)}`;
+}
+
+/** Upper-cases and drops spaces and dashes, the way callers tend to type codes. */
+export function compactOrderCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+const toDigits = (value: string) =>
+  value.replace(/[OIL]/g, (letter) => MISREAD_DIGITS[letter]);
+
+/**
+ * Reads a code in any spacing or case, taking O for 0 and I or L for 1
+ * after the prefix. Returns null when the input isn't in the order code
+ * format, and `valid: false` when the check character doesn't match, i.e.
+ * the code was misheard or mistyped.
+ */
+export function parseOrderCode(
+  input: string,
+): { code: string; valid: boolean } | null {
+  const normalized = input
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, '-');
+  const match = CODE_PATTERN.exec(normalized);
+  if (!match) {
+    return null;
+  }
+
+  const prefix = match[1];
+  const date = toDigits(match[2]);
+  const sequence = toDigits(match[3]);
+  const check = MISREAD_DIGITS[match[4]] ?? match[4];
+  return {
+    code: `${prefix}-${date}-${sequence}${check}`,
+    valid: orderCodeCheckCharacter(`${prefix}${date}${sequence}`) === check,
+  };
+}
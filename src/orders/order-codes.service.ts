@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Knex } from 'knex';
+import { toKitchenTime } from './delivery-window';
+import { DEFAULT_ORDER_CODE_PREFIX, formatOrderCode } from './order-code';
+
+/**
+ * Issues order codes from a per-day sequence for each order type prefix. The
+ * sequence row is bumped inside the order's transaction, so concurrent orders
+ * queue on it and never share a code; a rolled-back order leaves a gap.
+ */
+@Injectable()
+export class OrderCodesService {
+  private readonly timeZone: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.timeZone = this.configService.get('KITCHEN_TIMEZONE', 'Africa/Lagos');
+  }
+
+  async nextCode(
+    trx: Knex.Transaction,
+    orderTypeId: string | number | null | undefined,
+    now: Date = new Date(),
+  ): Promise<string> {
+    const orderType = orderTypeId
+      ? await trx('order_types').where('id', orderTypeId).first('code_prefix')
+      : undefined;
+    const prefix = orderType?.code_prefix ?? DEFAULT_ORDER_CODE_PREFIX;
+    // Days roll over at the kitchens' midnight, not UTC's
+    const day = toKitchenTime(now, this.timeZone).date;
+
+    const {
+      rows: [{ last_value }],
+    } = await trx.raw(
+      `INSERT INTO order_code_sequences (prefix, code_date, last_value)
+       VALUES (?, ?, 1)
+       ON CONFLICT (prefix, code_date)
+       DO UPDATE SET last_value = order_code_sequences.last_value + 1
+       RETURNING last_value`,
+      [prefix, day],
+    );
+
+    return formatOrderCode({
+      prefix,
+      date: day.slice(2).replace(/-/g, ''),
+      sequence: Number(last_value),
+    });
+  }
+}
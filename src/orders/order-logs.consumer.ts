@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DeliveryEventContext,
+  OnDeliveryEvent,
+} from '../rabbitmq/delivery-event.decorator';
+import {
+  OrderAssignedPayload,
+  OrderCreatedPayload,
+  OrderUpdatedPayload,
+} from '../interfaces/message-payloads';
+
+/**
+ * Builds the human-readable order timeline in `logs` from delivery events.
+ * Entries are stamped with the event time, so a delayed message still lands
+ * in the right place.
+ */
+@Injectable()
+export class OrderLogsConsumer {
+  @OnDeliveryEvent('order.created')
+  async onOrderCreated(
+    event: OrderCreatedPayload,
+    { trx, occurredAt }: DeliveryEventContext,
+  ): Promise<void> {
+    await trx('logs').insert({
+      order_id: event.orderId,
+      description: 'Order received',
+      time: occurredAt,
+    });
+  }
+
+  @OnDeliveryEvent('order.updated')
+  async onOrderUpdated(
+    event: OrderUpdatedPayload,
+    { trx, occurredAt }: DeliveryEventContext,
+  ): Promise<void> {
+    const change = `Status changed from ${event.previousStatus} to ${event.status}`;
+    await trx('logs').insert({
+      order_id: event.orderId,
+      description: event.description
+        ? `${change}: ${event.description}`
+        : change,
+      time: occurredAt,
+    });
+  }
+
+  @OnDeliveryEvent('order.assigned')
+  async onOrderAssigned(
+    event: OrderAssignedPayload,
+    { trx, occurredAt }: DeliveryEventContext,
+  ): Promise<void> {
+    await trx('logs').insert({
+      order_id: event.orderId,
+      description: `Rider (ID: ${event.riderId}) assigned to order`,
+      time: occurredAt,
+    });
+  }
+}
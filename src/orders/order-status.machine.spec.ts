@@ -0,0 +1,115 @@
+import { ConflictException } from '@nestjs/common';
+import { OrderStatus } from '../dto/order.dto';
+import {
+  assertTransition,
+  canTransition,
+  getStatusSideEffects,
+  isTerminalStatus,
+} from './order-status.machine';
+
+describe('order status machine', () => {
+  it('allows the happy path', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.ACCEPTED)).toBe(true);
+    expect(canTransition(OrderStatus.ACCEPTED, OrderStatus.PICKED_UP)).toBe(
+      true,
+    );
+    expect(canTransition(OrderStatus.PICKED_UP, OrderStatus.IN_TRANSIT)).toBe(
+      true,
+    );
+    expect(canTransition(OrderStatus.IN_TRANSIT, OrderStatus.DELIVERED)).toBe(
+      true,
+    );
+  });
+
+  it('rejects moving a delivered order back to pending with a 409', () => {
+    expect(isTerminalStatus(OrderStatus.DELIVERED)).toBe(true);
+    expect(() =>
+      assertTransition(OrderStatus.DELIVERED, OrderStatus.PENDING),
+    ).toThrow(ConflictException);
+  });
+
+  it('rejects unknown source statuses', () => {
+    expect(() => assertTransition('teleported', OrderStatus.ACCEPTED)).toThrow(
+      ConflictException,
+    );
+  });
+
+  it('accumulates flags and timestamps along the happy path', () => {
+    const effects = getStatusSideEffects(OrderStatus.DELIVERED);
+
+    expect(effects.flags).toEqual({
+      kitchen_accepted: true,
+      kitchen_dispatched: true,
+      rider_started: true,
+      rider_arrived: true,
+      completed: true,
+    });
+    expect(effects.timestamps).toEqual([
+      'kitchen_accepted_time',
+      'kitchen_dispatched_time',
+      'rider_started_time',
+      'rider_arrived_time',
+      'completed_time',
+    ]);
+  });
+
+  it('lets a failed trip be reattempted, reassigned or returned', () => {
+    expect(
+      canTransition(OrderStatus.IN_TRANSIT, OrderStatus.DELIVERY_FAILED),
+    ).toBe(true);
+    for (const next of [
+      OrderStatus.IN_TRANSIT,
+      OrderStatus.ACCEPTED,
+      OrderStatus.RETURNED,
+    ]) {
+      expect(canTransition(OrderStatus.DELIVERY_FAILED, next)).toBe(true);
+    }
+    expect(
+      canTransition(OrderStatus.ACCEPTED, OrderStatus.DELIVERY_FAILED),
+    ).toBe(false);
+    expect(isTerminalStatus(OrderStatus.RETURNED)).toBe(true);
+  });
+
+  it('marks the order as a failed trip without touching happy-path flags', () => {
+    expect(getStatusSideEffects(OrderStatus.DELIVERY_FAILED)).toEqual({
+      flags: { is_failed_trip: true },
+      timestamps: [],
+    });
+  });
+
+  it('undoes the pickup and the trip when a failed trip is reassigned', () => {
+    const effects = getStatusSideEffects(
+      OrderStatus.ACCEPTED,
+      OrderStatus.DELIVERY_FAILED,
+    );
+
+    expect(effects.flags).toEqual({
+      kitchen_accepted: true,
+      kitchen_dispatched: false,
+      rider_started: false,
+      rider_arrived: false,
+      completed: false,
+    });
+    expect(effects.timestamps).toEqual(['kitchen_accepted_time']);
+    expect(effects.cleared).toEqual([
+      'kitchen_dispatched_time',
+      'rider_started_time',
+      'rider_arrived_time',
+      'completed_time',
+    ]);
+  });
+
+  it('keeps the trip when a failed trip is reattempted', () => {
+    expect(
+      getStatusSideEffects(OrderStatus.IN_TRANSIT, OrderStatus.DELIVERY_FAILED)
+        .cleared,
+    ).toBeUndefined();
+  });
+
+  it('only flips the cancelled flag on cancellation', () => {
+    expect(getStatusSideEffects(OrderStatus.CANCELLED)).toEqual({
+      flags: { cancelled: true },
+      timestamps: [],
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { ConflictException } from '@nestjs/common';
+import { OrderStatus } from '../dto/order.dto';
+
+export interface TransitionActor {
+  type: string; // e.g. 'system', 'api', 'rider', 'dispatcher'
+  id?: string | number | null;
+}
+
+export const SYSTEM_ACTOR: TransitionActor = { type: 'system' };
+
+// Legal lifecycle moves. Terminal statuses map to an empty list.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.ACCEPTED, OrderStatus.CANCELLED],
+  [OrderStatus.ACCEPTED]: [OrderStatus.PICKED_UP, OrderStatus.CANCELLED],
+  [OrderStatus.PICKED_UP]: [
+    OrderStatus.IN_TRANSIT,
+    OrderStatus.DELIVERED,
+    OrderStatus.DELIVERY_FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.IN_TRANSIT]: [
+    OrderStatus.DELIVERED,
+    OrderStatus.DELIVERY_FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  // Resolved by ops: reattempt (in transit again), reassign (back to the
+  // kitchen's shelf for a new rider) or return to kitchen
+  [OrderStatus.DELIVERY_FAILED]: [
+    OrderStatus.IN_TRANSIT,
+    OrderStatus.ACCEPTED,
+    OrderStatus.RETURNED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.RETURNED]: [],
+};
+
+export interface StatusSideEffects {
+  flags: Record<string, boolean>;
+  timestamps: string[]; // columns stamped with NOW() unless already set
+  cleared?: string[]; // columns reset to null
+}
+
+// Flags owned by each step of the happy path. Reaching a step implies every
+// earlier step happened, so effects accumulate along this list.
+const HAPPY_PATH: Array<{ status: OrderStatus; effects: StatusSideEffects }> = [
+  { status: OrderStatus.PENDING, effects: { flags: {}, timestamps: [] } },
+  {
+    status: OrderStatus.ACCEPTED,
+    effects: {
+      flags: { kitchen_accepted: true },
+      timestamps: ['kitchen_accepted_time'],
+    },
+  },
+  {
+    status: OrderStatus.PICKED_UP,
+    effects: {
+      flags: { kitchen_dispatched: true },
+      timestamps: ['kitchen_dispatched_time'],
+    },
+  },
+  {
+    status: OrderStatus.IN_TRANSIT,
+    effects: {
+      flags: { rider_started: true },
+      timestamps: ['rider_started_time'],
+    },
+  },
+  {
+    status: OrderStatus.DELIVERED,
+    effects: {
+      flags: { rider_arrived: true, completed: true },
+      timestamps: ['rider_arrived_time', 'completed_time'],
+    },
+  },
+];
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (Object.values(OrderStatus) as string[]).includes(value);
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function assertTransition(from: string, to: OrderStatus): void {
+  if (!isOrderStatus(from) || !canTransition(from, to)) {
+    throw new ConflictException({
+      code: 'INVALID_STATUS_TRANSITION',
+      message: `Cannot transition order from '${from}' to '${to}'`,
+      details: {
+        from,
+        to,
+        allowed: isOrderStatus(from) ? ORDER_STATUS_TRANSITIONS[from] : [],
+      },
+    });
+  }
+}
+
+export function getStatusSideEffects(
+  status: OrderStatus,
+  from?: OrderStatus,
+): StatusSideEffects {
+  if (status === OrderStatus.CANCELLED) {
+    return { flags: { cancelled: true }, timestamps: [] };
+  }
+  // is_failed_trip stays set once a trip has failed, whatever happens next
+  if (status === OrderStatus.DELIVERY_FAILED) {
+    return { flags: { is_failed_trip: true }, timestamps: [] };
+  }
+  if (status === OrderStatus.RETURNED) {
+    return { flags: {}, timestamps: [] };
+  }
+
+  const index = HAPPY_PATH.findIndex((step) => step.status === status);
+  const effects = HAPPY_PATH.slice(0, index + 1).reduce<StatusSideEffects>(
+    (acc, step) => ({
+      flags: { ...acc.flags, ...step.effects.flags },
+      timestamps: [...acc.timestamps, ...step.effects.timestamps],
+    }),
+    { flags: {}, timestamps: [] },
+  );
+
+  // A reassigned failed trip goes back on the kitchen's shelf, so the pickup
+  // and the trip after it are undone for the next rider
+  if (from === OrderStatus.DELIVERY_FAILED && status === OrderStatus.ACCEPTED) {
+    const undone = HAPPY_PATH.slice(index + 1).map((step) => step.effects);
+    return {
+      flags: {
+        ...effects.flags,
+        ...Object.fromEntries(
+          undone
+            .flatMap((step) => Object.keys(step.flags))
+            .map((flag) => [flag, false]),
+        ),
+      },
+      timestamps: effects.timestamps,
+      cleared: undone.flatMap((step) => step.timestamps),
+    };
+  }
+  return effects;
+}
@@ -0,0 +1,219 @@
+import { forwardRef, Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DispatchGateway } from '../websockets/dispatch.gateway';
+import { haversineKm } from '../common/geo/geo.utils';
+import { OrderStatus } from '../dto/order.dto';
+import { Order } from '../models/order.model';
+import {
+  OrderEtaMessage,
+  OrderStatusMessage,
+  OrderTrackingSnapshot,
+  RiderPositionMessage,
+} from '../interfaces/websocket-messages';
+
+// Statuses during which the customer sees the rider moving
+const TRACKED_STATUSES = [
+  OrderStatus.ACCEPTED,
+  OrderStatus.PICKED_UP,
+  OrderStatus.IN_TRANSIT,
+];
+// ETA is only meaningful once the rider is carrying the order
+const ETA_STATUSES = [OrderStatus.PICKED_UP, OrderStatus.IN_TRANSIT];
+// Weight of the newest estimate in the rolling ETA
+const ETA_SMOOTHING = 0.3;
+
+/**
+ * Pushes live updates for individual orders to the customers following them.
+ * Every order has its own socket.io room, so a customer only ever receives
+ * the position of the rider carrying their order.
+ */
+@Injectable()
+export class OrderTrackingService {
+  private readonly lastPositionSent = new Map<number, number>(); // riderId -> epoch ms
+  private readonly rollingEtaSeconds = new Map<number, number>(); // orderId -> seconds
+  private readonly throttleMs: number;
+  private readonly averageSpeedKmh: number;
+  private readonly routeFactor: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    @Inject(forwardRef(() => DispatchGateway))
+    private readonly dispatchGateway: DispatchGateway,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(OrderTrackingService.name);
+    this.throttleMs = parseInt(
+      this.configService.get('ORDER_TRACKING_THROTTLE_MS', '5000'),
+    );
+    this.averageSpeedKmh = parseFloat(
+      this.configService.get('ORDER_TRACKING_AVG_SPEED_KMH', '20'),
+    );
+    this.routeFactor = parseFloat(
+      this.configService.get('ORDER_TRACKING_ROUTE_FACTOR', '1.3'),
+    );
+  }
+
+  /** Current state sent to a customer as soon as they subscribe. */
+  async getSnapshot(orderId: number): Promise<OrderTrackingSnapshot> {
+    const order = await this.db
+      .knex('orders')
+      .leftJoin('riders', 'orders.rider_id', 'riders.id')
+      .where('orders.id', orderId)
+      .first(
+        'orders.id',
+        'orders.status',
+        'orders.rider_id',
+        'orders.delivery_latitude',
+        'orders.delivery_longitude',
+        'orders.updated_at',
+        'riders.name as rider_name',
+        'riders.current_latitude',
+        'riders.current_longitude',
+      );
+
+    const snapshot: OrderTrackingSnapshot = {
+      orderId,
+      status: order?.status ?? null,
+      riderId: order?.rider_id ?? null,
+      riderName: order?.rider_name ?? null,
+      position: null,
+      eta: null,
+    };
+    if (
+      !order ||
+      !TRACKED_STATUSES.includes(order.status) ||
+      order.current_latitude == null
+    ) {
+      return snapshot;
+    }
+
+    const latitude = Number(order.current_latitude);
+    const longitude = Number(order.current_longitude);
+    snapshot.position = {
+      orderId,
+      latitude,
+      longitude,
+      recordedAt: new Date().toISOString(),
+    };
+    snapshot.eta = this.estimate(order, latitude, longitude);
+    return snapshot;
+  }
+
+  publishStatus(order: Order, previousStatus?: string): void {
+    try {
+      const orderId = Number(order.id);
+      const message: OrderStatusMessage = {
+        orderId,
+        status: order.status,
+        previousStatus: previousStatus ?? null,
+        riderId: order.rider_id != null ? Number(order.rider_id) : null,
+        updatedAt: new Date(order.updated_at ?? Date.now()).toISOString(),
+      };
+      this.dispatchGateway.emitToOrder(orderId, 'orderStatus', message);
+
+      if (!TRACKED_STATUSES.includes(order.status as OrderStatus)) {
+        this.rollingEtaSeconds.delete(orderId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish status of order ${order.id}`,
+        error.stack,
+        'publishStatus',
+      );
+    }
+  }
+
+  /**
+   * Forwards a rider's position to the rooms of the orders they are
+   * carrying, at most once per throttle window per rider.
+   */
+  async handleRiderPosition(
+    riderId: number,
+    latitude: number,
+    longitude: number,
+  ): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastPositionSent.get(riderId) ?? 0) < this.throttleMs) {
+      return;
+    }
+    this.lastPositionSent.set(riderId, now);
+
+    try {
+      const orders = await this.db
+        .knex('orders')
+        .where('rider_id', riderId)
+        .whereIn('status', TRACKED_STATUSES)
+        .select('id', 'status', 'delivery_latitude', 'delivery_longitude');
+
+      for (const order of orders) {
+        const orderId = Number(order.id);
+        const position: RiderPositionMessage = {
+          orderId,
+          latitude,
+          longitude,
+          recordedAt: new Date(now).toISOString(),
+        };
+        this.dispatchGateway.emitToOrder(orderId, 'riderPosition', position);
+
+        const eta = this.estimate(order, latitude, longitude);
+        if (eta) {
+          this.dispatchGateway.emitToOrder(orderId, 'orderEta', eta);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to forward position of rider ${riderId}`,
+        error.stack,
+        'handleRiderPosition',
+      );
+    }
+  }
+
+  private estimate(
+    order: {
+      id: number | string;
+      status: string;
+      delivery_latitude: string | null;
+      delivery_longitude: string | null;
+    },
+    latitude: number,
+    longitude: number,
+  ): OrderEtaMessage | null {
+    if (
+      !ETA_STATUSES.includes(order.status as OrderStatus) ||
+      order.delivery_latitude == null ||
+      order.delivery_longitude == null
+    ) {
+      return null;
+    }
+
+    const orderId = Number(order.id);
+    const distanceKm =
+      haversineKm(
+        latitude,
+        longitude,
+        Number(order.delivery_latitude),
+        Number(order.delivery_longitude),
+      ) * this.routeFactor;
+    const rawSeconds = (distanceKm / this.averageSpeedKmh) * 3600;
+
+    // Smooth out GPS noise and stop-start traffic
+    const previous = this.rollingEtaSeconds.get(orderId);
+    const etaSeconds = Math.round(
+      previous === undefined
+        ? rawSeconds
+        : previous + ETA_SMOOTHING * (rawSeconds - previous),
+    );
+    this.rollingEtaSeconds.set(orderId, etaSeconds);
+
+    return {
+      orderId,
+      distanceKm: Number(distanceKm.toFixed(2)),
+      etaSeconds,
+      estimatedArrival: new Date(Date.now() + etaSeconds * 1000).toISOString(),
+    };
+  }
+}
@@ -1,10 +1,66 @@
-import { Controller, Post, Get, Put, Body, UseGuards, Param, Query, NotFoundException, BadRequestException } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  Request,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
-import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
 import { Order } from '../models/order.model';
 import { CreateOrderDto } from '../dto/create-order.dto';
-import { OrderStatus, OrderResponse, UpdateOrderStatusDto } from '../dto/order.dto';
+import {
+  OrderStatus,
+  OrderResponse,
+  UpdateOrderStatusDto,
+  RateOrderDto,
+} from '../dto/order.dto';
+import {
+  CancelOrderDto,
+  OrderCancellationResponse,
+} from '../dto/cancel-order.dto';
+import {
+  FailedTripResolution,
+  ReportFailedTripDto,
+  ResolveFailedTripDto,
+} from '../dto/failed-trip.dto';
+import { DispatchGateway } from '../websockets/dispatch.gateway';
+import { withoutPickupCode } from './pickup-code';
+import { ScheduledOrdersService } from './scheduled-orders.service';
+import { RescheduleOrderDto } from '../dto/scheduled-order.dto';
+import { DispatchEngineService } from '../dispatch/dispatch-engine.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { OrderTrackingService } from './order-tracking.service';
+import { TrackingTokenService } from '../auth/tracking-token.service';
+import { UsersService } from '../users/users.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+
+// Statuses a rider may set on an order assigned to them
+const RIDER_STATUS_UPDATES = [OrderStatus.IN_TRANSIT, OrderStatus.DELIVERED];
+
+// Statuses that carry more than a status change, so they have their own endpoints
+const WORKFLOW_STATUSES: Partial<Record<OrderStatus, string>> = {
+  // Only the kitchen releases an order, against the rider's pickup code
+  [OrderStatus.PICKED_UP]: 'POST /kitchen/orders/:id/handoff',
+  [OrderStatus.CANCELLED]: 'POST /orders/:id/cancel',
+  [OrderStatus.DELIVERY_FAILED]: 'POST /orders/:id/failed-trip',
+  [OrderStatus.RETURNED]: 'POST /orders/:id/failed-trip/resolve',
+};
 
 @ApiTags('orders')
 @ApiBearerAuth()
@@ -12,75 +68,276 @@ import { OrderStatus, OrderResponse, UpdateOrderStatusDto } from '../dto/order.d
 export class OrdersController {
   constructor(
     private readonly ordersService: OrdersService,
-    private readonly rabbitMQService: RabbitMQService,
-  ) {}
+    private readonly dispatchEngine: DispatchEngineService,
+    private readonly orderTracking: OrderTrackingService,
+    private readonly trackingTokens: TrackingTokenService,
+    private readonly dispatchGateway: DispatchGateway,
+    private readonly scheduledOrders: ScheduledOrdersService,
+    private readonly usersService: UsersService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(OrdersController.name);
+  }
 
   @Post()
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE)
   @ApiOperation({ summary: 'Create a new order' })
-  @ApiResponse({ 
-    status: 201, 
+  @ApiResponse({
+    status: 201,
     description: 'Order created successfully',
     schema: {
       properties: {
         orderId: {
           type: 'number',
           example: 123,
-          description: 'ID of the created order'
-        }
-      }
-    }
+          description: 'ID of the created order',
+        },
+        trackingToken: {
+          type: 'string',
+          description:
+            'Token the customer passes to the subscribeOrder socket event to follow the order',
+        },
+      },
+    },
   })
-  @ApiResponse({ status: 400, description: 'Invalid order data' })
-  async createOrder(@Body() orderData: CreateOrderDto): Promise<{ orderId: number }> {
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid order data, delivery location outside all served zones or delivery window the kitchen cannot serve',
+  })
+  async createOrder(
+    @Body() orderData: CreateOrderDto,
+  ): Promise<{ orderId: number; trackingToken: string }> {
+    let orderId: number;
     try {
-      const orderId = await this.ordersService.createOrder(orderData);
-      return { orderId };
+      orderId = await this.ordersService.createOrder(orderData);
     } catch (error) {
       throw new BadRequestException('Failed to create order: ' + error.message);
     }
+
+    // Offer the committed order to riders without holding up the response;
+    // scheduled orders are dispatched when the scheduler releases them
+    if (!orderData.scheduled) {
+      this.dispatchEngine.startDispatch(orderId).catch((error) => {
+        this.logger.error(
+          `Failed to start dispatch for order ${orderId}`,
+          error.stack,
+          'createOrder',
+        );
+      });
+    }
+
+    return { orderId, trackingToken: this.trackingTokens.issue(orderId) };
   }
 
   @Get()
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
   @ApiOperation({ summary: 'Get all orders with pagination and filtering' })
-  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
-  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 10)' })
-  @ApiQuery({ 
-    name: 'status', 
-    required: false, 
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 10)',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
     enum: OrderStatus,
-    description: 'Filter by order status' 
+    description: 'Filter by order status',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description:
+      'Order code, whole or in part; case, spaces and dashes are ignored',
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'List of orders retrieved successfully',
-    type: [OrderResponse]
+    type: [OrderResponse],
   })
   async getAllOrders(
+    @Request() req,
     @Query('page') page = 1,
     @Query('limit') limit = 10,
     @Query('status') status?: OrderStatus,
+    @Query('search') search?: string,
+  ) {
+    const kitchen = await this.usersService.getKitchenScope(req.user);
+    const result = await this.ordersService.getAllOrdersWithRelated({
+      page,
+      limit,
+      status,
+      search,
+      cokitchenId: kitchen ?? undefined,
+    });
+    return req.user.role === Role.KITCHEN
+      ? { ...result, data: result.data.map(withoutPickupCode) }
+      : result;
+  }
+
+  // Static routes are declared before ':id' so they aren't taken for an order ID
+  @Get('by-code/:code')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  @ApiOperation({ summary: 'Get an order by the code the customer reads out' })
+  @ApiParam({
+    name: 'code',
+    required: true,
+    description: 'Order code, in any case, with or without dashes',
+  })
+  @ApiResponse({ status: 200, type: OrderResponse })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Check character does not match; the code was misheard or mistyped',
+  })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
+  @ApiResponse({ status: 404, description: 'No order with this code' })
+  async getOrderByCode(@Request() req, @Param('code') code: string) {
+    const order = await this.ordersService.getOrderByCode(code);
+    await this.assertKitchenScope(req, order);
+    return this.forCaller(req, order);
+  }
+
+  @Get('scheduled')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  @ApiOperation({
+    summary:
+      'Scheduled orders not yet released to the kitchen, soonest window first',
+  })
+  @ApiQuery({
+    name: 'cokitchenId',
+    type: String,
+    required: false,
+    description: 'Kitchen staff always see their own kitchen',
+  })
+  @ApiQuery({
+    name: 'from',
+    type: String,
+    required: false,
+    description: 'ISO timestamp; windows starting from',
+  })
+  @ApiQuery({
+    name: 'to',
+    type: String,
+    required: false,
+    description: 'ISO timestamp; windows starting until',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming scheduled orders with their window and release time',
+  })
+  async getScheduledOrders(
+    @Request() req,
+    @Query('cokitchenId') cokitchenId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      throw new BadRequestException('from and to must be valid ISO timestamps');
+    }
+
+    return this.scheduledOrders.listUpcoming({
+      cokitchenId:
+        (await this.usersService.getKitchenScope(req.user)) ?? cokitchenId,
+      from: fromDate,
+      to: toDate,
+    });
+  }
+
+  @Put('scheduled/:id')
+  @Roles(Role.CUSTOMER_SERVICE, Role.DISPATCHER)
+  @ApiOperation({ summary: 'Move a scheduled order to a new delivery window' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'The rescheduled order' })
+  @ApiResponse({
+    status: 400,
+    description: 'Window invalid or outside kitchen hours',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order is not scheduled or has already been released',
+  })
+  async rescheduleOrder(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: RescheduleOrderDto,
   ) {
-    return this.ordersService.getAllOrdersWithRelated({ page, limit, status });
+    const actor = { type: req.user.role, id: req.user.userId };
+    return this.scheduledOrders.reschedule(
+      id,
+      {
+        start: new Date(data.delivery_window_start),
+        end: new Date(data.delivery_window_end),
+      },
+      actor,
+    );
+  }
+
+  @Post('scheduled/:id/cancel')
+  @HttpCode(200)
+  @Roles(Role.CUSTOMER_SERVICE, Role.DISPATCHER)
+  @ApiOperation({ summary: 'Cancel a scheduled order before it is released' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, type: OrderCancellationResponse })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order is not scheduled or has already been released',
+  })
+  async cancelScheduledOrder(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: CancelOrderDto,
+  ) {
+    const actor = { type: req.user.role, id: req.user.userId };
+    const { withdrawnOffers, ...result } = await this.ordersService.cancelOrder(
+      id,
+      { category: data.category, reasonCode: data.reason, note: data.note },
+      actor,
+      { upcomingOnly: true },
+    );
+
+    this.dispatchEngine.revokeOffers(id, withdrawnOffers, 'Order cancelled');
+    this.orderTracking.publishStatus(result.order);
+    return result;
   }
 
   @Get(':id')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
   @ApiOperation({ summary: 'Get order by ID' })
   @ApiParam({ name: 'id', required: true, description: 'Order ID' })
   @ApiResponse({ status: 200, type: OrderResponse })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
   @ApiResponse({ status: 404, description: 'Order not found' })
-  async getOrderById(@Param('id') id: number) {
+  async getOrderById(@Request() req, @Param('id') id: number) {
     const order = await this.ordersService.getOrderById(id);
     if (!order) {
       throw new NotFoundException(`Order with ID ${id} not found`);
     }
-    return order;
+    await this.assertKitchenScope(req, order);
+    return this.forCaller(req, order);
   }
 
   @Get(':id/logs')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
   @ApiOperation({ summary: 'Get order logs by order ID' })
   @ApiParam({ name: 'id', required: true, description: 'Order ID' })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Order logs retrieved successfully',
     schema: {
       type: 'array',
@@ -89,61 +346,264 @@ export class OrdersController {
           id: { type: 'number' },
           order_id: { type: 'number' },
           description: { type: 'string' },
-          time: { type: 'string', format: 'date-time' }
-        }
-      }
-    }
+          time: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
   })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
   @ApiResponse({ status: 404, description: 'Order logs not found' })
-  async getOrderLogs(@Param('id') id: number) {
+  async getOrderLogs(@Request() req, @Param('id') id: number) {
     const order = await this.ordersService.getOrderById(id);
     if (!order || !order.logs) {
       throw new NotFoundException(`Logs for order ID ${id} not found`);
     }
+    await this.assertKitchenScope(req, order);
     return order.logs;
   }
 
+  @Get(':id/transitions')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  @ApiOperation({ summary: 'Get order status transition history' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status transitions in chronological order',
+    schema: {
+      type: 'array',
+      items: {
+        properties: {
+          id: { type: 'number' },
+          order_id: { type: 'number' },
+          from_status: { type: 'string', nullable: true },
+          to_status: { type: 'string' },
+          actor_type: { type: 'string' },
+          actor_id: { type: 'string', nullable: true },
+          reason: { type: 'string', nullable: true },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Order belongs to another kitchen' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async getOrderTransitions(@Request() req, @Param('id') id: number) {
+    if (req.user.role === Role.KITCHEN) {
+      await this.assertKitchenScope(
+        req,
+        await this.ordersService.getOrderById(id),
+      );
+    }
+    return this.ordersService.getOrderTransitions(id);
+  }
+
   @Put(':id/status')
+  @Roles(Role.DISPATCHER, Role.KITCHEN, Role.RIDER)
   @ApiOperation({ summary: 'Update order status' })
   @ApiParam({ name: 'id', required: true, description: 'Order ID' })
   @ApiResponse({ status: 200, type: OrderResponse })
   @ApiResponse({ status: 400, description: 'Invalid status update data' })
   @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 403,
+    description:
+      "Riders may only progress their own orders, kitchen staff their own kitchen's",
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Transition not allowed from the current status',
+  })
   async updateOrderStatus(
+    @Request() req,
     @Param('id') id: number,
-    @Body() data: UpdateOrderStatusDto
+    @Body() data: UpdateOrderStatusDto,
   ) {
-    const order = await this.ordersService.updateOrderStatus(id, data.status, data.description);
+    const endpoint = WORKFLOW_STATUSES[data.status];
+    if (endpoint) {
+      throw new BadRequestException(
+        `Use ${endpoint} to set an order to '${data.status}'`,
+      );
+    }
+
+    if (req.user.role === Role.RIDER) {
+      await this.assertRiderCanUpdate(id, Number(req.user.userId), data.status);
+    }
+    if (req.user.role === Role.KITCHEN) {
+      await this.assertKitchenScope(
+        req,
+        await this.ordersService.getOrderById(id),
+      );
+    }
+
+    const actor = { type: req.user.role, id: req.user.userId };
+    const order = await this.ordersService.updateOrderStatus(
+      id,
+      data.status,
+      data.description,
+      actor,
+    );
     if (!order) {
       throw new NotFoundException(`Order with ID ${id} not found`);
     }
-    return order;
+    this.orderTracking.publishStatus(order);
+    return this.forCaller(req, order);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(200)
+  @Roles(Role.CUSTOMER_SERVICE, Role.DISPATCHER, Role.KITCHEN, Role.RIDER)
+  @ApiOperation({ summary: 'Cancel an order with a reason' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 200, type: OrderCancellationResponse })
+  @ApiResponse({ status: 400, description: 'Unknown reason for the category' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Role may not cancel for this category, the rider is not assigned, or the order belongs to another kitchen',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order can no longer be cancelled for this category',
+  })
+  async cancelOrder(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: CancelOrderDto,
+  ) {
+    if (req.user.role === Role.KITCHEN) {
+      await this.assertKitchenScope(
+        req,
+        await this.ordersService.getOrderById(id),
+      );
+    }
+
+    const actor = { type: req.user.role, id: req.user.userId };
+    const { withdrawnOffers, ...result } = await this.ordersService.cancelOrder(
+      id,
+      { category: data.category, reasonCode: data.reason, note: data.note },
+      actor,
+    );
+
+    this.dispatchEngine.revokeOffers(id, withdrawnOffers, 'Order cancelled');
+    this.orderTracking.publishStatus(result.order);
+    return result;
+  }
+
+  @Post(':id/failed-trip')
+  @Roles(Role.RIDER, Role.DISPATCHER)
+  @ApiOperation({ summary: 'Report a failed delivery attempt' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({
+    status: 201,
+    description:
+      'The order (now `delivery_failed`) and the recorded failed trip',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Riders may only report their own orders',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order is not out for delivery or has no rider',
+  })
+  async reportFailedTrip(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: ReportFailedTripDto,
+  ) {
+    const actor = { type: req.user.role, id: req.user.userId };
+    const result = await this.ordersService.reportFailedTrip(id, data, actor);
+
+    this.dispatchGateway.broadcastFailedTripReported(result.failedTrip);
+    this.orderTracking.publishStatus(result.order);
+    return result;
+  }
+
+  @Post(':id/failed-trip/resolve')
+  @HttpCode(200)
+  @Roles(Role.DISPATCHER)
+  @ApiOperation({
+    summary: 'Decide what happens after a failed delivery attempt',
+  })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The order and the resolved failed trip',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order has no unresolved failed trip',
+  })
+  async resolveFailedTrip(
+    @Request() req,
+    @Param('id') id: number,
+    @Body() data: ResolveFailedTripDto,
+  ) {
+    const actor = { type: req.user.role, id: req.user.userId };
+    const result = await this.ordersService.resolveFailedTrip(
+      id,
+      data.action,
+      data.note,
+      actor,
+    );
+
+    if (data.action === FailedTripResolution.REASSIGN) {
+      this.dispatchEngine.startDispatch(id).catch((error) => {
+        this.logger.error(
+          `Failed to restart dispatch for order ${id}`,
+          error.stack,
+          'resolveFailedTrip',
+        );
+      });
+    }
+    this.dispatchGateway.notifyFailedTripResolved(result.failedTrip);
+    this.orderTracking.publishStatus(result.order);
+    return result;
+  }
+
+  @Post(':id/rating')
+  @Roles(Role.CUSTOMER_SERVICE)
+  @ApiOperation({ summary: 'Rate a delivered order' })
+  @ApiParam({ name: 'id', required: true, description: 'Order ID' })
+  @ApiResponse({ status: 201, type: OrderResponse })
+  @ApiResponse({
+    status: 400,
+    description: 'Order has not been delivered or rating is out of range',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 409, description: 'Order has already been rated' })
+  async rateOrder(@Param('id') id: number, @Body() data: RateOrderDto) {
+    return this.ordersService.rateOrder(id, data.rating, data.comment);
   }
 
   @Get('stats/most-bought')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE)
   @ApiOperation({ summary: 'Get most frequently ordered meal in a date range' })
-  @ApiQuery({ 
-    name: 'startDate', 
-    required: false, 
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
     type: String,
-    description: 'Start date in ISO format (YYYY-MM-DD)'
+    description: 'Start date in ISO format (YYYY-MM-DD)',
   })
-  @ApiQuery({ 
-    name: 'endDate', 
-    required: false, 
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
     type: String,
-    description: 'End date in ISO format (YYYY-MM-DD)'
+    description: 'End date in ISO format (YYYY-MM-DD)',
   })
-  @ApiResponse({ 
+  @ApiResponse({
     status: 200,
     description: 'Most bought meal statistics',
     schema: {
       properties: {
         meal_id: { type: 'number' },
         meal_name: { type: 'string' },
-        total_orders: { type: 'number' }
-      }
-    }
+        total_orders: { type: 'number' },
+      },
+    },
   })
   async getMostBoughtMeal(
     @Query('startDate') startDate?: string,
@@ -153,20 +613,21 @@ export class OrdersController {
   }
 
   @Get('stats/daily')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE)
   @ApiOperation({ summary: 'Get daily order statistics in a date range' })
-  @ApiQuery({ 
-    name: 'startDate', 
-    required: false, 
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
     type: String,
-    description: 'Start date in ISO format (YYYY-MM-DD)'
+    description: 'Start date in ISO format (YYYY-MM-DD)',
   })
-  @ApiQuery({ 
-    name: 'endDate', 
-    required: false, 
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
     type: String,
-    description: 'End date in ISO format (YYYY-MM-DD)'
+    description: 'End date in ISO format (YYYY-MM-DD)',
   })
-  @ApiResponse({ 
+  @ApiResponse({
     status: 200,
     description: 'Daily order statistics',
     schema: {
@@ -175,10 +636,10 @@ export class OrdersController {
         properties: {
           date: { type: 'string', format: 'date' },
           total_orders: { type: 'number' },
-          total_amount: { type: 'number' }
-        }
-      }
-    }
+          total_amount: { type: 'number' },
+        },
+      },
+    },
   })
   async getDailyOrderStats(
     @Query('startDate') startDate?: string,
@@ -187,20 +648,94 @@ export class OrdersController {
     return this.ordersService.getDailyOrderStats(startDate, endDate);
   }
 
+  @Get('stats/failed-trips')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE)
+  @ApiOperation({
+    summary: 'Failed-trip rates per rider and per delivery zone',
+  })
+  @ApiQuery({
+    name: 'from',
+    type: String,
+    required: false,
+    description: 'ISO timestamp; defaults to all time',
+  })
+  @ApiQuery({
+    name: 'to',
+    type: String,
+    required: false,
+    description: 'ISO timestamp; defaults to now',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`byRider` and `byZone` rows with failedTrips, attempts and failedTripRate, worst first',
+  })
+  async getFailedTripStats(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      throw new BadRequestException('from and to must be valid ISO timestamps');
+    }
+
+    return this.ordersService.getFailedTripStats({
+      from: fromDate,
+      to: toDate,
+    });
+  }
+
   @Put(':id/assign-rider')
+  @Roles(Role.DISPATCHER)
   @ApiOperation({ summary: 'Assign a rider to an order' })
   @ApiParam({ name: 'id', required: true, description: 'Order ID' })
   @ApiResponse({ status: 200, type: OrderResponse })
   @ApiResponse({ status: 400, description: 'Invalid rider assignment data' })
   @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Order already has a rider or is no longer pending or accepted',
+  })
   async assignRider(
     @Param('id') orderId: number,
-    @Body() data: { riderId: number }
+    @Body() data: { riderId: number },
   ) {
-    const order = await this.ordersService.assignRider(orderId, data.riderId);
-    if (!order) {
-      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    return this.dispatchEngine.assignManually(orderId, data.riderId);
+  }
+
+  // Riders may only progress their own orders through the delivery steps
+  private async assertRiderCanUpdate(
+    orderId: number,
+    riderId: number,
+    status: OrderStatus,
+  ) {
+    if (!RIDER_STATUS_UPDATES.includes(status)) {
+      throw new ForbiddenException(`Riders cannot set orders to '${status}'`);
+    }
+
+    const order = await this.ordersService.getOrderById(orderId);
+    if (Number(order.rider_id) !== riderId) {
+      throw new ForbiddenException('Order is not assigned to you');
+    }
+  }
+
+  // Kitchen staff may only see and act on their own kitchen's orders
+  private async assertKitchenScope(req, order: Order) {
+    const kitchen = await this.usersService.getKitchenScope(req.user);
+    if (kitchen != null && order.calculated_order?.cokitchen_id !== kitchen) {
+      throw new ForbiddenException(
+        `Order ${order.id} belongs to another kitchen`,
+      );
     }
-    return order;
+  }
+
+  // Kitchen staff check the pickup code, so they are never shown it
+  private forCaller(req, order: Order) {
+    return req.user.role === Role.KITCHEN ? withoutPickupCode(order) : order;
   }
 }
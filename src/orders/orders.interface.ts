@@ -1,8 +1,18 @@
 export interface OrdersServiceInterface {
   createOrder(orderData: any): Promise<number>;
   getOrderById(orderId: number): Promise<any>;
-  getAllOrdersWithRelated(options: { page: number; limit: number; status?: string }): Promise<any>;
-  updateOrderStatus(orderId: number, status: string, description?: string): Promise<any>;
+  getOrderByCode(code: string): Promise<any>;
+  getAllOrdersWithRelated(options: {
+    page: number;
+    limit: number;
+    status?: string;
+    search?: string;
+  }): Promise<any>;
+  updateOrderStatus(
+    orderId: number,
+    status: string,
+    description?: string,
+  ): Promise<any>;
   assignRider(orderId: number, riderId: string): Promise<any>;
 }
 
@@ -1,168 +1,337 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Knex } from 'knex';
 import { DatabaseService } from '../config/database.service';
 import { Order } from '../models/order.model';
-import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
-import { RidersService } from '../riders/riders.service';
-import { DispatchGateway } from '../websockets/dispatch.gateway';
-import { OrderForBroadcast } from '../interfaces/websocket-messages';
+import { OrderStatusTransition } from '../models/order-status-transition.model';
+import { OrderCancellation } from '../models/order-cancellation.model';
+import { FailedTrip } from '../models/failed-trip.model';
+import { DispatchOffer } from '../models/dispatch-offer.model';
+import { OutboxService } from '../outbox/outbox.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { ZonesService } from '../zones/zones.service';
+import { RiderLocationHistoryService } from '../riders/rider-location-history.service';
+import { lockOrderDispatch, withdrawOffers } from '../dispatch/dispatch-offers';
+import { ScheduledOrdersService } from './scheduled-orders.service';
+import { OrderCodesService } from './order-codes.service';
 import { CreateOrderDto } from '../dto/create-order.dto';
 import { OrderStatus } from '../dto/order.dto';
+import { FailedTripReason, FailedTripResolution } from '../dto/failed-trip.dto';
+import { Role } from '../auth/roles';
+import {
+  SYSTEM_ACTOR,
+  TransitionActor,
+  assertTransition,
+  getStatusSideEffects,
+} from './order-status.machine';
+import {
+  CancellationCategory,
+  assertCanCancel,
+  getCancellationFee,
+} from './order-cancellation.policy';
+import { generatePickupCode, pickupCodeMatches } from './pickup-code';
+import { compactOrderCode, parseOrderCode } from './order-code';
+
+export interface CancelOrderInput {
+  category: CancellationCategory;
+  reasonCode: string;
+  note?: string;
+}
+
+export interface KitchenPlacementInput {
+  boxNumber?: string;
+  shelfId?: string;
+}
+
+export interface ReportFailedTripInput {
+  reason: FailedTripReason;
+  note?: string;
+  photoRef?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Riders can only be assigned before the order leaves the kitchen
+const ASSIGNABLE_STATUSES: string[] = [
+  OrderStatus.PENDING,
+  OrderStatus.ACCEPTED,
+];
+
+// Where each resolution takes a failed order next
+const RESOLUTION_STATUS: Record<FailedTripResolution, OrderStatus> = {
+  [FailedTripResolution.REATTEMPT]: OrderStatus.IN_TRANSIT,
+  [FailedTripResolution.REASSIGN]: OrderStatus.ACCEPTED,
+  [FailedTripResolution.RETURN_TO_KITCHEN]: OrderStatus.RETURNED,
+};
+
+// orders.failed_trip_details: the latest failed trip without its order ID
+const toFailedTripDetails = (failedTrip: FailedTrip) => {
+  const details: Partial<FailedTrip> = { ...failedTrip };
+  delete details.order_id;
+  return JSON.stringify(details);
+};
 
 @Injectable()
 export class OrdersService {
+  // Share of the order total charged when a customer cancels after the kitchen accepted
+  private readonly cancellationFeePercent: number;
+
   constructor(
     private readonly db: DatabaseService,
-    private readonly rabbitMQService: RabbitMQService,
-    private readonly ridersService: RidersService,
-    private readonly dispatchGateway: DispatchGateway,
-  ) {}
+    private readonly outbox: OutboxService,
+    private readonly zonesService: ZonesService,
+    private readonly locationHistory: RiderLocationHistoryService,
+    private readonly logger: CustomLogger,
+    private readonly metrics: MetricsService,
+    private readonly configService: ConfigService,
+    private readonly scheduledOrders: ScheduledOrdersService,
+    private readonly orderCodes: OrderCodesService,
+  ) {
+    this.logger.setContext(OrdersService.name);
+    this.cancellationFeePercent = parseFloat(
+      this.configService.get('CANCELLATION_FEE_PERCENT', '50'),
+    );
+  }
+
+  // Metrics must not count work that rolls back
+  private afterCommit(trx: Knex.Transaction, record: () => void) {
+    trx.executionPromise.then(record, () => undefined);
+  }
 
   async createOrder(orderData: CreateOrderDto): Promise<number> {
     return this.db.knex.transaction(async (trx) => {
+      // Only accept orders inside a served delivery zone
+      const zone = await this.zonesService.findZoneForPoint(
+        orderData.calculated_order.lat,
+        orderData.calculated_order.lng,
+        trx,
+      );
+      if (!zone) {
+        throw new BadRequestException(
+          `Delivery location (${orderData.calculated_order.lat}, ${orderData.calculated_order.lng}) is outside all served zones`,
+        );
+      }
+
+      // Scheduled orders must book a window the kitchen is open for
+      const {
+        delivery_window_start: windowStart,
+        delivery_window_end: windowEnd,
+      } = orderData;
+      if (orderData.scheduled && (!windowStart || !windowEnd)) {
+        throw new BadRequestException(
+          'Scheduled orders need a delivery_window_start and delivery_window_end',
+        );
+      }
+      if (!orderData.scheduled && (windowStart || windowEnd)) {
+        throw new BadRequestException(
+          'A delivery window can only be given for scheduled orders',
+        );
+      }
+      const schedule =
+        orderData.scheduled && windowStart && windowEnd
+          ? await this.scheduledOrders.planDelivery(
+              zone.cokitchen_id,
+              { start: new Date(windowStart), end: new Date(windowEnd) },
+              trx,
+            )
+          : {};
+
       // First create the calculated order
-      const [calculatedOrderId] = await trx('calculated_orders').insert({
-        total_amount: orderData.calculated_order.total_amount.toString(),
-        free_delivery: orderData.calculated_order.free_delivery,
-        delivery_fee: orderData.calculated_order.delivery_fee.toString(),
-        service_charge: orderData.calculated_order.service_charge.toString(),
-        amount: orderData.calculated_order.amount,
-        lat: orderData.calculated_order.lat.toString(),
-        lng: orderData.calculated_order.lng.toString(),
-        address_details: orderData.calculated_order.address_details,
-        meals: [],
-        internal_profit: 0,
-        cokitchen_polygon_id: '',
-        user_id: orderData.user_id,
-        cokitchen_id: '',
-        pickup: false,
-        prev_price: '0',
-        created_at: trx.fn.now(),
-        updated_at: trx.fn.now()
-      }).returning('id');
+      const [{ id: calculatedOrderId }] = await trx('calculated_orders')
+        .insert({
+          total_amount: orderData.calculated_order.total_amount.toString(),
+          free_delivery: orderData.calculated_order.free_delivery,
+          delivery_fee: orderData.calculated_order.delivery_fee.toString(),
+          service_charge: orderData.calculated_order.service_charge.toString(),
+          amount: orderData.calculated_order.amount,
+          lat: orderData.calculated_order.lat.toString(),
+          lng: orderData.calculated_order.lng.toString(),
+          address_details: orderData.calculated_order.address_details,
+          meals: [],
+          internal_profit: 0,
+          cokitchen_polygon_id: zone.id.toString(),
+          user_id: orderData.user_id,
+          cokitchen_id: zone.cokitchen_id,
+          pickup: false,
+          prev_price: '0',
+          created_at: trx.fn.now(),
+          updated_at: trx.fn.now(),
+        })
+        .returning('id');
 
       // Create the order
-      const [orderId] = await trx('orders').insert({
-        user_id: orderData.user_id,
-        order_type_id: orderData.order_type_id,
-        calculated_order_id: calculatedOrderId,
-        scheduled: orderData.scheduled,
-        created_at: trx.fn.now(),
-        updated_at: trx.fn.now()
-      }).returning('id');
-
-      // Create initial log
-      await trx('logs').insert({
+      const [{ id: orderId }] = await trx('orders')
+        .insert({
+          order_code: await this.orderCodes.nextCode(
+            trx,
+            orderData.order_type_id,
+          ),
+          user_id: orderData.user_id,
+          order_type_id: orderData.order_type_id,
+          calculated_order_id: calculatedOrderId,
+          scheduled: orderData.scheduled,
+          ...schedule,
+          delivery_latitude: orderData.calculated_order.lat,
+          delivery_longitude: orderData.calculated_order.lng,
+          created_at: trx.fn.now(),
+          updated_at: trx.fn.now(),
+        })
+        .returning('id');
+
+      // Open the status history with the initial pending state
+      await trx('order_status_transitions').insert({
         order_id: orderId,
-        description: 'Order received',
-        time: trx.fn.now()
+        from_status: null,
+        to_status: OrderStatus.PENDING,
+        actor_type: SYSTEM_ACTOR.type,
+        reason: 'Order received',
       });
 
       // Create initial order total amount history
       await trx('order_total_amount_history').insert({
         order_id: orderId,
         total_amount: orderData.calculated_order.total_amount,
-        time: trx.fn.now()
+        time: trx.fn.now(),
       });
 
-      // Find and notify nearby riders if coordinates are available
-      // Convert lat/lng to string in DB but use as numbers for finding nearby riders
-      const lat = Number(orderData.calculated_order.lat);
-      const lng = Number(orderData.calculated_order.lng);
-      
-      if (!isNaN(lat) && !isNaN(lng)) {
-        const nearbyRiders = await this.ridersService.findNearbyAvailableRiders(
-          lat,
-          lng
-        );
-
-          // Get complete order details
-          const order = await this.getOrderById(orderId);
-          
-          if (!order.calculated_order) {
-            throw new Error('Order does not have required calculated order details');
-          }
-
-          // Prepare order data for WebSocket broadcast
-          const orderForBroadcast = {
-            id: order.id.toString(),
-            order_code: order.order_code,
-            calculated_order: {
-              total_amount: order.calculated_order.total_amount.toString(),
-              delivery_fee: order.calculated_order.delivery_fee.toString(),
-              service_charge: order.calculated_order.service_charge.toString(),
-              address_details: order.calculated_order.address_details,
-              lat: order.calculated_order.lat,
-              lng: order.calculated_order.lng
-            }
-          };
-
-          // Notify each nearby rider through WebSocket with distance information
-          await Promise.all(nearbyRiders.map(rider => 
-            this.dispatchGateway.sendOrderToRider(rider.id, {
-              ...orderForBroadcast,
-              distance: rider.distance ?? 0
-            })
-          ));
-        }
-
-      // Publish complete order to RabbitMQ
-      const createdOrder = await this.getOrderById(orderId);
-      await this.rabbitMQService.publishOrderCreated(createdOrder);
+      // Queue the event; the outbox relay publishes it once this commits
+      const createdOrder = await this.getOrderById(orderId, trx);
+      await this.outbox.orderCreated(trx, createdOrder);
+      this.afterCommit(trx, () =>
+        this.metrics.recordOrderCreated(createdOrder.order_type_name),
+      );
 
       return orderId;
     });
   }
 
-  async getOrderById(orderId: number): Promise<Order> {
-    const order = await this.db.knex('orders')
+  async getOrderById(orderId: number, trx?: Knex.Transaction): Promise<Order> {
+    const db = trx ?? this.db.knex;
+    const order = await db('orders')
       .select(
         'orders.*',
         'calculated_orders.total_amount',
         'calculated_orders.meals',
         'calculated_orders.delivery_fee',
         'calculated_orders.service_charge',
-        'order_types.name as order_type_name'
+        'order_types.name as order_type_name',
+      )
+      .leftJoin(
+        'calculated_orders',
+        'orders.calculated_order_id',
+        'calculated_orders.id',
       )
-      .leftJoin('calculated_orders', 'orders.calculated_order_id', 'calculated_orders.id')
       .leftJoin('order_types', 'orders.order_type_id', 'order_types.id')
       .where('orders.id', orderId)
       .first();
-    
+
     if (!order) {
       throw new NotFoundException(`Order with ID ${orderId} not found`);
     }
 
     // Get related data
-    const [logs, amountHistory] = await Promise.all([
-      this.db.knex('logs').where('order_id', orderId).orderBy('time', 'asc'),
-      this.db.knex('order_total_amount_history').where('order_id', orderId).orderBy('time', 'asc')
+    const [calculatedOrder, logs, amountHistory] = await Promise.all([
+      db('calculated_orders').where('id', order.calculated_order_id).first(),
+      db('logs').where('order_id', orderId).orderBy('time', 'asc'),
+      db('order_total_amount_history')
+        .where('order_id', orderId)
+        .orderBy('time', 'asc'),
     ]);
 
     return {
       ...order,
+      calculated_order: calculatedOrder,
       logs,
-      order_total_amount_history: amountHistory
+      order_total_amount_history: amountHistory,
     };
   }
 
-  async getAllOrdersWithRelated(options: { page: number; limit: number; status?: string }): Promise<any> {
-    const query = this.db.knex('orders')
+  /**
+   * Finds an order by the code a customer reads out, in any case or spacing.
+   * A code whose check character doesn't match was misheard, so it is
+   * rejected instead of reported as not found.
+   */
+  async getOrderByCode(input: string): Promise<Order> {
+    const parsed = parseOrderCode(input);
+    if (parsed && !parsed.valid) {
+      throw new BadRequestException({
+        code: 'INVALID_ORDER_CODE',
+        message: `${input} is not a valid order code; check it with the customer`,
+      });
+    }
+
+    // Codes issued before the current format are looked up as given
+    const code = parsed?.code ?? input.trim();
+    const order = await this.db
+      .knex('orders')
+      .where('order_code', code)
+      .first('id');
+    if (!order) {
+      throw new NotFoundException(`Order with code ${code} not found`);
+    }
+    return this.getOrderById(order.id);
+  }
+
+  async getAllOrdersWithRelated(options: {
+    page: number;
+    limit: number;
+    status?: string;
+    search?: string;
+    cokitchenId?: string;
+  }): Promise<any> {
+    const query = this.db
+      .knex('orders')
       .select(
         'orders.*',
         'calculated_orders.total_amount',
         'calculated_orders.meals',
-        'order_types.name as order_type_name'
+        'order_types.name as order_type_name',
+      )
+      .leftJoin(
+        'calculated_orders',
+        'orders.calculated_order_id',
+        'calculated_orders.id',
       )
-      .leftJoin('calculated_orders', 'orders.calculated_order_id', 'calculated_orders.id')
       .leftJoin('order_types', 'orders.order_type_id', 'order_types.id');
 
     if (options.status) {
       query.where('orders.status', options.status);
     }
+    if (options.cokitchenId) {
+      query.where('calculated_orders.cokitchen_id', options.cokitchenId);
+    }
+    if (options.search) {
+      // A complete code is matched exactly; anything else as part of a code,
+      // ignoring the dashes callers leave out
+      const parsed = parseOrderCode(options.search);
+      if (parsed?.valid) {
+        query.where('orders.order_code', parsed.code);
+      } else {
+        const term = compactOrderCode(options.search).replace(
+          /[\\%_]/g,
+          '\\$&',
+        );
+        query.whereRaw(`replace(orders.order_code, '-', '') ILIKE ?`, [
+          `%${term}%`,
+        ]);
+      }
+    }
 
     const offset = (options.page - 1) * options.limit;
-    const totalCountResult = await query.clone().clearSelect().clearOrder().count('* as count').first();
-    
+    const totalCountResult = await query
+      .clone()
+      .clearSelect()
+      .clearOrder()
+      .count('* as count')
+      .first();
+
     const orders = await query
       .offset(offset)
       .limit(options.limit)
@@ -172,19 +341,25 @@ export class OrdersService {
     const ordersWithRelated = await Promise.all(
       orders.map(async (order) => {
         const [logs, amountHistory] = await Promise.all([
-          this.db.knex('logs').where('order_id', order.id).orderBy('time', 'asc'),
-          this.db.knex('order_total_amount_history').where('order_id', order.id).orderBy('time', 'asc')
+          this.db
+            .knex('logs')
+            .where('order_id', order.id)
+            .orderBy('time', 'asc'),
+          this.db
+            .knex('order_total_amount_history')
+            .where('order_id', order.id)
+            .orderBy('time', 'asc'),
         ]);
 
         return {
           ...order,
           logs,
-          order_total_amount_history: amountHistory
+          order_total_amount_history: amountHistory,
         };
-      })
+      }),
     );
 
-    const total = parseInt(totalCountResult?.count as string || '0');
+    const total = parseInt((totalCountResult?.count as string) || '0');
 
     return {
       data: ordersWithRelated,
@@ -192,13 +367,14 @@ export class OrdersService {
         total,
         page: options.page,
         limit: options.limit,
-        totalPages: Math.ceil(total / options.limit)
-      }
+        totalPages: Math.ceil(total / options.limit),
+      },
     };
   }
 
   async getOrderLogs(orderId: number): Promise<any[]> {
-    const logs = await this.db.knex('logs')
+    const logs = await this.db
+      .knex('logs')
       .where('order_id', orderId)
       .orderBy('time', 'asc');
 
@@ -209,36 +385,767 @@ export class OrdersService {
     return logs;
   }
 
-  async updateOrderStatus(orderId: number, status: string, description?: string): Promise<Order> {
+  async updateOrderStatus(
+    orderId: number,
+    status: OrderStatus,
+    description?: string,
+    actor: TransitionActor = SYSTEM_ACTOR,
+  ): Promise<Order> {
+    return this.db.knex.transaction(async (trx) => {
+      const current = await this.lockOrder(trx, orderId);
+      if (current.status === OrderStatus.DELIVERY_FAILED) {
+        throw new ConflictException({
+          code: 'FAILED_TRIP_UNRESOLVED',
+          message: `Resolve the failed trip on order ${orderId} before changing its status`,
+        });
+      }
+      const updatedOrder = await this.applyTransition(
+        trx,
+        current,
+        status,
+        description,
+        actor,
+      );
+
+      const deliveredAt =
+        status === OrderStatus.DELIVERED ? updatedOrder.completed_time : null;
+      if (deliveredAt) {
+        this.afterCommit(trx, () =>
+          this.metrics.recordOrderDelivered(
+            new Date(updatedOrder.created_at),
+            new Date(deliveredAt),
+          ),
+        );
+      }
+
+      return updatedOrder;
+    });
+  }
+
+  /**
+   * Cancels the order for a reason in the cancellation taxonomy, if the
+   * caller may do so at its current status. The rider is released (the
+   * order leaves their current orders), any fee is added to the order's
+   * amount history and order.cancelled is queued alongside order.updated.
+   *
+   * With `upcomingOnly`, only a scheduled order the scheduler hasn't released
+   * yet is cancelled; the check runs under the row lock, so a release can't
+   * slip in between.
+   */
+  async cancelOrder(
+    orderId: number,
+    input: CancelOrderInput,
+    actor: TransitionActor,
+    options: { upcomingOnly?: boolean } = {},
+  ): Promise<{
+    order: Order;
+    cancellation: OrderCancellation;
+    withdrawnOffers: DispatchOffer[];
+  }> {
+    return this.db.knex.transaction(async (trx) => {
+      // Offers are withdrawn below, so serialise with offer acceptance first
+      await lockOrderDispatch(trx, orderId);
+      const current = await this.lockOrder(trx, orderId);
+      if (options.upcomingOnly) {
+        await this.scheduledOrders.assertUpcoming(orderId, trx);
+      }
+
+      assertCanCancel({
+        category: input.category,
+        reasonCode: input.reasonCode,
+        status: current.status,
+        role: actor.type,
+        actorId: actor.id,
+        riderId: current.rider_id,
+      });
+
+      const calculatedOrder = await trx('calculated_orders')
+        .where('id', current.calculated_order_id)
+        .first('total_amount');
+      const fee = getCancellationFee(
+        input.category,
+        current.status,
+        Number(calculatedOrder?.total_amount ?? 0),
+        this.cancellationFeePercent,
+      );
+
+      const description = `Cancelled (${input.category}: ${input.reasonCode})${input.note ? ` - ${input.note}` : ''}`;
+      await this.applyTransition(
+        trx,
+        current,
+        OrderStatus.CANCELLED,
+        description,
+        actor,
+        {
+          rider_id: null,
+          rider_assigned: false,
+          pickup_code: null,
+          ...(input.category === CancellationCategory.KITCHEN
+            ? { kitchen_cancelled: true }
+            : {}),
+        },
+      );
+
+      const [cancellation] = await trx('order_cancellations')
+        .insert({
+          order_id: orderId,
+          category: input.category,
+          reason_code: input.reasonCode,
+          note: input.note ?? null,
+          previous_status: current.status,
+          rider_id: current.rider_id,
+          fee,
+          actor_type: actor.type,
+          actor_id: actor.id != null ? String(actor.id) : null,
+        })
+        .returning('*');
+
+      // What the customer now owes: the fee, or nothing
+      await trx('order_total_amount_history').insert({
+        order_id: orderId,
+        total_amount: fee,
+        time: trx.fn.now(),
+      });
+
+      // In the same transaction, so no rider can accept the order once it is cancelled
+      const withdrawnOffers = await withdrawOffers(
+        trx,
+        orderId,
+        'Order cancelled',
+      );
+
+      await this.outbox.orderCancelled(trx, cancellation);
+      this.afterCommit(trx, () =>
+        this.metrics.recordOrderCancelled(input.category),
+      );
+
+      return {
+        order: await this.getOrderById(orderId, trx),
+        cancellation,
+        withdrawnOffers,
+      };
+    });
+  }
+
+  /**
+   * Records a failed delivery attempt by the order's rider and parks the
+   * order in `delivery_failed` until ops resolve it. The rider stays
+   * assigned so the trip can be reattempted.
+   */
+  async reportFailedTrip(
+    orderId: number,
+    input: ReportFailedTripInput,
+    actor: TransitionActor,
+  ): Promise<{ order: Order; failedTrip: FailedTrip }> {
     return this.db.knex.transaction(async (trx) => {
-      // Update order status
+      const current = await this.lockOrder(trx, orderId);
+
+      if (!current.rider_id) {
+        throw new ConflictException(`Order ${orderId} has no rider assigned`);
+      }
+      if (
+        actor.type === Role.RIDER &&
+        String(current.rider_id) !== String(actor.id)
+      ) {
+        throw new ForbiddenException('Order is not assigned to you');
+      }
+      // Checked before the failed trip is recorded
+      assertTransition(current.status, OrderStatus.DELIVERY_FAILED);
+
+      const [failedTrip] = await trx('failed_trips')
+        .insert({
+          order_id: orderId,
+          rider_id: current.rider_id,
+          reason: input.reason,
+          note: input.note ?? null,
+          photo_ref: input.photoRef ?? null,
+          latitude: input.latitude ?? null,
+          longitude: input.longitude ?? null,
+        })
+        .returning('*');
+
+      const description = `Failed trip: ${input.reason}${input.note ? ` - ${input.note}` : ''}`;
+      const order = await this.applyTransition(
+        trx,
+        current,
+        OrderStatus.DELIVERY_FAILED,
+        description,
+        actor,
+        {
+          failed_trip_details: toFailedTripDetails(failedTrip),
+        },
+      );
+
+      return { order, failedTrip };
+    });
+  }
+
+  /**
+   * Applies ops' decision on the order's open failed trip: `reattempt` sends
+   * the same rider back out, `reassign` releases them and returns the order
+   * to the kitchen shelf for dispatch, `return_to_kitchen` ends the order.
+   */
+  async resolveFailedTrip(
+    orderId: number,
+    action: FailedTripResolution,
+    note: string | undefined,
+    actor: TransitionActor,
+  ): Promise<{ order: Order; failedTrip: FailedTrip }> {
+    return this.db.knex.transaction(async (trx) => {
+      const current = await this.lockOrder(trx, orderId);
+
+      const open: FailedTrip | undefined =
+        current.status === OrderStatus.DELIVERY_FAILED
+          ? await trx('failed_trips')
+              .where('order_id', orderId)
+              .whereNull('resolution')
+              .orderBy('reported_at', 'desc')
+              .first()
+          : undefined;
+      if (!open) {
+        throw new ConflictException({
+          code: 'NO_FAILED_TRIP',
+          message: `Order ${orderId} has no unresolved failed trip`,
+        });
+      }
+
+      const [failedTrip] = await trx('failed_trips')
+        .where('id', open.id)
+        .update({
+          resolution: action,
+          resolution_note: note ?? null,
+          resolved_by_type: actor.type,
+          resolved_by_id: actor.id != null ? String(actor.id) : null,
+          resolved_at: trx.fn.now(),
+        })
+        .returning('*');
+
+      const description = `Failed trip resolved: ${action}${note ? ` - ${note}` : ''}`;
+      const order = await this.applyTransition(
+        trx,
+        current,
+        RESOLUTION_STATUS[action],
+        description,
+        actor,
+        {
+          failed_trip_details: toFailedTripDetails(failedTrip),
+          // The next rider's pickup is recorded afresh
+          ...(action === FailedTripResolution.REASSIGN
+            ? {
+                rider_id: null,
+                rider_assigned: false,
+                pickup_code: null,
+                kitchen_verified_time: null,
+                pickup_latitude: null,
+                pickup_longitude: null,
+              }
+            : {}),
+        },
+      );
+
+      return { order, failedTrip };
+    });
+  }
+
+  /**
+   * Orders a kitchen is working on, oldest first: `pending` ones waiting to
+   * be accepted and `accepted` ones being prepared or waiting for their
+   * rider. Pickup codes are left out, as are scheduled orders not yet released.
+   */
+  async getKitchenQueue(
+    cokitchenId: string,
+    status?: OrderStatus,
+  ): Promise<any[]> {
+    return (
+      this.db
+        .knex('orders')
+        .join(
+          'calculated_orders',
+          'orders.calculated_order_id',
+          'calculated_orders.id',
+        )
+        .leftJoin('riders', 'orders.rider_id', 'riders.id')
+        .select(
+          'orders.id',
+          'orders.order_code',
+          'orders.status',
+          'orders.kitchen_accepted',
+          'orders.kitchen_accepted_time',
+          'orders.kitchen_prepared',
+          'orders.kitchen_completed_time',
+          'orders.box_number',
+          'orders.shelf_id',
+          'orders.rider_id',
+          'orders.rider_assigned',
+          'riders.name as rider_name',
+          'orders.scheduled',
+          'orders.scheduled_delivery_date',
+          'orders.scheduled_delivery_time',
+          'orders.delivery_window_start',
+          'orders.delivery_window_end',
+          'orders.created_at',
+          'calculated_orders.meals',
+        )
+        .where('calculated_orders.cokitchen_id', cokitchenId)
+        .whereIn(
+          'orders.status',
+          status ? [status] : [OrderStatus.PENDING, OrderStatus.ACCEPTED],
+        )
+        // Scheduled orders join the queue once released
+        .where((query) =>
+          query
+            .where('orders.scheduled', false)
+            .orWhereNotNull('orders.released_at'),
+        )
+        .orderBy('orders.created_at', 'asc')
+    );
+  }
+
+  /** The kitchen accepts a pending order and starts on it. */
+  async acceptKitchenOrder(
+    orderId: number,
+    actor: TransitionActor,
+    cokitchenId: string | null,
+  ): Promise<Order> {
+    return this.db.knex.transaction(async (trx) => {
+      const current = await this.lockKitchenOrder(trx, orderId, cokitchenId);
+      if (current.scheduled && !current.released_at) {
+        throw new ConflictException({
+          code: 'ORDER_NOT_RELEASED',
+          message: `Order ${orderId} is scheduled and has not been released to the kitchen yet`,
+        });
+      }
+      return this.applyTransition(
+        trx,
+        current,
+        OrderStatus.ACCEPTED,
+        'Accepted by the kitchen',
+        actor,
+        {
+          shop_accepted: true,
+        },
+      );
+    });
+  }
+
+  async markKitchenOrderPrepared(
+    orderId: number,
+    actor: TransitionActor,
+    cokitchenId: string | null,
+  ): Promise<Order> {
+    return this.db.knex.transaction(async (trx) => {
+      const current = await this.lockKitchenOrder(trx, orderId, cokitchenId);
+      assertInKitchen(current);
+      if (current.kitchen_prepared) {
+        throw new ConflictException(`Order ${orderId} is already prepared`);
+      }
+
+      await trx('orders').where('id', orderId).update({
+        kitchen_prepared: true,
+        shop_prepared: true,
+        kitchen_completed_time: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+      await this.logKitchenStep(trx, orderId, 'Prepared by the kitchen', actor);
+
+      return this.getOrderById(orderId, trx);
+    });
+  }
+
+  /** Records the box the order is packed in and the shelf it waits on. */
+  async setKitchenOrderPlacement(
+    orderId: number,
+    placement: KitchenPlacementInput,
+    actor: TransitionActor,
+    cokitchenId: string | null,
+  ): Promise<Order> {
+    if (!placement.boxNumber && !placement.shelfId) {
+      throw new BadRequestException('Provide a boxNumber, a shelfId or both');
+    }
+
+    return this.db.knex.transaction(async (trx) => {
+      const current = await this.lockKitchenOrder(trx, orderId, cokitchenId);
+      assertInKitchen(current);
+
       await trx('orders')
         .where('id', orderId)
         .update({
-          status,
-          updated_at: trx.fn.now()
+          ...(placement.boxNumber ? { box_number: placement.boxNumber } : {}),
+          ...(placement.shelfId ? { shelf_id: placement.shelfId } : {}),
+          updated_at: trx.fn.now(),
         });
 
-      // Create log entry
-      if (description) {
-        await trx('logs').insert({
-          order_id: orderId,
-          description,
-          time: trx.fn.now()
+      const where = [
+        placement.boxNumber && `box ${placement.boxNumber}`,
+        placement.shelfId && `shelf ${placement.shelfId}`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      await this.logKitchenStep(trx, orderId, `Placed in ${where}`, actor);
+
+      return this.getOrderById(orderId, trx);
+    });
+  }
+
+  /**
+   * Hands a prepared order to its assigned rider once the kitchen has checked
+   * the rider's pickup code, moving it to `picked_up`.
+   */
+  async handOffKitchenOrder(
+    orderId: number,
+    pickupCode: string,
+    actor: TransitionActor,
+    cokitchenId: string | null,
+  ): Promise<Order> {
+    return this.db.knex.transaction(async (trx) => {
+      const current = await this.lockKitchenOrder(trx, orderId, cokitchenId);
+      assertInKitchen(current);
+      if (!current.kitchen_prepared) {
+        throw new ConflictException({
+          code: 'ORDER_NOT_PREPARED',
+          message: `Order ${orderId} must be prepared before it is handed off`,
+        });
+      }
+      if (!current.rider_id) {
+        throw new ConflictException({
+          code: 'NO_RIDER_ASSIGNED',
+          message: `Order ${orderId} has no rider to hand it to`,
+        });
+      }
+      if (!pickupCodeMatches(current.pickup_code, pickupCode)) {
+        this.logger.warn(
+          `Rejected pickup code for order ${orderId} from ${actor.type} ${actor.id ?? ''}`.trim(),
+        );
+        throw new BadRequestException({
+          code: 'INVALID_PICKUP_CODE',
+          message: 'Pickup code does not match the one issued to the rider',
         });
       }
 
-      const updatedOrder = await this.getOrderById(orderId);
-      
-      // Publish order update event to RabbitMQ
-      await this.rabbitMQService.publishOrderUpdated(updatedOrder);
+      return this.applyTransition(
+        trx,
+        current,
+        OrderStatus.PICKED_UP,
+        `Handed to rider ${current.rider_id}, pickup code verified`,
+        actor,
+        { kitchen_verified_time: trx.fn.now() },
+      );
+    });
+  }
 
-      return updatedOrder;
+  // Like lockOrder, but kitchen staff may only touch their own kitchen's orders
+  private async lockKitchenOrder(
+    trx: Knex.Transaction,
+    orderId: number,
+    cokitchenId: string | null,
+  ) {
+    const current = await this.lockOrder(trx, orderId);
+    if (cokitchenId != null) {
+      const calculatedOrder = await trx('calculated_orders')
+        .where('id', current.calculated_order_id)
+        .first('cokitchen_id');
+      if (calculatedOrder?.cokitchen_id !== cokitchenId) {
+        throw new ForbiddenException(
+          `Order ${orderId} belongs to another kitchen`,
+        );
+      }
+    }
+    return current;
+  }
+
+  // Kitchen steps that don't change the status write their timeline entry directly
+  private async logKitchenStep(
+    trx: Knex.Transaction,
+    orderId: number,
+    description: string,
+    actor: TransitionActor,
+  ) {
+    await trx('logs').insert({
+      order_id: orderId,
+      description:
+        actor.id != null
+          ? `${description} (${actor.type} ${actor.id})`
+          : description,
+      time: trx.fn.now(),
     });
   }
 
+  /**
+   * Failed trips against all attempts (deliveries plus failed trips) per
+   * rider and per delivery zone. Deliveries count by completion time and
+   * failed trips by report time.
+   */
+  async getFailedTripStats(range: { from?: Date; to?: Date } = {}) {
+    const inRange = (column: string) => (query: Knex.QueryBuilder) => {
+      if (range.from) {
+        query.where(column, '>=', range.from);
+      }
+      if (range.to) {
+        query.where(column, '<=', range.to);
+      }
+    };
+    const knex = this.db.knex;
+
+    const [failedByRider, deliveredByRider, failedByZone, deliveredByZone] =
+      await Promise.all([
+        knex('failed_trips')
+          .select('rider_id as key')
+          .count('id as count')
+          .modify(inRange('reported_at'))
+          .groupBy('rider_id'),
+        knex('orders')
+          .select('rider_id as key')
+          .count('id as count')
+          .where('completed', true)
+          .whereNotNull('rider_id')
+          .modify(inRange('completed_time'))
+          .groupBy('rider_id'),
+        knex('failed_trips')
+          .join('orders', 'failed_trips.order_id', 'orders.id')
+          .join(
+            'calculated_orders',
+            'orders.calculated_order_id',
+            'calculated_orders.id',
+          )
+          .select('calculated_orders.cokitchen_polygon_id as key')
+          .count('failed_trips.id as count')
+          .modify(inRange('failed_trips.reported_at'))
+          .groupBy('calculated_orders.cokitchen_polygon_id'),
+        knex('orders')
+          .join(
+            'calculated_orders',
+            'orders.calculated_order_id',
+            'calculated_orders.id',
+          )
+          .select('calculated_orders.cokitchen_polygon_id as key')
+          .count('orders.id as count')
+          .where('orders.completed', true)
+          .modify(inRange('orders.completed_time'))
+          .groupBy('calculated_orders.cokitchen_polygon_id'),
+      ]);
+
+    const riderIds = failedByRider.map((row: any) => Number(row.key));
+    const zoneIds = failedByZone
+      .map((row: any) => Number(row.key))
+      .filter((id) => !isNaN(id));
+    const [riders, zones] = await Promise.all([
+      riderIds.length
+        ? knex('riders').whereIn('id', riderIds).select('id', 'name')
+        : [],
+      zoneIds.length
+        ? knex('delivery_zones').whereIn('id', zoneIds).select('id', 'name')
+        : [],
+    ]);
+
+    return {
+      from: range.from ?? null,
+      to: range.to ?? null,
+      byRider: summarizeFailedTrips(
+        failedByRider,
+        deliveredByRider,
+        riders,
+      ).map(({ id, ...row }) => ({
+        riderId: id,
+        ...row,
+      })),
+      byZone: summarizeFailedTrips(failedByZone, deliveredByZone, zones).map(
+        ({ id, ...row }) => ({
+          zoneId: id,
+          ...row,
+        }),
+      ),
+    };
+  }
+
+  // Locks the row so concurrent transitions are evaluated one at a time
+  private async lockOrder(trx: Knex.Transaction, orderId: number) {
+    const current = await trx('orders')
+      .where('id', orderId)
+      .forUpdate()
+      .first();
+
+    if (!current) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+    return current;
+  }
+
+  /**
+   * Moves a locked order to `status`, stamping its side effects plus any
+   * extra columns, records the transition and queues order.updated.
+   */
+  private async applyTransition(
+    trx: Knex.Transaction,
+    current: any,
+    status: OrderStatus,
+    description: string | undefined,
+    actor: TransitionActor,
+    columns: Record<string, unknown> = {},
+  ): Promise<Order> {
+    assertTransition(current.status, status);
+
+    const {
+      flags,
+      timestamps,
+      cleared = [],
+    } = getStatusSideEffects(status, current.status);
+    const timestampColumns = Object.fromEntries([
+      ...timestamps.map((column) => [
+        column,
+        trx.raw('COALESCE(??, NOW())', [column]),
+      ]),
+      ...cleared.map((column) => [column, null]),
+    ]);
+
+    await trx('orders')
+      .where('id', current.id)
+      .update({
+        ...flags,
+        ...timestampColumns,
+        ...(await this.getTripMetrics(trx, current, status)),
+        ...columns,
+        status,
+        updated_at: trx.fn.now(),
+      });
+
+    await trx('order_status_transitions').insert({
+      order_id: current.id,
+      from_status: current.status,
+      to_status: status,
+      actor_type: actor.type,
+      actor_id: actor.id != null ? String(actor.id) : null,
+      reason: description ?? null,
+    });
+
+    const updatedOrder = await this.getOrderById(current.id, trx);
+
+    // The logs timeline entry is written by OrderLogsConsumer from this event
+    await this.outbox.orderUpdated(trx, updatedOrder, {
+      previousStatus: current.status,
+      description,
+      actor,
+    });
+
+    return updatedOrder;
+  }
+
+  /**
+   * Snapshots where the rider collected the order and, on delivery, how far
+   * they actually travelled according to their location history.
+   */
+  private async getTripMetrics(
+    trx: Knex.Transaction,
+    order: any,
+    status: OrderStatus,
+  ) {
+    if (!order.rider_id) {
+      return {};
+    }
+
+    if (status === OrderStatus.PICKED_UP && order.pickup_latitude == null) {
+      const rider = await trx('riders')
+        .where('id', order.rider_id)
+        .first('current_latitude', 'current_longitude');
+      return rider?.current_latitude != null
+        ? {
+            pickup_latitude: rider.current_latitude,
+            pickup_longitude: rider.current_longitude,
+          }
+        : {};
+    }
+
+    if (status === OrderStatus.DELIVERED && order.kitchen_dispatched_time) {
+      try {
+        const travelledDistanceKm =
+          await this.locationHistory.getTravelledDistanceKm(
+            Number(order.rider_id),
+            new Date(order.kitchen_dispatched_time),
+            new Date(),
+          );
+        return { travelled_distance_km: travelledDistanceKm };
+      } catch (error) {
+        // A missing measurement shouldn't block the delivery itself
+        this.logger.error(
+          `Failed to measure travelled distance for order ${order.id}`,
+          error.stack,
+          'getTripMetrics',
+        );
+      }
+    }
+
+    return {};
+  }
+
+  async rateOrder(
+    orderId: number,
+    rating: number,
+    comment?: string,
+  ): Promise<Order> {
+    return this.db.knex.transaction(async (trx) => {
+      const order = await trx('orders')
+        .where('id', orderId)
+        .forUpdate()
+        .first();
+
+      if (!order) {
+        throw new NotFoundException(`Order with ID ${orderId} not found`);
+      }
+      if (order.status !== OrderStatus.DELIVERED) {
+        throw new BadRequestException('Only delivered orders can be rated');
+      }
+      if (order.rating != null) {
+        throw new ConflictException('Order has already been rated');
+      }
+
+      await trx('orders')
+        .where('id', orderId)
+        .update({
+          rating,
+          rating_comment: comment ?? null,
+          rated_at: trx.fn.now(),
+          updated_at: trx.fn.now(),
+        });
+
+      // Keep the rider's average in step with their rated orders
+      if (order.rider_id) {
+        await trx('riders')
+          .where('id', order.rider_id)
+          .update({
+            rating: trx('orders')
+              .where('rider_id', order.rider_id)
+              .whereNotNull('rating')
+              .avg('rating'),
+          });
+      }
+
+      await trx('logs').insert({
+        order_id: orderId,
+        description: `Customer rated the delivery ${rating}/5`,
+        time: trx.fn.now(),
+      });
+
+      return this.getOrderById(orderId, trx);
+    });
+  }
+
+  async getOrderTransitions(orderId: number): Promise<OrderStatusTransition[]> {
+    const order = await this.db.knex('orders').where('id', orderId).first('id');
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    return this.db
+      .knex('order_status_transitions')
+      .where('order_id', orderId)
+      .orderBy([
+        { column: 'created_at', order: 'asc' },
+        { column: 'id', order: 'asc' },
+      ]);
+  }
+
   async getMostBoughtMeal(startDate?: string, endDate?: string): Promise<any> {
-    const result = await this.db.knex.raw(`
+    const result = await this.db.knex.raw(
+      `
       WITH meal_quantities AS (
         SELECT 
           meal->>'name' as name,
@@ -252,45 +1159,64 @@ export class OrdersService {
       SELECT name, quantity
       FROM meal_quantities
       WHERE quantity = (SELECT MAX(quantity) FROM meal_quantities)
-    `, [startDate, endDate]);
+    `,
+      [startDate, endDate],
+    );
 
     return result.rows[0] || null;
   }
 
-  async getDailyOrderStats(startDate?: string, endDate?: string): Promise<any[]> {
-    return this.db.knex('orders')
+  async getDailyOrderStats(
+    startDate?: string,
+    endDate?: string,
+  ): Promise<any[]> {
+    return this.db
+      .knex('orders')
       .select(
         this.db.knex.raw('DATE(created_at) as date'),
         this.db.knex.raw('COUNT(*) as total_orders'),
-        this.db.knex.raw('COUNT(CASE WHEN completed = true THEN 1 END) as completed_orders'),
-        this.db.knex.raw('COUNT(CASE WHEN cancelled = true THEN 1 END) as cancelled_orders'),
-        this.db.knex.raw('AVG(CASE WHEN completed = true THEN EXTRACT(EPOCH FROM (completed_time - created_at))/60 END) as avg_completion_time_minutes')
+        this.db.knex.raw(
+          'COUNT(CASE WHEN completed = true THEN 1 END) as completed_orders',
+        ),
+        this.db.knex.raw(
+          'COUNT(CASE WHEN cancelled = true THEN 1 END) as cancelled_orders',
+        ),
+        this.db.knex.raw(
+          'AVG(CASE WHEN completed = true THEN EXTRACT(EPOCH FROM (completed_time - created_at))/60 END) as avg_completion_time_minutes',
+        ),
       )
-      .whereRaw('created_at >= ?', [startDate || this.db.knex.raw('CURRENT_DATE - INTERVAL \'30 days\'')])
-      .whereRaw('created_at < ?', [endDate || this.db.knex.raw('CURRENT_DATE + INTERVAL \'1 day\'')])
+      .whereRaw('created_at >= ?', [
+        startDate || this.db.knex.raw("CURRENT_DATE - INTERVAL '30 days'"),
+      ])
+      .whereRaw('created_at < ?', [
+        endDate || this.db.knex.raw("CURRENT_DATE + INTERVAL '1 day'"),
+      ])
       .groupByRaw('DATE(created_at)')
       .orderByRaw('DATE(created_at)');
   }
 
   async countPendingOrders(): Promise<number> {
-    const result = await this.db.knex('orders')
+    const result = await this.db
+      .knex('orders')
       .where({
         completed: false,
-        cancelled: false
+        cancelled: false,
       })
+      .whereNot('status', OrderStatus.RETURNED)
       .count('id as count')
       .first();
-    
+
     return parseInt(result?.count as string) || 0;
   }
 
   async getCompletedOrdersToday(): Promise<number> {
-    const result = await this.db.knex('orders')
+    const result = await this.db
+      .knex('orders')
       .where('completed', true)
       .whereRaw('DATE(completed_time) = CURRENT_DATE')
       .count('id as count')
       .first();
-    
+
     return parseInt(result?.count as string) || 0;
   }
 
@@ -302,47 +1228,105 @@ export class OrdersService {
         AND completed_time IS NOT NULL
         AND DATE(completed_time) = CURRENT_DATE
     `);
-    
+
     return parseFloat(result.rows[0]?.avg_time) || 0;
   }
 
-  async assignRider(orderId: number, riderId: number): Promise<Order> {
-    return this.db.knex.transaction(async (trx) => {
-      // Verify order exists and isn't already assigned
-      const order = await trx('orders')
-        .where('id', orderId)
-        .first();
-
-      if (!order) {
-        throw new NotFoundException(`Order with ID ${orderId} not found`);
-      }
+  async assignRider(
+    orderId: number,
+    riderId: number,
+    trx?: Knex.Transaction,
+  ): Promise<Order> {
+    // Join the caller's transaction when given so assignment commits atomically with it
+    if (!trx) {
+      return this.db.knex.transaction((newTrx) =>
+        this.assignRider(orderId, riderId, newTrx),
+      );
+    }
 
-      if (order.rider_assigned) {
-        throw new Error('Order already has an assigned rider');
-      }
+    // Verify order exists and isn't already assigned
+    const order = await trx('orders').where('id', orderId).forUpdate().first();
 
-      // Update order with rider assignment
-      await trx('orders')
-        .where('id', orderId)
-        .update({
-          rider_id: riderId,
-          rider_assigned: true,
-          updated_at: trx.fn.now()
-        });
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
 
-      // Create log entry for rider assignment
-      await trx('logs').insert({
-        order_id: orderId,
-        description: `Rider (ID: ${riderId}) assigned to order`,
-        time: trx.fn.now()
+    if (order.rider_assigned) {
+      throw new ConflictException('Order already has an assigned rider');
+    }
+    // Cancellation clears rider_assigned, so closed orders must be caught here
+    if (!ASSIGNABLE_STATUSES.includes(order.status)) {
+      throw new ConflictException({
+        code: 'ORDER_NOT_ASSIGNABLE',
+        message: `Order ${orderId} is '${order.status}'; only pending and accepted orders can be assigned a rider`,
+        details: { status: order.status },
       });
+    }
 
-      const updatedOrder = await this.getOrderById(orderId);
-      
-      // Publish order assignment event to RabbitMQ
-      await this.rabbitMQService.publishOrderAssigned(updatedOrder);
+    // Update order with rider assignment; each assignment gets its own pickup code
+    await trx('orders').where('id', orderId).update({
+      rider_id: riderId,
+      rider_assigned: true,
+      pickup_code: generatePickupCode(),
+      updated_at: trx.fn.now(),
+    });
 
-      return updatedOrder;
+    await trx('riders')
+      .where('id', riderId)
+      .update({ last_assigned_at: trx.fn.now() });
+
+    const updatedOrder = await this.getOrderById(orderId, trx);
+
+    await this.outbox.orderAssigned(trx, updatedOrder);
+    // Scheduled orders wait on purpose, so their clock starts at release
+    const waitingSince = updatedOrder.released_at ?? updatedOrder.created_at;
+    this.afterCommit(trx, () =>
+      this.metrics.recordOrderAssigned(new Date(waitingSince)),
+    );
+
+    return updatedOrder;
+  }
+}
+
+// Placement, preparation and handoff only apply while the kitchen holds the order
+function assertInKitchen(order: any): void {
+  if (order.status !== OrderStatus.ACCEPTED) {
+    throw new ConflictException({
+      code: 'ORDER_NOT_IN_KITCHEN',
+      message: `Order ${order.id} is '${order.status}'; the kitchen must accept it first and it must not have left`,
+      details: { status: order.status },
     });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Rows for every key with at least one failed trip, worst rate first. Keys
+ * are rider or zone IDs; names come from `named`.
+ */
+function summarizeFailedTrips(
+  failed: any[],
+  delivered: any[],
+  named: { id: number; name: string }[],
+) {
+  const deliveries = new Map(
+    delivered.map((row) => [String(row.key), Number(row.count)]),
+  );
+  const names = new Map(named.map((row) => [String(row.id), row.name]));
+
+  return failed
+    .map((row) => {
+      const failedTrips = Number(row.count);
+      const attempts = failedTrips + (deliveries.get(String(row.key)) ?? 0);
+      return {
+        id: row.key != null ? Number(row.key) : null,
+        name: names.get(String(row.key)) ?? null,
+        failedTrips,
+        attempts,
+        failedTripRate: Number((failedTrips / attempts).toFixed(4)),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.failedTripRate - a.failedTripRate || b.failedTrips - a.failedTrips,
+    );
+}
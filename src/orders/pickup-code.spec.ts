@@ -0,0 +1,41 @@
+import {
+  PICKUP_CODE_LENGTH,
+  generatePickupCode,
+  pickupCodeMatches,
+  withoutPickupCode,
+} from './pickup-code';
+
+describe('pickup codes', () => {
+  it('generates zero-padded numeric codes of a fixed length', () => {
+    for (let i = 0; i < 200; i++) {
+      expect(generatePickupCode()).toMatch(
+        new RegExp(`^\\d{${PICKUP_CODE_LENGTH}}$`),
+      );
+    }
+  });
+
+  it('matches the issued code, ignoring surrounding whitespace', () => {
+    expect(pickupCodeMatches('0427', '0427')).toBe(true);
+    expect(pickupCodeMatches('0427', ' 0427 ')).toBe(true);
+  });
+
+  it('rejects wrong, partial and missing codes', () => {
+    expect(pickupCodeMatches('0427', '0428')).toBe(false);
+    expect(pickupCodeMatches('0427', '427')).toBe(false);
+    expect(pickupCodeMatches('0427', '04270')).toBe(false);
+    expect(pickupCodeMatches('0427', '')).toBe(false);
+    expect(pickupCodeMatches('0427', undefined)).toBe(false);
+  });
+
+  it('never matches an order that has no code', () => {
+    expect(pickupCodeMatches(null, '')).toBe(false);
+    expect(pickupCodeMatches(undefined, '0000')).toBe(false);
+  });
+
+  it('strips the code from an order', () => {
+    const order = { id: 1, status: 'accepted', pickup_code: '0427' };
+
+    expect(withoutPickupCode(order)).toEqual({ id: 1, status: 'accepted' });
+    expect(order.pickup_code).toBe('0427');
+  });
+});
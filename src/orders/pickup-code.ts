@@ -0,0 +1,35 @@
+import { randomInt, timingSafeEqual } from 'crypto';
+
+export const PICKUP_CODE_LENGTH = 4;
+
+/** A fresh numeric code, zero-padded so every code has the same length. */
+export function generatePickupCode(): string {
+  return randomInt(0, 10 ** PICKUP_CODE_LENGTH)
+    .toString()
+    .padStart(PICKUP_CODE_LENGTH, '0');
+}
+
+/**
+ * Compares the code the rider presented with the one issued to them.
+ * Surrounding whitespace is ignored; an order without a code never matches.
+ */
+export function pickupCodeMatches(
+  issued: string | null | undefined,
+  presented: string | null | undefined,
+): boolean {
+  if (!issued || presented == null) {
+    return false;
+  }
+  const expected = Buffer.from(issued);
+  const actual = Buffer.from(presented.trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Kitchen staff verify the code, so they must never be shown it
+export function withoutPickupCode<T extends { pickup_code?: unknown }>(
+  order: T,
+): Omit<T, 'pickup_code'> {
+  const rest = { ...order };
+  delete rest.pickup_code;
+  return rest;
+}
@@ -0,0 +1,116 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DispatchEngineService } from '../dispatch/dispatch-engine.service';
+import { DispatchGateway } from '../websockets/dispatch.gateway';
+import { OrdersService } from './orders.service';
+import { ScheduledOrdersService } from './scheduled-orders.service';
+
+/**
+ * Polls for scheduled orders whose release time has come, hands them to the
+ * kitchen and starts dispatch. The release itself is committed in the
+ * database before anything is announced, so a restart never fires it twice;
+ * releases that didn't reach dispatch are retried at startup and on every tick.
+ */
+@Injectable()
+export class ScheduledOrderReleaseService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private releasing: Promise<number> | null = null;
+  private pollTimer?: NodeJS.Timeout;
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    private readonly scheduledOrders: ScheduledOrdersService,
+    private readonly ordersService: OrdersService,
+    private readonly dispatchEngine: DispatchEngineService,
+    private readonly dispatchGateway: DispatchGateway,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(ScheduledOrderReleaseService.name);
+    this.pollIntervalMs = parseInt(
+      this.configService.get('SCHEDULED_ORDER_POLL_INTERVAL_MS', '30000'),
+    );
+  }
+
+  async onApplicationBootstrap() {
+    await this.retryUndispatched('onApplicationBootstrap');
+
+    this.pollTimer = setInterval(() => {
+      this.releaseDue().catch(() => undefined); // already logged
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.pollTimer);
+    await this.releasing?.catch(() => undefined);
+  }
+
+  /** Releases one batch of due orders and returns how many were released. */
+  async releaseDue(): Promise<number> {
+    // Ticks never overlap; a slow batch just delays the next one
+    if (this.releasing) {
+      return this.releasing;
+    }
+
+    this.releasing = this.releaseBatch().finally(() => {
+      this.releasing = null;
+    });
+    return this.releasing;
+  }
+
+  private async releaseBatch(): Promise<number> {
+    // Before claiming, so orders claimed below aren't started twice
+    await this.retryUndispatched('releaseDue');
+
+    const orderIds = await this.scheduledOrders.claimDueOrders();
+    for (const orderId of orderIds) {
+      try {
+        const order = await this.ordersService.getOrderById(orderId);
+        this.dispatchGateway.notifyKitchenNewOrder(order);
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify the kitchen of released order ${orderId}`,
+          error.stack,
+          'releaseDue',
+        );
+      }
+      this.startDispatch(orderId);
+    }
+
+    if (orderIds.length) {
+      this.logger.log(`Released ${orderIds.length} scheduled orders`);
+    }
+    return orderIds.length;
+  }
+
+  // Starts dispatch again for released orders that never got a dispatch round
+  private async retryUndispatched(context: string) {
+    try {
+      const orderIds = await this.scheduledOrders.findUndispatchedReleases();
+      orderIds.forEach((orderId) => this.startDispatch(orderId));
+    } catch (error) {
+      this.logger.error(
+        'Failed to recover released scheduled orders',
+        error.stack,
+        context,
+      );
+    }
+  }
+
+  private startDispatch(orderId: number) {
+    this.dispatchEngine.startDispatch(orderId).catch((error) => {
+      this.logger.error(
+        `Failed to start dispatch for scheduled order ${orderId}`,
+        error.stack,
+        'startDispatch',
+      );
+    });
+  }
+}
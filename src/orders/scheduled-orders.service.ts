@@ -0,0 +1,242 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Knex } from 'knex';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { KitchenHoursService } from '../kitchen/kitchen-hours.service';
+import { OrderStatus } from '../dto/order.dto';
+import { Order } from '../models/order.model';
+import { TransitionActor } from './order-status.machine';
+import {
+  DeliveryWindow,
+  DeliveryWindowRules,
+  assertDeliveryWindow,
+  getReleaseAt,
+  toScheduledColumns,
+} from './delivery-window';
+
+const UPCOMING_COLUMNS = [
+  'orders.id',
+  'orders.order_code',
+  'orders.user_id',
+  'orders.status',
+  'orders.delivery_window_start',
+  'orders.delivery_window_end',
+  'orders.scheduled_delivery_date',
+  'orders.scheduled_delivery_time',
+  'orders.release_at',
+  'orders.created_at',
+  'calculated_orders.cokitchen_id',
+  'calculated_orders.total_amount',
+];
+
+/**
+ * Delivery windows for scheduled orders. A scheduled order stays `pending`
+ * and out of the kitchen queue until its `release_at`, when
+ * ScheduledOrderReleaseService hands it to the kitchen and dispatch.
+ */
+@Injectable()
+export class ScheduledOrdersService {
+  private readonly rules: DeliveryWindowRules;
+  // Minutes before the window opens that the order is released
+  private readonly releaseLeadMinutes: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly kitchenHours: KitchenHoursService,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(ScheduledOrdersService.name);
+    this.rules = {
+      minLeadMinutes: parseInt(
+        this.configService.get('SCHEDULED_ORDER_MIN_LEAD_MINUTES', '60'),
+      ),
+      maxDaysAhead: parseInt(
+        this.configService.get('SCHEDULED_ORDER_MAX_DAYS_AHEAD', '7'),
+      ),
+      maxWindowMinutes: parseInt(
+        this.configService.get('SCHEDULED_ORDER_MAX_WINDOW_MINUTES', '120'),
+      ),
+      timeZone: this.configService.get('KITCHEN_TIMEZONE', 'Africa/Lagos'),
+    };
+    this.releaseLeadMinutes = parseInt(
+      this.configService.get('SCHEDULED_ORDER_RELEASE_LEAD_MINUTES', '45'),
+    );
+    this.batchSize = parseInt(
+      this.configService.get('SCHEDULED_ORDER_BATCH_SIZE', '50'),
+    );
+  }
+
+  /**
+   * Validates the window against the kitchen's hours and returns the order
+   * columns that schedule it.
+   */
+  async planDelivery(
+    cokitchenId: string,
+    window: DeliveryWindow,
+    trx?: Knex.Transaction,
+  ) {
+    const hours = await this.kitchenHours.getHours(cokitchenId, trx);
+    assertDeliveryWindow(window, hours, this.rules);
+
+    return {
+      delivery_window_start: window.start,
+      delivery_window_end: window.end,
+      release_at: getReleaseAt(window.start, this.releaseLeadMinutes),
+      ...toScheduledColumns(window, this.rules.timeZone),
+    };
+  }
+
+  /** Scheduled orders not yet released, soonest window first. */
+  async listUpcoming(
+    filter: { cokitchenId?: string; from?: Date; to?: Date } = {},
+  ) {
+    const query = this.upcoming(this.db.knex)
+      .join(
+        'calculated_orders',
+        'orders.calculated_order_id',
+        'calculated_orders.id',
+      )
+      .select(UPCOMING_COLUMNS)
+      .orderBy('orders.delivery_window_start', 'asc');
+
+    if (filter.cokitchenId) {
+      query.where('calculated_orders.cokitchen_id', filter.cokitchenId);
+    }
+    if (filter.from) {
+      query.where('orders.delivery_window_start', '>=', filter.from);
+    }
+    if (filter.to) {
+      query.where('orders.delivery_window_start', '<=', filter.to);
+    }
+    return query;
+  }
+
+  /** Throws unless the order is scheduled and still waiting for release. */
+  async assertUpcoming(orderId: number, trx?: Knex.Transaction) {
+    const order = await (trx ?? this.db.knex)('orders')
+      .where('id', orderId)
+      .first();
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+    if (
+      !order.scheduled ||
+      order.released_at ||
+      order.status !== OrderStatus.PENDING
+    ) {
+      throw new ConflictException({
+        code: 'ORDER_NOT_UPCOMING',
+        message: `Order ${orderId} is not a scheduled order waiting for release`,
+        details: { scheduled: !!order.scheduled, status: order.status },
+      });
+    }
+    return order;
+  }
+
+  async reschedule(
+    orderId: number,
+    window: DeliveryWindow,
+    actor: TransitionActor,
+  ): Promise<Order> {
+    return this.db.knex.transaction(async (trx) => {
+      await trx('orders').where('id', orderId).forUpdate().first('id');
+      const order = await this.assertUpcoming(orderId, trx);
+      const { cokitchen_id } = await trx('calculated_orders')
+        .where('id', order.calculated_order_id)
+        .first('cokitchen_id');
+
+      const schedule = await this.planDelivery(cokitchen_id, window, trx);
+      const [updated] = await trx('orders')
+        .where('id', orderId)
+        .update({ ...schedule, updated_at: trx.fn.now() })
+        .returning('*');
+
+      await trx('logs').insert({
+        order_id: orderId,
+        description: `Rescheduled to ${schedule.scheduled_delivery_date} ${schedule.scheduled_delivery_time} by ${actor.type}`,
+        time: trx.fn.now(),
+      });
+      return updated;
+    });
+  }
+
+  /**
+   * Marks a batch of due orders released and returns their IDs. Rows are
+   * claimed with FOR UPDATE SKIP LOCKED and released_at commits with the
+   * claim, so no order is released twice across instances or restarts.
+   */
+  async claimDueOrders(): Promise<number[]> {
+    try {
+      return await this.db.knex.transaction(async (trx) => {
+        const due = await this.upcoming(trx)
+          .where('orders.release_at', '<=', trx.fn.now())
+          .orderBy('orders.release_at', 'asc')
+          .limit(this.batchSize)
+          .forUpdate()
+          .skipLocked()
+          .select(
+            'orders.id',
+            'orders.scheduled_delivery_date',
+            'orders.scheduled_delivery_time',
+          );
+        if (!due.length) {
+          return [];
+        }
+
+        const ids = due.map((order) => Number(order.id));
+        await trx('orders')
+          .whereIn('id', ids)
+          .update({ released_at: trx.fn.now(), updated_at: trx.fn.now() });
+        await trx('logs').insert(
+          due.map((order) => ({
+            order_id: order.id,
+            description: `Released to the kitchen for delivery ${order.scheduled_delivery_date} ${order.scheduled_delivery_time}`,
+            time: trx.fn.now(),
+          })),
+        );
+        return ids;
+      });
+    } catch (error) {
+      this.logger.error(
+        'Failed to release scheduled orders',
+        error.stack,
+        'claimDueOrders',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Released orders that never reached dispatch, e.g. because the instance
+   * stopped between releasing them and starting dispatch.
+   */
+  async findUndispatchedReleases(): Promise<number[]> {
+    const rows = await this.db
+      .knex('orders')
+      .where('scheduled', true)
+      .whereNotNull('released_at')
+      .where('rider_assigned', false)
+      .whereIn('status', [OrderStatus.PENDING, OrderStatus.ACCEPTED])
+      .whereNotExists(
+        this.db
+          .knex('dispatch_rounds')
+          .whereRaw('dispatch_rounds.order_id = orders.id'),
+      )
+      .select('id');
+    return rows.map((row) => Number(row.id));
+  }
+
+  private upcoming(db: Knex | Knex.Transaction) {
+    return db('orders')
+      .where('orders.scheduled', true)
+      .whereNull('orders.released_at')
+      .where('orders.status', OrderStatus.PENDING);
+  }
+}
@@ -0,0 +1,277 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DeliveryEventBus } from '../events/delivery-event-bus';
+import { EventEnvelope, EventValidationError } from '../events/event-envelope';
+import { OutboxEvent } from '../models/outbox-event.model';
+
+// How often sent events older than the retention window are deleted
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+type PublishOutcome = { sent: true } | { sent: false; error: Error };
+
+/**
+ * Publishes committed outbox events to the delivery_events exchange and
+ * marks them sent once the broker confirms them. Rows are claimed with
+ * FOR UPDATE SKIP LOCKED so several instances can relay side by side, and
+ * published outside the claiming transaction so no transaction stays open
+ * while waiting on the broker. An event is held back while an earlier event
+ * of the same aggregate is still pending, so consumers see each order's
+ * events in order.
+ */
+@Injectable()
+export class OutboxRelayService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private relaying: Promise<number> | null = null;
+  private pollTimer?: NodeJS.Timeout;
+  private purgeTimer?: NodeJS.Timeout;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly retryBaseMs: number;
+  private readonly retryMaxMs: number;
+  private readonly retentionDays: number;
+  private readonly claimTimeoutMs: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly eventBus: DeliveryEventBus,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(OutboxRelayService.name);
+    this.pollIntervalMs = parseInt(
+      this.configService.get('OUTBOX_POLL_INTERVAL_MS', '1000'),
+    );
+    this.batchSize = parseInt(
+      this.configService.get('OUTBOX_BATCH_SIZE', '50'),
+    );
+    this.retryBaseMs = parseInt(
+      this.configService.get('OUTBOX_RETRY_BASE_MS', '1000'),
+    );
+    this.retryMaxMs = parseInt(
+      this.configService.get('OUTBOX_RETRY_MAX_MS', '300000'),
+    );
+    this.retentionDays = parseInt(
+      this.configService.get('OUTBOX_RETENTION_DAYS', '7'),
+    );
+    this.claimTimeoutMs = parseInt(
+      this.configService.get('OUTBOX_CLAIM_TIMEOUT_MS', '300000'),
+    );
+  }
+
+  onApplicationBootstrap() {
+    this.pollTimer = setInterval(() => {
+      this.relayPending().catch(() => undefined); // already logged
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+
+    this.purgeTimer = setInterval(() => {
+      this.purgeSent().catch(() => undefined);
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.pollTimer);
+    clearInterval(this.purgeTimer);
+    // Let an in-flight batch record its results so its rows aren't published twice
+    await this.relaying?.catch(() => undefined);
+  }
+
+  /** Publishes one batch of due events and returns how many were sent. */
+  async relayPending(): Promise<number> {
+    // Ticks never overlap; a slow batch just delays the next one
+    if (this.relaying) {
+      return this.relaying;
+    }
+
+    this.relaying = this.relayBatch().finally(() => {
+      this.relaying = null;
+    });
+    return this.relaying;
+  }
+
+  private async relayBatch(): Promise<number> {
+    // Leave events untouched while the broker is down instead of burning attempts
+    if (!this.eventBus.connected) {
+      return 0;
+    }
+
+    try {
+      const claimedAt = new Date();
+      const events = await this.claimBatch(claimedAt);
+      if (!events.length) {
+        return 0;
+      }
+
+      const outcomes = await this.publishBatch(events);
+      await this.recordOutcomes(events, outcomes, claimedAt);
+      return [...outcomes.values()].filter((outcome) => outcome.sent).length;
+    } catch (error) {
+      this.logger.error(
+        'Failed to relay outbox events',
+        error.stack,
+        'relayPending',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reserves a batch of due events for this relay. The claim pushes
+   * next_attempt_at out by the claim timeout, so the rows stay out of other
+   * relays' batches without holding a transaction open while publishing.
+   */
+  private async claimBatch(claimedAt: Date): Promise<OutboxEvent[]> {
+    return this.db.knex.transaction(async (trx) => {
+      const events: OutboxEvent[] = await trx('outbox_events as e')
+        .where('e.status', 'pending')
+        .where('e.next_attempt_at', '<=', trx.fn.now())
+        .whereNotExists(
+          trx('outbox_events as earlier')
+            .where('earlier.status', 'pending')
+            .whereRaw('earlier.aggregate_type = e.aggregate_type')
+            .whereRaw('earlier.aggregate_id = e.aggregate_id')
+            .whereRaw('earlier.id < e.id'),
+        )
+        .orderBy('e.id')
+        .limit(this.batchSize)
+        .forUpdate()
+        .skipLocked()
+        .select('e.*');
+
+      if (events.length) {
+        await trx('outbox_events')
+          .whereIn(
+            'id',
+            events.map((event) => event.id),
+          )
+          .update({
+            claimed_at: claimedAt,
+            next_attempt_at: new Date(
+              claimedAt.getTime() + this.claimTimeoutMs,
+            ),
+          });
+      }
+      return events;
+    });
+  }
+
+  private async publishBatch(
+    events: OutboxEvent[],
+  ): Promise<Map<number, PublishOutcome>> {
+    const outcomes = new Map<number, PublishOutcome>();
+    const failedAggregates = new Set<string>();
+    for (const event of events) {
+      const aggregateKey = `${event.aggregate_type}:${event.aggregate_id}`;
+      // Later events of a failed aggregate wait for it, and nothing more is
+      // tried once the broker has gone away
+      if (failedAggregates.has(aggregateKey) || !this.eventBus.connected) {
+        continue;
+      }
+
+      try {
+        await this.eventBus.publishConfirmed(event.payload as EventEnvelope);
+        outcomes.set(event.id, { sent: true });
+      } catch (error) {
+        failedAggregates.add(aggregateKey);
+        outcomes.set(event.id, { sent: false, error });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Marks sent and failed events and releases the ones that weren't tried.
+   * Rows whose claim has lapsed and been taken by another relay are left to it.
+   */
+  private async recordOutcomes(
+    events: OutboxEvent[],
+    outcomes: Map<number, PublishOutcome>,
+    claimedAt: Date,
+  ): Promise<void> {
+    await this.db.knex.transaction(async (trx) => {
+      for (const event of events) {
+        const claimed = trx('outbox_events')
+          .where('id', event.id)
+          .where('claimed_at', claimedAt);
+        const outcome = outcomes.get(event.id);
+        const attempts = event.attempts + 1;
+
+        if (!outcome) {
+          await claimed.update({
+            claimed_at: null,
+            next_attempt_at: trx.fn.now(),
+          });
+        } else if (outcome.sent) {
+          await claimed.update({
+            status: 'sent',
+            attempts,
+            last_error: null,
+            claimed_at: null,
+            sent_at: trx.fn.now(),
+          });
+        } else if (outcome.error instanceof EventValidationError) {
+          // Retrying can't fix the payload; park it so the aggregate isn't blocked
+          await claimed.update({
+            status: 'failed',
+            attempts,
+            last_error: outcome.error.message,
+            claimed_at: null,
+          });
+          this.logger.error(
+            `Outbox event ${event.message_id} (${event.event_type}) is invalid and will not be published`,
+            outcome.error.message,
+            'relayPending',
+          );
+        } else {
+          const delayMs = this.getRetryDelayMs(attempts);
+          await claimed.update({
+            attempts,
+            last_error: outcome.error.message,
+            claimed_at: null,
+            next_attempt_at: new Date(Date.now() + delayMs),
+          });
+          this.logger.warn(
+            `Failed to publish outbox event ${event.message_id} (${event.event_type}, attempt ${attempts}), retrying in ${delayMs}ms: ${outcome.error.message}`,
+          );
+        }
+      }
+    });
+  }
+
+  /** Exponential backoff capped at OUTBOX_RETRY_MAX_MS. */
+  private getRetryDelayMs(attempts: number): number {
+    return Math.min(this.retryBaseMs * 2 ** (attempts - 1), this.retryMaxMs);
+  }
+
+  async purgeSent(): Promise<number> {
+    try {
+      const deleted = await this.db
+        .knex('outbox_events')
+        .where('status', 'sent')
+        .whereRaw(`sent_at < NOW() - make_interval(days => ?)`, [
+          this.retentionDays,
+        ])
+        .delete();
+
+      if (deleted) {
+        this.logger.log(`Purged ${deleted} sent outbox events`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error(
+        'Failed to purge sent outbox events',
+        error.stack,
+        'purgeSent',
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex';
+import { CustomLogger } from '../common/logger/logger.service';
+import { Order } from '../models/order.model';
+import { OrderCancellation } from '../models/order-cancellation.model';
+import {
+  DeliveryEventPayloads,
+  DeliveryEventType,
+} from '../interfaces/message-payloads';
+import { createEnvelope } from '../events/event-envelope';
+import { TransitionActor } from '../orders/order-status.machine';
+
+export interface OutboxEventInput<T extends DeliveryEventType> {
+  type: T;
+  aggregateType: string;
+  aggregateId: string | number;
+  payload: DeliveryEventPayloads[T];
+}
+
+const toNumberOrNull = (value: string | number | null | undefined) =>
+  value != null ? Number(value) : null;
+
+/**
+ * Records domain events in outbox_events as part of the caller's
+ * transaction. Nothing is sent to the broker here; OutboxRelayService
+ * publishes committed events, so a rollback never leaks an event and a
+ * broker outage never fails the write.
+ */
+@Injectable()
+export class OutboxService {
+  constructor(private readonly logger: CustomLogger) {
+    this.logger.setContext(OutboxService.name);
+  }
+
+  /**
+   * Wraps the payload in a validated envelope, stores it and returns the
+   * event ID it will be published with.
+   */
+  async enqueue<T extends DeliveryEventType>(
+    trx: Knex.Transaction,
+    event: OutboxEventInput<T>,
+  ): Promise<string> {
+    try {
+      const envelope = createEnvelope(event.type, event.payload);
+      await trx('outbox_events').insert({
+        message_id: envelope.eventId,
+        event_type: envelope.type,
+        aggregate_type: event.aggregateType,
+        aggregate_id: String(event.aggregateId),
+        payload: JSON.stringify(envelope),
+      });
+      return envelope.eventId;
+    } catch (error) {
+      this.logger.error(
+        `Failed to enqueue ${event.type} event for ${event.aggregateType} ${event.aggregateId}`,
+        error.stack,
+        'enqueue',
+      );
+      throw error;
+    }
+  }
+
+  async orderCreated(trx: Knex.Transaction, order: Order): Promise<string> {
+    return this.enqueue(trx, {
+      type: 'order.created',
+      aggregateType: 'order',
+      aggregateId: order.id,
+      payload: {
+        orderId: Number(order.id),
+        orderCode: order.order_code ?? null,
+        userId: String(order.user_id),
+        orderTypeId: toNumberOrNull(order.order_type_id),
+        status: order.status,
+        zoneId: toNumberOrNull(order.calculated_order?.cokitchen_polygon_id),
+        cokitchenId: order.calculated_order?.cokitchen_id ?? null,
+        deliveryLatitude: toNumberOrNull(order.delivery_latitude),
+        deliveryLongitude: toNumberOrNull(order.delivery_longitude),
+        totalAmount: toNumberOrNull(order.calculated_order?.total_amount),
+        scheduled: Boolean(order.scheduled),
+        createdAt: new Date(order.created_at).toISOString(),
+      },
+    });
+  }
+
+  async orderUpdated(
+    trx: Knex.Transaction,
+    order: Order,
+    change: {
+      previousStatus: string | null;
+      description?: string;
+      actor: TransitionActor;
+    },
+  ): Promise<string> {
+    return this.enqueue(trx, {
+      type: 'order.updated',
+      aggregateType: 'order',
+      aggregateId: order.id,
+      payload: {
+        orderId: Number(order.id),
+        previousStatus: change.previousStatus,
+        status: order.status,
+        riderId: toNumberOrNull(order.rider_id),
+        description: change.description ?? null,
+        actor: {
+          type: change.actor.type,
+          id: change.actor.id != null ? String(change.actor.id) : null,
+        },
+      },
+    });
+  }
+
+  async orderAssigned(trx: Knex.Transaction, order: Order): Promise<string> {
+    if (!order.rider_id) {
+      throw new Error('Cannot publish order assignment: no rider assigned');
+    }
+
+    return this.enqueue(trx, {
+      type: 'order.assigned',
+      aggregateType: 'order',
+      aggregateId: order.id,
+      payload: {
+        orderId: Number(order.id),
+        riderId: Number(order.rider_id),
+        status: order.status,
+        deliveryLatitude: toNumberOrNull(order.delivery_latitude),
+        deliveryLongitude: toNumberOrNull(order.delivery_longitude),
+      },
+    });
+  }
+
+  async orderCancelled(
+    trx: Knex.Transaction,
+    cancellation: OrderCancellation,
+  ): Promise<string> {
+    return this.enqueue(trx, {
+      type: 'order.cancelled',
+      aggregateType: 'order',
+      aggregateId: cancellation.order_id,
+      payload: {
+        orderId: Number(cancellation.order_id),
+        previousStatus: cancellation.previous_status,
+        category: cancellation.category,
+        reasonCode: cancellation.reason_code,
+        note: cancellation.note,
+        riderId: toNumberOrNull(cancellation.rider_id),
+        fee: Number(cancellation.fee),
+        actor: {
+          type: cancellation.actor_type,
+          id: cancellation.actor_id,
+        },
+        cancelledAt: new Date(cancellation.created_at).toISOString(),
+      },
+    });
+  }
+}
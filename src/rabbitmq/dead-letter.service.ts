@@ -0,0 +1,114 @@
+import {
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { CustomLogger } from '../common/logger/logger.service';
+import {
+  DeadLetterMessage,
+  DeadLetterQueueSummary,
+  DeliveryEventBus,
+} from '../events/delivery-event-bus';
+
+const DEFAULT_PEEK_LIMIT = 20;
+const MAX_PEEK_LIMIT = 100;
+const DEFAULT_REPLAY_LIMIT = 100;
+
+/**
+ * Admin access to the `<queue>.dead` queues. Inspecting is non-destructive;
+ * replayed messages go back to their work queue with a fresh retry budget.
+ */
+@Injectable()
+export class DeadLetterService {
+  constructor(
+    private readonly eventBus: DeliveryEventBus,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(DeadLetterService.name);
+  }
+
+  async listQueues(): Promise<DeadLetterQueueSummary[]> {
+    return this.run('listQueues', () => this.eventBus.listDeadLetters());
+  }
+
+  async peek(
+    queue: string,
+    limit = DEFAULT_PEEK_LIMIT,
+  ): Promise<DeadLetterMessage[]> {
+    this.assertQueue(queue);
+    const count = Math.min(Math.max(limit, 1), MAX_PEEK_LIMIT);
+    return this.run('peek', () => this.eventBus.peekDeadLetters(queue, count));
+  }
+
+  async replay(
+    queue: string,
+    options: { messageIds?: string[]; limit?: number } = {},
+  ): Promise<{ replayed: number; messageIds: string[] }> {
+    this.assertQueue(queue);
+    const messageIds = await this.run('replay', () =>
+      this.eventBus.replayDeadLetters(queue, {
+        messageIds: options.messageIds,
+        limit: options.limit ?? DEFAULT_REPLAY_LIMIT,
+      }),
+    );
+
+    this.logger.log(
+      `Replayed ${messageIds.length} message(s) from ${this.eventBus.getDeadLetterQueue(queue)}`,
+    );
+    return { replayed: messageIds.length, messageIds };
+  }
+
+  async purge(queue: string): Promise<{ purged: number }> {
+    this.assertQueue(queue);
+    const purged = await this.run('purge', () =>
+      this.eventBus.purgeDeadLetters(queue),
+    );
+
+    this.logger.warn(
+      `Purged ${purged} message(s) from ${this.eventBus.getDeadLetterQueue(queue)}`,
+    );
+    return { purged };
+  }
+
+  async purgeMessage(
+    queue: string,
+    messageId: string,
+  ): Promise<{ purged: number }> {
+    this.assertQueue(queue);
+    const deadLetterQueue = this.eventBus.getDeadLetterQueue(queue);
+    const removed = await this.run('purgeMessage', () =>
+      this.eventBus.removeDeadLetter(queue, messageId),
+    );
+
+    if (!removed) {
+      throw new NotFoundException(
+        `Message ${messageId} not found in ${deadLetterQueue}`,
+      );
+    }
+    this.logger.warn(`Purged message ${messageId} from ${deadLetterQueue}`);
+    return { purged: 1 };
+  }
+
+  private assertQueue(queue: string) {
+    if (!this.eventBus.getQueueNames().includes(queue)) {
+      throw new NotFoundException(`Unknown queue '${queue}'`);
+    }
+  }
+
+  private async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.eventBus.connected) {
+      throw new ServiceUnavailableException('Message broker is unavailable');
+    }
+
+    try {
+      return await fn();
+    } catch (error) {
+      this.logger.error(
+        `Dead-letter ${operation} failed`,
+        error.stack,
+        operation,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { DeadLetterService } from './dead-letter.service';
+import { ReplayDeadLettersDto } from '../dto/dead-letter.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+
+@ApiTags('dead-letters')
+@ApiBearerAuth()
+@Roles(Role.ADMIN)
+@Controller('dead-letters')
+export class DeadLettersController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @ApiOperation({ summary: 'List dead letter queues with message counts' })
+  @ApiResponse({ status: 503, description: 'Message broker unavailable' })
+  @Get()
+  async getQueues() {
+    return this.deadLetterService.listQueues();
+  }
+
+  @ApiOperation({
+    summary: 'Inspect dead-lettered messages without removing them',
+  })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 404, description: 'Unknown queue' })
+  @Get(':queue/messages')
+  async getMessages(
+    @Param('queue') queue: string,
+    @Query('limit') limit?: number,
+  ) {
+    return this.deadLetterService.peek(
+      queue,
+      limit ? Number(limit) : undefined,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Send dead-lettered messages back to their work queue',
+  })
+  @ApiResponse({ status: 404, description: 'Unknown queue' })
+  @Post(':queue/replay')
+  @HttpCode(200)
+  async replay(
+    @Param('queue') queue: string,
+    @Body() data: ReplayDeadLettersDto,
+  ) {
+    return this.deadLetterService.replay(queue, {
+      messageIds: data.message_ids,
+      limit: data.limit,
+    });
+  }
+
+  @ApiOperation({ summary: 'Discard every message in a dead letter queue' })
+  @ApiResponse({ status: 404, description: 'Unknown queue' })
+  @Delete(':queue/messages')
+  async purge(@Param('queue') queue: string) {
+    return this.deadLetterService.purge(queue);
+  }
+
+  @ApiOperation({ summary: 'Discard one dead-lettered message' })
+  @ApiResponse({ status: 404, description: 'Unknown queue or message' })
+  @Delete(':queue/messages/:messageId')
+  async purgeMessage(
+    @Param('queue') queue: string,
+    @Param('messageId') messageId: string,
+  ) {
+    return this.deadLetterService.purgeMessage(queue, messageId);
+  }
+}
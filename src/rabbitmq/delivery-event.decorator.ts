@@ -0,0 +1,32 @@
+import { SetMetadata } from '@nestjs/common';
+import { Knex } from 'knex';
+import {
+  DeliveryEventPayloads,
+  DeliveryEventType,
+} from '../interfaces/message-payloads';
+import { EventEnvelope } from '../events/event-envelope';
+
+export const DELIVERY_EVENT_HANDLER_KEY = 'deliveryEventHandler';
+
+// Envelope metadata of the message being handled
+export interface DeliveryEventContext extends Omit<EventEnvelope, 'payload'> {
+  // Commits together with the processed-message marker, so writes made
+  // through it happen exactly once
+  trx: Knex.Transaction;
+}
+
+export type DeliveryEventHandler<T extends DeliveryEventType> = (
+  payload: DeliveryEventPayloads[T],
+  context: DeliveryEventContext,
+) => Promise<void>;
+
+/** Runs the method for every event of this type consumed from its queue. */
+export const OnDeliveryEvent =
+  <T extends DeliveryEventType>(type: T) =>
+  (
+    target: object,
+    key: string | symbol,
+    descriptor: TypedPropertyDescriptor<DeliveryEventHandler<T>>,
+  ): void => {
+    SetMetadata(DELIVERY_EVENT_HANDLER_KEY, type)(target, key, descriptor);
+  };
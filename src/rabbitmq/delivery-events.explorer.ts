@@ -0,0 +1,196 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DeliveryEventBus } from '../events/delivery-event-bus';
+import { DeliveryEventType } from '../interfaces/message-payloads';
+import {
+  EventEnvelope,
+  EventValidationError,
+  validateEnvelope,
+} from '../events/event-envelope';
+import { runWithCorrelation } from '../common/context/correlation.context';
+import {
+  DELIVERY_EVENT_HANDLER_KEY,
+  DeliveryEventHandler,
+} from './delivery-event.decorator';
+
+interface RegisteredHandler {
+  name: string; // 'ClassName.method', the idempotency key together with the event ID
+  handle: DeliveryEventHandler<DeliveryEventType>;
+}
+
+// How often processed-message markers past the retention window are deleted
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Finds every @OnDeliveryEvent() method at module init and consumes one
+ * queue per event type, running the handlers in turn. Each handler runs in
+ * its own transaction that also records (event ID, handler) in
+ * processed_messages; a redelivered message skips handlers that already ran.
+ */
+@Injectable()
+export class DeliveryEventsExplorer
+  implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly handlers = new Map<DeliveryEventType, RegisteredHandler[]>();
+  private purgeTimer?: NodeJS.Timeout;
+  private readonly retentionDays: number;
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    private readonly eventBus: DeliveryEventBus,
+    private readonly db: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(DeliveryEventsExplorer.name);
+    this.retentionDays = parseInt(
+      this.configService.get('PROCESSED_MESSAGES_RETENTION_DAYS', '7'),
+    );
+  }
+
+  onModuleInit() {
+    for (const wrapper of this.discovery.getProviders()) {
+      const { instance } = wrapper;
+      // Transient and request-scoped providers have no single instance to call
+      if (
+        !instance ||
+        typeof instance !== 'object' ||
+        !wrapper.isDependencyTreeStatic()
+      ) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const method of this.metadataScanner.getAllMethodNames(prototype)) {
+        const queue = this.reflector.get<DeliveryEventType>(
+          DELIVERY_EVENT_HANDLER_KEY,
+          instance[method],
+        );
+        if (queue) {
+          this.register(queue, {
+            name: `${instance.constructor.name}.${method}`,
+            handle: instance[method].bind(instance),
+          });
+        }
+      }
+    }
+  }
+
+  async onApplicationBootstrap() {
+    // Started after every module is initialised so handlers can use the gateway
+    for (const queue of this.handlers.keys()) {
+      await this.eventBus.consumeMessages(queue, (data) =>
+        this.dispatch(queue, data),
+      );
+    }
+
+    this.purgeTimer = setInterval(() => {
+      this.purgeProcessed().catch(() => undefined);
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.purgeTimer);
+  }
+
+  private register(queue: DeliveryEventType, handler: RegisteredHandler) {
+    this.handlers.set(queue, [...(this.handlers.get(queue) ?? []), handler]);
+    this.logger.log(`Registered ${handler.name} for '${queue}'`);
+  }
+
+  private async dispatch(
+    queue: DeliveryEventType,
+    data: unknown,
+  ): Promise<void> {
+    // Invalid envelopes are dead-lettered straight away by the event bus
+    validateEnvelope(data);
+    if (data.type !== queue) {
+      throw new EventValidationError(
+        `Received '${data.type}' event on the '${queue}' queue`,
+      );
+    }
+
+    // A failing handler fails the message; handlers that already succeeded
+    // are skipped when it is redelivered
+    for (const handler of this.handlers.get(queue) ?? []) {
+      await this.runOnce(handler, data);
+    }
+  }
+
+  private async runOnce(
+    handler: RegisteredHandler,
+    envelope: EventEnvelope,
+  ): Promise<void> {
+    const { payload, ...metadata } = envelope;
+    // Events published by the handler are caused by this one
+    const correlation = {
+      correlationId: envelope.correlationId,
+      causationId: envelope.eventId,
+    };
+
+    try {
+      await runWithCorrelation(correlation, () =>
+        this.db.knex.transaction(async (trx) => {
+          const claimed = await trx('processed_messages')
+            .insert({
+              message_id: envelope.eventId,
+              consumer: handler.name,
+              queue: envelope.type,
+            })
+            .onConflict(['message_id', 'consumer'])
+            .ignore()
+            .returning('message_id');
+          if (!claimed.length) {
+            this.logger.debug(
+              `Skipping ${handler.name} for duplicate event ${envelope.eventId}`,
+            );
+            return;
+          }
+
+          await handler.handle(payload, { ...metadata, trx });
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `${handler.name} failed for ${envelope.type} event ${envelope.eventId}`,
+        error.stack,
+        'dispatch',
+      );
+      throw error;
+    }
+  }
+
+  async purgeProcessed(): Promise<number> {
+    try {
+      const deleted = await this.db
+        .knex('processed_messages')
+        .whereRaw(`processed_at < NOW() - make_interval(days => ?)`, [
+          this.retentionDays,
+        ])
+        .delete();
+
+      if (deleted) {
+        this.logger.log(`Purged ${deleted} processed-message markers`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error(
+        'Failed to purge processed messages',
+        error.stack,
+        'purgeProcessed',
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { pathLengthKm, simplifyPath } from '../common/geo/geo.utils';
+import {
+  RiderTrack,
+  RiderTrackPoint,
+} from '../models/rider-location-history.model';
+
+interface BufferedPoint {
+  rider_id: number;
+  latitude: number;
+  longitude: number;
+  recorded_at: Date;
+}
+
+// Rows deleted per statement when purging expired history
+const PURGE_CHUNK_SIZE = 5000;
+// Wobble smaller than this is GPS noise and shouldn't add to trip distance
+const GPS_JITTER_TOLERANCE_METERS = 10;
+
+/**
+ * Buffers rider positions in memory and appends them to
+ * rider_location_history in batches, so frequent location pings cost one
+ * insert per flush instead of one per update.
+ */
+@Injectable()
+export class RiderLocationHistoryService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private buffer: BufferedPoint[] = [];
+  private flushing: Promise<void> | null = null;
+  private flushTimer?: NodeJS.Timeout;
+  private purgeTimer?: NodeJS.Timeout;
+  private readonly batchSize: number;
+  private readonly maxBufferSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly retentionDays: number;
+  private readonly purgeIntervalMs: number;
+  private readonly maxTrackPoints: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(RiderLocationHistoryService.name);
+    this.batchSize = parseInt(
+      this.configService.get('RIDER_HISTORY_BATCH_SIZE', '500'),
+    );
+    this.maxBufferSize = parseInt(
+      this.configService.get('RIDER_HISTORY_MAX_BUFFER', '20000'),
+    );
+    this.flushIntervalMs = parseInt(
+      this.configService.get('RIDER_HISTORY_FLUSH_INTERVAL_MS', '5000'),
+    );
+    this.retentionDays = parseInt(
+      this.configService.get('RIDER_HISTORY_RETENTION_DAYS', '30'),
+    );
+    this.purgeIntervalMs = parseInt(
+      this.configService.get('RIDER_HISTORY_PURGE_INTERVAL_MS', '3600000'),
+    );
+    this.maxTrackPoints = parseInt(
+      this.configService.get('RIDER_TRACK_MAX_POINTS', '10000'),
+    );
+  }
+
+  onApplicationBootstrap() {
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => undefined); // already logged by flush
+    }, this.flushIntervalMs);
+    this.flushTimer.unref();
+
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(() => undefined);
+    }, this.purgeIntervalMs);
+    this.purgeTimer.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.flushTimer);
+    clearInterval(this.purgeTimer);
+    // Don't lose the tail of the trail on shutdown
+    await this.flush().catch(() => undefined);
+  }
+
+  get pendingCount(): number {
+    return this.buffer.length;
+  }
+
+  record(
+    riderId: number,
+    latitude: number,
+    longitude: number,
+    recordedAt = new Date(),
+  ): void {
+    this.buffer.push({
+      rider_id: riderId,
+      latitude,
+      longitude,
+      recorded_at: recordedAt,
+    });
+
+    if (this.buffer.length > this.maxBufferSize) {
+      const dropped = this.buffer.length - this.maxBufferSize;
+      this.buffer.splice(0, dropped);
+      this.logger.warn(
+        `Location history buffer full, dropped ${dropped} oldest points`,
+      );
+    }
+
+    if (this.buffer.length >= this.batchSize) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /** Writes buffered points, waiting for any in-flight flush first. */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing.catch(() => undefined);
+      return this.flush();
+    }
+    if (!this.buffer.length) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.flushing = this.db.knex
+      .batchInsert('rider_location_history', batch, this.batchSize)
+      .then(() => undefined)
+      .catch((error) => {
+        // Put the batch back in front of anything recorded meanwhile
+        this.buffer = [...batch, ...this.buffer].slice(-this.maxBufferSize);
+        this.logger.error(
+          `Failed to write ${batch.length} location history points`,
+          error.stack,
+          'flush',
+        );
+        throw error;
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+
+    return this.flushing;
+  }
+
+  async purgeExpired(): Promise<number> {
+    try {
+      let total = 0;
+      for (;;) {
+        const deleted = await this.db
+          .knex('rider_location_history')
+          .whereIn(
+            'id',
+            this.db
+              .knex('rider_location_history')
+              .select('id')
+              .whereRaw(`recorded_at < NOW() - make_interval(days => ?)`, [
+                this.retentionDays,
+              ])
+              .limit(PURGE_CHUNK_SIZE),
+          )
+          .delete();
+        total += deleted;
+        if (deleted < PURGE_CHUNK_SIZE) {
+          break;
+        }
+      }
+
+      if (total) {
+        this.logger.log(
+          `Purged ${total} location history points older than ${this.retentionDays} days`,
+        );
+      }
+      return total;
+    } catch (error) {
+      this.logger.error(
+        'Failed to purge expired location history',
+        error.stack,
+        'purgeExpired',
+      );
+      throw error;
+    }
+  }
+
+  /** Distance actually covered by the rider between two instants, in km. */
+  async getTravelledDistanceKm(
+    riderId: number,
+    from: Date,
+    to: Date,
+  ): Promise<number> {
+    const track = await this.getTrack(
+      riderId,
+      from,
+      to,
+      GPS_JITTER_TOLERANCE_METERS,
+    );
+    return Number(pathLengthKm(track.points).toFixed(3));
+  }
+
+  /**
+   * Returns the rider's trail between two instants as points and a GeoJSON
+   * LineString, optionally simplified with Douglas-Peucker.
+   */
+  async getTrack(
+    riderId: number,
+    from: Date,
+    to: Date,
+    toleranceMeters = 0,
+  ): Promise<RiderTrack> {
+    try {
+      // Make sure the most recent pings are queryable
+      await this.flush().catch(() => undefined);
+
+      const rows = await this.db
+        .knex('rider_location_history')
+        .where('rider_id', riderId)
+        .whereBetween('recorded_at', [from, to])
+        .orderBy('recorded_at', 'asc')
+        .limit(this.maxTrackPoints)
+        .select('latitude', 'longitude', 'recorded_at');
+
+      const raw: RiderTrackPoint[] = rows.map((row) => ({
+        lat: Number(row.latitude),
+        lng: Number(row.longitude),
+        recorded_at: row.recorded_at,
+      }));
+      if (raw.length === this.maxTrackPoints) {
+        this.logger.warn(
+          `Track for rider ${riderId} truncated at ${this.maxTrackPoints} points`,
+        );
+      }
+      const points = simplifyPath(raw, toleranceMeters);
+
+      return {
+        rider_id: riderId,
+        from,
+        to,
+        tolerance_meters: toleranceMeters,
+        raw_point_count: raw.length,
+        distance_km: Number(pathLengthKm(raw).toFixed(3)),
+        points,
+        geojson: {
+          type: 'Feature',
+          geometry: {
+            type: 'LineString',
+            coordinates: points.map((point) => [point.lng, point.lat]),
+          },
+          properties: {
+            rider_id: riderId,
+            from: from.toISOString(),
+            to: to.toISOString(),
+          },
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load track for rider ${riderId}`,
+        error.stack,
+        'getTrack',
+      );
+      throw error;
+    }
+  }
+}
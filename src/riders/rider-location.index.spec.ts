@@ -0,0 +1,47 @@
+import { RiderLocationIndex } from './rider-location.index';
+
+describe('RiderLocationIndex', () => {
+  const now = Date.now();
+  let index: RiderLocationIndex;
+
+  beforeEach(() => {
+    index = new RiderLocationIndex({ cellSizeDeg: 0.01, ttlMs: 60_000 });
+    index.load([
+      { riderId: 1, latitude: 6.5244, longitude: 3.3792, updatedAt: now },
+      { riderId: 2, latitude: 6.53, longitude: 3.385, updatedAt: now },
+      { riderId: 3, latitude: 6.6, longitude: 3.5, updatedAt: now },
+    ]);
+  });
+
+  it('returns riders inside the radius nearest first', () => {
+    const results = index.queryRadius(6.5244, 3.3792, 2, Infinity, now);
+
+    expect(results.map((r) => r.riderId)).toEqual([1, 2]);
+    expect(results[0].distance).toBeCloseTo(0, 5);
+  });
+
+  it('honours the limit', () => {
+    expect(index.queryRadius(6.5244, 3.3792, 50, 1, now)).toHaveLength(1);
+  });
+
+  it('moves riders between cells on upsert', () => {
+    index.upsert(3, 6.5245, 3.3793, now);
+
+    const ids = index
+      .queryRadius(6.5244, 3.3792, 1, Infinity, now)
+      .map((r) => r.riderId);
+    expect(ids).toContain(3);
+    expect(index.size).toBe(3);
+  });
+
+  it('skips and expires stale positions', () => {
+    index.upsert(2, 6.53, 3.385, now - 120_000);
+
+    const ids = index
+      .queryRadius(6.5244, 3.3792, 2, Infinity, now)
+      .map((r) => r.riderId);
+    expect(ids).toEqual([1]);
+    expect(index.expireStale(now)).toEqual([2]);
+    expect(index.get(2)).toBeUndefined();
+  });
+});
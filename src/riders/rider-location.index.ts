@@ -0,0 +1,199 @@
+import { haversineKm, KM_PER_DEGREE_LATITUDE } from '../common/geo/geo.utils';
+
+export interface RiderLocationIndexOptions {
+  cellSizeDeg: number; // grid bucket edge in degrees
+  ttlMs: number; // positions older than this are treated as stale
+}
+
+export interface IndexedRiderLocation {
+  riderId: number;
+  latitude: number;
+  longitude: number;
+  updatedAt: number;
+}
+
+export interface NearbyIndexedRider extends IndexedRiderLocation {
+  distance: number; // km
+}
+
+// Above this many grid cells a query scans all entries instead
+const MAX_CELLS_PER_QUERY = 2500;
+
+/**
+ * In-process grid index of available riders' last known positions. Riders are
+ * bucketed into fixed-size lat/lng cells so radius queries only visit the
+ * cells overlapping the search box.
+ */
+export class RiderLocationIndex {
+  private readonly entries = new Map<
+    number,
+    IndexedRiderLocation & { cell: string }
+  >();
+  private readonly cells = new Map<string, Set<number>>();
+  private hydrated = false;
+
+  constructor(private readonly options: RiderLocationIndexOptions) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  get ttlMs(): number {
+    return this.options.ttlMs;
+  }
+
+  /** Replaces the whole index, e.g. with a fresh snapshot from the database. */
+  load(locations: IndexedRiderLocation[]): void {
+    this.entries.clear();
+    this.cells.clear();
+    locations.forEach((location) =>
+      this.upsert(
+        location.riderId,
+        location.latitude,
+        location.longitude,
+        location.updatedAt,
+      ),
+    );
+    this.hydrated = true;
+  }
+
+  upsert(
+    riderId: number,
+    latitude: number,
+    longitude: number,
+    updatedAt = Date.now(),
+  ): void {
+    const cell = this.cellKey(latitude, longitude);
+    const existing = this.entries.get(riderId);
+    if (existing && existing.cell !== cell) {
+      this.removeFromCell(existing.cell, riderId);
+    }
+
+    this.entries.set(riderId, {
+      riderId,
+      latitude,
+      longitude,
+      updatedAt,
+      cell,
+    });
+    if (!this.cells.has(cell)) {
+      this.cells.set(cell, new Set());
+    }
+    this.cells.get(cell)!.add(riderId);
+  }
+
+  remove(riderId: number): boolean {
+    const existing = this.entries.get(riderId);
+    if (!existing) {
+      return false;
+    }
+    this.removeFromCell(existing.cell, riderId);
+    this.entries.delete(riderId);
+    return true;
+  }
+
+  get(riderId: number): IndexedRiderLocation | undefined {
+    const entry = this.entries.get(riderId);
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      riderId: entry.riderId,
+      latitude: entry.latitude,
+      longitude: entry.longitude,
+      updatedAt: entry.updatedAt,
+    };
+  }
+
+  all(): IndexedRiderLocation[] {
+    return [...this.entries.keys()].map((riderId) => this.get(riderId)!);
+  }
+
+  /** Fresh riders within radiusKm of the point, nearest first. */
+  queryRadius(
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+    limit = Infinity,
+    now = Date.now(),
+  ): NearbyIndexedRider[] {
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    const lngDelta =
+      radiusKm /
+      (KM_PER_DEGREE_LATITUDE *
+        Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+
+    const size = this.options.cellSizeDeg;
+    const minRow = Math.floor((latitude - latDelta) / size);
+    const maxRow = Math.floor((latitude + latDelta) / size);
+    const minCol = Math.floor((longitude - lngDelta) / size);
+    const maxCol = Math.floor((longitude + lngDelta) / size);
+
+    let candidateIds: Iterable<number>;
+    if ((maxRow - minRow + 1) * (maxCol - minCol + 1) > MAX_CELLS_PER_QUERY) {
+      candidateIds = this.entries.keys();
+    } else {
+      const ids: number[] = [];
+      for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+          this.cells.get(`${row}:${col}`)?.forEach((id) => ids.push(id));
+        }
+      }
+      candidateIds = ids;
+    }
+
+    const results: NearbyIndexedRider[] = [];
+    for (const riderId of candidateIds) {
+      const entry = this.entries.get(riderId)!;
+      if (now - entry.updatedAt > this.options.ttlMs) {
+        continue;
+      }
+      const distance = haversineKm(
+        latitude,
+        longitude,
+        entry.latitude,
+        entry.longitude,
+      );
+      if (distance < radiusKm) {
+        results.push({
+          riderId,
+          latitude: entry.latitude,
+          longitude: entry.longitude,
+          updatedAt: entry.updatedAt,
+          distance,
+        });
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance).slice(0, limit);
+  }
+
+  /** Drops positions older than the TTL and returns the affected rider IDs. */
+  expireStale(now = Date.now()): number[] {
+    const expired: number[] = [];
+    this.entries.forEach((entry, riderId) => {
+      if (now - entry.updatedAt > this.options.ttlMs) {
+        expired.push(riderId);
+      }
+    });
+    expired.forEach((riderId) => this.remove(riderId));
+    return expired;
+  }
+
+  private cellKey(latitude: number, longitude: number): string {
+    const size = this.options.cellSizeDeg;
+    return `${Math.floor(latitude / size)}:${Math.floor(longitude / size)}`;
+  }
+
+  private removeFromCell(cell: string, riderId: number): void {
+    const members = this.cells.get(cell);
+    members?.delete(riderId);
+    if (members && members.size === 0) {
+      this.cells.delete(cell);
+    }
+  }
+}
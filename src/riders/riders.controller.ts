@@ -1,10 +1,36 @@
-import { Controller, Put, Get, Post, Body, UseGuards, Request, Param, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Put,
+  Get,
+  Post,
+  Body,
+  Request,
+  Param,
+  Query,
+  BadRequestException,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { RidersService } from './riders.service';
+import { RiderLocationHistoryService } from './rider-location-history.service';
 import { DispatchGateway } from '../websockets/dispatch.gateway';
-import { UpdateRiderLocationDto, UpdateRiderAvailabilityDto } from '../dto/rider.dto';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SessionsService } from '../auth/sessions.service';
+import {
+  UpdateRiderLocationDto,
+  UpdateRiderAvailabilityDto,
+} from '../dto/rider.dto';
 import { RiderLocationResponse } from '../dto/responses.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 
 @ApiTags('riders')
 @ApiBearerAuth()
@@ -12,20 +38,22 @@ import { RiderLocationResponse } from '../dto/responses.dto';
 export class RidersController {
   constructor(
     private readonly ridersService: RidersService,
+    private readonly locationHistory: RiderLocationHistoryService,
     private readonly dispatchGateway: DispatchGateway,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   @ApiOperation({ summary: 'Update rider location' })
-  @ApiResponse({ 
-    status: 200, 
-    description: 'Location updated successfully' 
+  @ApiResponse({
+    status: 200,
+    description: 'Location updated successfully',
   })
-  @ApiResponse({ 
-    status: 400, 
-    description: 'Invalid location coordinates' 
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid location coordinates',
   })
-  @UseGuards(JwtAuthGuard)
   @Put('/mee/location')
+  @Roles(Role.RIDER)
   async updateLocation(
     @Request() req,
     @Body() data: UpdateRiderLocationDto,
@@ -34,55 +62,249 @@ export class RidersController {
     if (isNaN(riderId)) {
       throw new Error('Invalid user ID');
     }
-    const rider= await this.ridersService.updateLocation(riderId, data.latitude, data.longitude);
+    const rider = await this.ridersService.updateLocation(
+      riderId,
+      data.latitude,
+      data.longitude,
+    );
 
-    
     // Broadcast location update through WebSocket
-    this.dispatchGateway.handleRiderLocationUpdate(riderId, data.latitude, data.longitude);
-
-    return rider
+    this.dispatchGateway.handleRiderLocationUpdate(
+      riderId,
+      data.latitude,
+      data.longitude,
+    );
 
+    return rider;
   }
 
   @ApiOperation({ summary: 'Update rider availability status' })
-  @ApiResponse({ 
-    status: 200, 
-    description: 'Availability updated successfully' 
+  @ApiResponse({
+    status: 200,
+    description: 'Availability updated successfully',
   })
   @Put('availability')
-  @UseGuards(JwtAuthGuard)
+  @Roles(Role.RIDER)
   async updateAvailability(
     @Request() req,
-    @Body() data  : UpdateRiderAvailabilityDto,
+    @Body() data: UpdateRiderAvailabilityDto,
   ): Promise<any> {
     const riderId = req.user.userId;
-    const rider = await this.ridersService.updateAvailability(riderId, data.isAvailable);
+    const rider = await this.ridersService.updateAvailability(
+      riderId,
+      data.isAvailable,
+    );
     return rider;
   }
 
+  @ApiOperation({
+    summary: 'Compare the in-memory rider location index with the database',
+  })
+  @ApiQuery({
+    name: 'repair',
+    type: Boolean,
+    required: false,
+    description:
+      'Rehydrate the index from the database when inconsistencies are found',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Consistency report listing missing, unexpected and drifted riders',
+  })
+  @Get('location-index/consistency')
+  @Roles(Role.ADMIN)
+  async checkLocationIndexConsistency(@Query('repair') repair?: string) {
+    return this.ridersService.checkLocationIndexConsistency(repair === 'true');
+  }
+
+  @ApiOperation({
+    summary: 'Revoke every session of a rider and drop their live sockets',
+  })
+  @ApiParam({ name: 'id', description: 'Rider ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of revoked token families and disconnected sockets',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rider not found',
+  })
+  @Post(':id/sessions/revoke')
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async revokeSessions(@Param('id') id: number) {
+    const riderId = Number(id);
+    await this.ridersService.findById(riderId);
+
+    const revokedSessions = await this.sessionsService.revokeAllForSubject(
+      'rider',
+      riderId,
+      'revoked_by_admin',
+    );
+    const disconnectedSockets = await this.dispatchGateway.disconnectRider(
+      riderId,
+      'Sessions revoked by an administrator',
+    );
+    return { riderId, revokedSessions, disconnectedSockets };
+  }
+
+  @ApiOperation({
+    summary: "Get a rider's breadcrumb trail between two instants",
+  })
+  @ApiParam({ name: 'id', description: 'Rider ID' })
+  @ApiQuery({
+    name: 'from',
+    type: String,
+    required: false,
+    description: 'ISO timestamp to start from (default: 24 hours before `to`)',
+  })
+  @ApiQuery({
+    name: 'to',
+    type: String,
+    required: false,
+    description: 'ISO timestamp to end at (default: now)',
+  })
+  @ApiQuery({
+    name: 'tolerance',
+    type: Number,
+    required: false,
+    description:
+      'Douglas-Peucker simplification tolerance in metres (default: 0, no simplification)',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Ordered points plus the same path as a GeoJSON LineString feature',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid time range or tolerance',
+  })
+  @Get(':id/track')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE)
+  async getRiderTrack(
+    @Param('id') id: number,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('tolerance') tolerance?: string,
+  ) {
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from
+      ? new Date(from)
+      : new Date(toDate.getTime() - 24 * 60 * 60 * 1000);
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      throw new BadRequestException('from and to must be valid ISO timestamps');
+    }
+    if (fromDate > toDate) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const toleranceMeters = tolerance ? Number(tolerance) : 0;
+    if (isNaN(toleranceMeters) || toleranceMeters < 0) {
+      throw new BadRequestException(
+        'tolerance must be a non-negative number of metres',
+      );
+    }
+
+    return this.locationHistory.getTrack(
+      Number(id),
+      fromDate,
+      toDate,
+      toleranceMeters,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Get delivery, distance and rating stats for a rider',
+  })
+  @ApiParam({ name: 'id', description: 'Rider ID' })
+  @ApiQuery({
+    name: 'from',
+    type: String,
+    required: false,
+    description: 'Only count orders completed at or after this ISO timestamp',
+  })
+  @ApiQuery({
+    name: 'to',
+    type: String,
+    required: false,
+    description: 'Only count orders completed at or before this ISO timestamp',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Totals for the range plus a per-day breakdown',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rider not found',
+  })
+  @Get(':id/stats')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.RIDER)
+  async getRiderStats(
+    @Request() req,
+    @Param('id') id: number,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    if (
+      req.user.role === Role.RIDER &&
+      Number(req.user.userId) !== Number(id)
+    ) {
+      throw new ForbiddenException('Riders can only view their own stats');
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      throw new BadRequestException('from and to must be valid ISO timestamps');
+    }
+
+    return this.ridersService.getRiderStats(Number(id), {
+      from: fromDate,
+      to: toDate,
+    });
+  }
+
   @ApiOperation({ summary: 'Find nearby available riders' })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'List of nearby riders with distances',
-    type: [RiderLocationResponse] 
+    type: [RiderLocationResponse],
+  })
+  @ApiQuery({
+    name: 'longitude',
+    type: Number,
+    description: 'Center point longitude',
   })
-  @ApiQuery({ 
-    name: 'longitude', 
-    type: Number, 
-    description: 'Center point longitude' 
+  @ApiQuery({
+    name: 'radiusKm',
+    type: Number,
+    required: false,
+    description: 'Search radius in kilometers',
   })
-  @ApiQuery({ 
-    name: 'radiusKm', 
-    type: Number, 
-    required: false, 
-    description: 'Search radius in kilometers' 
+  @ApiQuery({
+    name: 'limit',
+    type: Number,
+    required: false,
+    description: 'Maximum number of riders to return, nearest first',
   })
   @Get('nearby')
+  @Roles(Role.DISPATCHER)
   async findNearbyRiders(
     @Query('latitude') latitude: number,
     @Query('longitude') longitude: number,
     @Query('radiusKm') radiusKm?: number,
+    @Query('limit') limit?: number,
   ) {
-    return this.ridersService.findNearbyAvailableRiders(latitude, longitude, radiusKm);
+    return this.ridersService.findNearbyAvailableRiders(
+      latitude,
+      longitude,
+      radiusKm,
+      limit,
+    );
   }
 }
@@ -1,14 +1,40 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { RidersService } from './riders.service';
-import { RidersController } from './riders.controller';
+import { RiderLocationIndex } from './rider-location.index';
+import { RiderLocationHistoryService } from './rider-location-history.service';
 import { DatabaseService } from 'src/config/database.service';
-import { RabbitMQService } from 'src/rabbitmq/rabbitmq.service';
+import { EventBusModule } from 'src/events/event-bus.module';
+import { MetricsModule } from 'src/metrics/metrics.module';
 import { CustomLogger } from 'src/common/logger/logger.service';
-import { DispatchGateway } from 'src/websockets/dispatch.gateway';
 
 @Module({
-  providers: [RidersService, DatabaseService, RabbitMQService, CustomLogger, DispatchGateway],
-  controllers: [RidersController],
-  exports: [RidersService],
+  imports: [EventBusModule, MetricsModule],
+  // RidersController and DispatchGateway are registered once in AppModule so a
+  // single gateway instance owns the /dispatch socket namespace
+  providers: [
+    RidersService,
+    RiderLocationHistoryService,
+    DatabaseService,
+    CustomLogger,
+    {
+      provide: RiderLocationIndex,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new RiderLocationIndex({
+          cellSizeDeg: parseFloat(
+            configService.get('RIDER_INDEX_CELL_SIZE_DEG', '0.01'),
+          ),
+          ttlMs: parseInt(configService.get('RIDER_INDEX_TTL_MS', '300000')),
+        }),
+    },
+  ],
+  // RidersService is the single owner of the location index; AppModule reuses it from here
+  exports: [
+    RidersService,
+    RiderLocationIndex,
+    RiderLocationHistoryService,
+    DatabaseService,
+  ],
 })
 export class RidersModule {}
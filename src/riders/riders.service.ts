@@ -1,17 +1,185 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { DatabaseService } from '../config/database.service';
-import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
+import { DeliveryEventBus } from '../events/delivery-event-bus';
+import { createEnvelope } from '../events/event-envelope';
 import { Rider } from '../models/rider.model';
+import { OrderStatus } from '../dto/order.dto';
 import { CustomLogger } from '../common/logger/logger.service';
+import { RiderLocationIndex } from './rider-location.index';
+import { RiderLocationHistoryService } from './rider-location-history.service';
+import { haversineKm } from '../common/geo/geo.utils';
+
+// Index positions further than this from the database count as drifted
+const INDEX_DRIFT_TOLERANCE_METERS = 50;
 
 @Injectable()
-export class RidersService {
+export class RidersService implements OnApplicationBootstrap, OnModuleDestroy {
+  // Resolved on first proximity query; null until then
+  private postgisEnabled: Promise<boolean> | null = null;
+  private readonly defaultSearchLimit: number;
+  private readonly indexSweepIntervalMs: number;
+  private indexSweepTimer?: NodeJS.Timeout;
+
   constructor(
     private readonly db: DatabaseService,
-    private readonly rabbitMQService: RabbitMQService,
+    private readonly eventBus: DeliveryEventBus,
     private readonly logger: CustomLogger,
+    private readonly configService: ConfigService,
+    private readonly locationIndex: RiderLocationIndex,
+    private readonly locationHistory: RiderLocationHistoryService,
   ) {
     this.logger.setContext(RidersService.name);
+    this.defaultSearchLimit = parseInt(
+      this.configService.get('RIDER_SEARCH_LIMIT', '50'),
+    );
+    this.indexSweepIntervalMs = parseInt(
+      this.configService.get('RIDER_INDEX_SWEEP_INTERVAL_MS', '30000'),
+    );
+  }
+
+  async onApplicationBootstrap() {
+    try {
+      await this.hydrateLocationIndex();
+    } catch (error) {
+      // Proximity queries keep using the database until a rehydrate succeeds
+      this.logger.error(
+        'Failed to hydrate rider location index',
+        error.stack,
+        'onApplicationBootstrap',
+      );
+    }
+
+    this.indexSweepTimer = setInterval(() => {
+      const expired = this.locationIndex.expireStale();
+      if (expired.length) {
+        this.logger.debug(
+          `Expired ${expired.length} stale rider positions from the location index`,
+        );
+      }
+    }, this.indexSweepIntervalMs);
+    this.indexSweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.indexSweepTimer) {
+      clearInterval(this.indexSweepTimer);
+    }
+  }
+
+  /** Loads available riders with a fresh position from the database into the index. */
+  async hydrateLocationIndex(): Promise<number> {
+    const riders = await this.db
+      .knex('riders')
+      .select('id', 'current_latitude', 'current_longitude', 'updated_at')
+      .where('is_available', true)
+      .whereNotNull('current_latitude')
+      .whereNotNull('current_longitude')
+      .where(
+        'updated_at',
+        '>',
+        new Date(Date.now() - this.locationIndex.ttlMs),
+      );
+
+    this.locationIndex.load(
+      riders.map((rider) => ({
+        riderId: rider.id,
+        latitude: Number(rider.current_latitude),
+        longitude: Number(rider.current_longitude),
+        updatedAt: new Date(rider.updated_at).getTime(),
+      })),
+    );
+    this.logger.log(
+      `Rider location index hydrated with ${riders.length} riders`,
+    );
+    return riders.length;
+  }
+
+  /**
+   * Compares the in-memory index against the riders table. Riders whose last
+   * database update is older than the index TTL are expected to be absent.
+   */
+  async checkLocationIndexConsistency(repair = false) {
+    try {
+      const riders = await this.db
+        .knex('riders')
+        .select(
+          'id',
+          'is_available',
+          'current_latitude',
+          'current_longitude',
+          'updated_at',
+        );
+
+      const cutoff = Date.now() - this.locationIndex.ttlMs;
+      const dbById = new Map(riders.map((rider) => [Number(rider.id), rider]));
+      const missingFromIndex: number[] = [];
+      const unexpectedInIndex: number[] = [];
+      const drifted: Array<{ riderId: number; driftMeters: number }> = [];
+
+      for (const rider of riders) {
+        const expected =
+          rider.is_available &&
+          rider.current_latitude !== null &&
+          rider.current_longitude !== null &&
+          new Date(rider.updated_at).getTime() > cutoff;
+        if (expected && !this.locationIndex.get(Number(rider.id))) {
+          missingFromIndex.push(Number(rider.id));
+        }
+      }
+
+      for (const entry of this.locationIndex.all()) {
+        const rider = dbById.get(entry.riderId);
+        if (!rider || !rider.is_available || rider.current_latitude === null) {
+          unexpectedInIndex.push(entry.riderId);
+          continue;
+        }
+        const driftMeters =
+          haversineKm(
+            entry.latitude,
+            entry.longitude,
+            Number(rider.current_latitude),
+            Number(rider.current_longitude),
+          ) * 1000;
+        if (driftMeters > INDEX_DRIFT_TOLERANCE_METERS) {
+          drifted.push({
+            riderId: entry.riderId,
+            driftMeters: Math.round(driftMeters),
+          });
+        }
+      }
+
+      const consistent =
+        !missingFromIndex.length &&
+        !unexpectedInIndex.length &&
+        !drifted.length;
+      if (!consistent && repair) {
+        await this.hydrateLocationIndex();
+      }
+
+      return {
+        consistent,
+        repaired: !consistent && repair,
+        hydrated: this.locationIndex.isHydrated,
+        indexSize: this.locationIndex.size,
+        missingFromIndex,
+        unexpectedInIndex,
+        drifted,
+        checkedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to check rider location index consistency',
+        error.stack,
+        'checkLocationIndexConsistency',
+      );
+      throw error;
+    }
   }
 
   async findById(id: number): Promise<{ rider: Rider; message: string }> {
@@ -24,23 +192,33 @@ export class RidersService {
 
       return {
         rider,
-        message: 'Rider found successfully'
+        message: 'Rider found successfully',
       };
     } catch (error) {
-      this.logger.error(`Failed to find rider with ID ${id}`, error.stack, 'findById');
+      this.logger.error(
+        `Failed to find rider with ID ${id}`,
+        error.stack,
+        'findById',
+      );
       throw error;
     }
   }
 
-  async findByEmail(email: string): Promise<{ rider: Rider | undefined; message: string }> {
+  async findByEmail(
+    email: string,
+  ): Promise<{ rider: Rider | undefined; message: string }> {
     try {
       const rider = await this.db.knex('riders').where('email', email).first();
       return {
         rider,
-        message: 'Rider found successfully'
+        message: 'Rider found successfully',
       };
     } catch (error) {
-      this.logger.error(`Failed to find rider with email ${email}`, error.stack, 'findByEmail');
+      this.logger.error(
+        `Failed to find rider with email ${email}`,
+        error.stack,
+        'findByEmail',
+      );
       throw error;
     }
   }
@@ -53,63 +231,124 @@ export class RidersService {
         .orderBy('updated_at', 'desc');
       return {
         riders,
-        message: 'Active riders retrieved successfully'
+        message: 'Active riders retrieved successfully',
       };
     } catch (error) {
-      this.logger.error('Failed to find all active riders', error.stack, 'findAllActiveRiders');
+      this.logger.error(
+        'Failed to find all active riders',
+        error.stack,
+        'findAllActiveRiders',
+      );
       throw error;
     }
   }
 
-  async updateLocation(riderId: number, latitude: number, longitude: number): Promise<{ message: string }> {
+  async updateLocation(
+    riderId: number,
+    latitude: number,
+    longitude: number,
+  ): Promise<{ message: string }> {
     try {
-      await this.db.knex.transaction(async (trx) => {
-        const updated = await trx('riders').where('id', riderId).update({
-          current_latitude: latitude,
-          current_longitude: longitude,
-          updated_at: trx.fn.now(),
-        });
-        // console.log(updated_loc)
-        console.log(updated)
+      const postgis = await this.isPostgisEnabled();
+      const isAvailable = await this.db.knex.transaction(async (trx) => {
+        // Keep the geography column in step when PostGIS is available
+        const location = postgis
+          ? {
+              location: trx.raw(
+                'ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography',
+                [longitude, latitude],
+              ),
+            }
+          : {};
+        const [updated] = await trx('riders')
+          .where('id', riderId)
+          .update(
+            {
+              current_latitude: latitude,
+              current_longitude: longitude,
+              ...location,
+              updated_at: trx.fn.now(),
+            },
+            ['id', 'is_available'],
+          );
 
         if (!updated) {
           throw new NotFoundException(`Rider with ID ${riderId} not found`);
         }
 
-        await this.rabbitMQService.publishRiderLocation({
-          riderId,
-          latitude,
-          longitude,
-        });
+        this.eventBus.publish(
+          createEnvelope('rider.location', {
+            riderId,
+            latitude,
+            longitude,
+          }),
+        );
+
+        return updated.is_available;
       });
+
+      this.locationHistory.record(riderId, latitude, longitude);
+      if (isAvailable) {
+        this.locationIndex.upsert(riderId, latitude, longitude);
+      } else {
+        this.locationIndex.remove(riderId);
+      }
+
       return {
         message: 'Location updated successfully',
       };
     } catch (error) {
-      this.logger.error(`Failed to update location for rider ${riderId}`, error.stack, 'updateLocation');
+      this.logger.error(
+        `Failed to update location for rider ${riderId}`,
+        error.stack,
+        'updateLocation',
+      );
       throw error;
     }
   }
 
-async updateAvailability(riderId: number, isAvailable: boolean): Promise<{ message: string, data: any }> {
+  async updateAvailability(
+    riderId: number,
+    isAvailable: boolean,
+  ): Promise<{ message: string; data: any }> {
     try {
-      const updated = await this.db
-        .knex('riders')
-        .where('id', riderId)
-        .update({
+      const rows = await this.db.knex('riders').where('id', riderId).update(
+        {
           is_available: isAvailable,
           updated_at: this.db.knex.fn.now(),
-        });
+        },
+        ['id', 'current_latitude', 'current_longitude'],
+      );
+      const [updated] = rows;
 
       if (!updated) {
         throw new NotFoundException(`Rider with ID ${riderId} not found`);
       }
+
+      if (
+        isAvailable &&
+        updated.current_latitude !== null &&
+        updated.current_longitude !== null
+      ) {
+        this.locationIndex.upsert(
+          riderId,
+          Number(updated.current_latitude),
+          Number(updated.current_longitude),
+        );
+      } else {
+        this.locationIndex.remove(riderId);
+      }
+
       return {
         message: 'Availability updated successfully',
-        data: updated
+        data: rows.length,
       };
     } catch (error) {
-      this.logger.error(`Failed to update availability for rider ${riderId}`, error.stack, 'updateAvailability');
+      this.logger.error(
+        `Failed to update availability for rider ${riderId}`,
+        error.stack,
+        'updateAvailability',
+      );
       throw error;
     }
   }
@@ -118,19 +357,113 @@ async updateAvailability(riderId: number, isAvailable: boolean): Promise<{ messa
     lat: number,
     lng: number,
     radiusKm = 5,
+    limit = this.defaultSearchLimit,
   ): Promise<Array<Rider & { distance: number }>> {
     try {
-      const result = await this.db.knex.raw(
-        `
+      if (this.locationIndex.isHydrated) {
+        return await this.findNearbyFromIndex(lat, lng, radiusKm, limit);
+      }
+
+      if (await this.isPostgisEnabled()) {
+        try {
+          return await this.findNearbyWithPostgis(lat, lng, radiusKm, limit);
+        } catch (error) {
+          // e.g. the extension was dropped after startup; stop trying until restart
+          this.logger.warn(
+            `PostGIS proximity query failed, falling back to haversine: ${error.message}`,
+          );
+          this.postgisEnabled = Promise.resolve(false);
+        }
+      }
+
+      return await this.findNearbyWithHaversine(lat, lng, radiusKm, limit);
+    } catch (error) {
+      this.logger.error(
+        'Failed to find nearby riders',
+        error.stack,
+        'findNearbyAvailableRiders',
+      );
+      throw error;
+    }
+  }
+
+  private async findNearbyFromIndex(
+    lat: number,
+    lng: number,
+    radiusKm: number,
+    limit: number,
+  ): Promise<Array<Rider & { distance: number }>> {
+    const nearby = this.locationIndex.queryRadius(lat, lng, radiusKm, limit);
+    if (!nearby.length) {
+      return [];
+    }
+
+    // Availability is re-checked against the database by primary key
+    const riders = await this.db
+      .knex('riders')
+      .whereIn(
+        'id',
+        nearby.map((entry) => entry.riderId),
+      )
+      .where('is_available', true);
+    const ridersById = new Map(
+      riders.map((rider) => [Number(rider.id), rider]),
+    );
+
+    return nearby
+      .filter((entry) => ridersById.has(entry.riderId))
+      .map((entry) =>
+        this.toProximityResult({
+          ...ridersById.get(entry.riderId),
+          current_latitude: entry.latitude,
+          current_longitude: entry.longitude,
+          distance: entry.distance,
+        }),
+      );
+  }
+
+  private async findNearbyWithPostgis(
+    lat: number,
+    lng: number,
+    radiusKm: number,
+    limit: number,
+  ): Promise<Array<Rider & { distance: number }>> {
+    // ST_DWithin uses the GiST index; <-> orders by KNN distance on the same index
+    const result = await this.db.knex.raw(
+      `
+      SELECT riders.*, ST_Distance(riders.location, origin.point) / 1000 AS distance
+      FROM riders,
+        (SELECT ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography AS point) AS origin
+      WHERE
+        riders.is_available = true
+        AND riders.location IS NOT NULL
+        AND ST_DWithin(riders.location, origin.point, ?)
+      ORDER BY riders.location <-> origin.point
+      LIMIT ?
+    `,
+      [lng, lat, radiusKm * 1000, limit],
+    );
+
+    return result.rows.map((row) => this.toProximityResult(row));
+  }
+
+  private async findNearbyWithHaversine(
+    lat: number,
+    lng: number,
+    radiusKm: number,
+    limit: number,
+  ): Promise<Array<Rider & { distance: number }>> {
+    const result = await this.db.knex.raw(
+      `
       WITH rider_distances AS (
         SELECT 
           riders.*,
           (
-            6371 * acos(
+            6371 * acos(LEAST(1,
               cos(radians(?)) * cos(radians(current_latitude)) *
               cos(radians(current_longitude) - radians(?)) +
               sin(radians(?)) * sin(radians(current_latitude))
-            )
+            ))
           ) AS distance
         FROM riders
         WHERE 
@@ -142,29 +475,99 @@ async updateAvailability(riderId: number, isAvailable: boolean): Promise<{ messa
       FROM rider_distances
       WHERE distance < ?
       ORDER BY distance ASC
+      LIMIT ?
     `,
-        [lat, lng, lat, radiusKm],
+      [lat, lng, lat, radiusKm, limit],
+    );
+
+    return result.rows.map((row) => this.toProximityResult(row));
+  }
+
+  // Drops the raw geography value and credentials from proximity results
+  private toProximityResult(row: any): Rider & { distance: number } {
+    const rider = { ...row, distance: Number(row.distance) };
+    delete rider.location;
+    delete rider.password;
+    return rider;
+  }
+
+  private isPostgisEnabled(): Promise<boolean> {
+    if (!this.postgisEnabled) {
+      this.postgisEnabled = this.db.hasColumn('riders', 'location').then(
+        (enabled) => {
+          this.logger.log(
+            enabled
+              ? 'PostGIS rider locations detected; using indexed proximity queries'
+              : 'riders.location not found; using haversine proximity queries',
+          );
+          return enabled;
+        },
+        (error) => {
+          this.logger.warn(
+            `Could not detect PostGIS support: ${error.message}`,
+          );
+          this.postgisEnabled = null; // retry detection on the next call
+          return false;
+        },
       );
+    }
+    return this.postgisEnabled;
+  }
 
-      return result.rows;
+  async getCurrentOrders(riderId: number): Promise<any[]> {
+    try {
+      return (
+        this.db
+          .knex('orders')
+          .where({
+            rider_id: riderId,
+            completed: false,
+            cancelled: false,
+          })
+          // Returned orders are off the rider's hands once ops decide so
+          .whereNot('status', OrderStatus.RETURNED)
+          .orderBy('created_at', 'desc')
+      );
     } catch (error) {
-      this.logger.error('Failed to find nearby riders', error.stack, 'findNearbyAvailableRiders');
+      this.logger.error(
+        `Failed to get current orders for rider ${riderId}`,
+        error.stack,
+        'getCurrentOrders',
+      );
       throw error;
     }
   }
 
-  async getCurrentOrders(riderId: number): Promise<any[]> {
+  /** Active order count per rider, using the same criteria as getCurrentOrders. */
+  async getCurrentOrderCounts(
+    riderIds: number[],
+  ): Promise<Map<number, number>> {
     try {
-      return this.db
+      if (!riderIds.length) {
+        return new Map();
+      }
+
+      const rows = await this.db
         .knex('orders')
+        .select('rider_id')
+        .count('id as count')
+        .whereIn('rider_id', riderIds)
         .where({
-          rider_id: riderId,
           completed: false,
           cancelled: false,
         })
-        .orderBy('created_at', 'desc');
+        .whereNot('status', OrderStatus.RETURNED)
+        .groupBy('rider_id');
+
+      return new Map(
+        rows.map((row) => [Number(row.rider_id), Number(row.count)]),
+      );
     } catch (error) {
-      this.logger.error(`Failed to get current orders for rider ${riderId}`, error.stack, 'getCurrentOrders');
+      this.logger.error(
+        'Failed to count current orders for riders',
+        error.stack,
+        'getCurrentOrderCounts',
+      );
       throw error;
     }
   }
@@ -178,11 +581,15 @@ async updateAvailability(riderId: number, isAvailable: boolean): Promise<{ messa
         .first();
 
       return {
-        count: parseInt(result?.count as string ?? '0'),
-        message: 'Active riders count retrieved successfully'
+        count: parseInt((result?.count as string) ?? '0'),
+        message: 'Active riders count retrieved successfully',
       };
     } catch (error) {
-      this.logger.error('Failed to count active riders', error.stack, 'countActiveRiders');
+      this.logger.error(
+        'Failed to count active riders',
+        error.stack,
+        'countActiveRiders',
+      );
       throw error;
     }
   }
@@ -205,36 +612,115 @@ async updateAvailability(riderId: number, isAvailable: boolean): Promise<{ messa
     }
   }
 
-  async getRiderStats(riderId: number): Promise<any> {
+  /**
+   * Delivery totals for a rider over an optional completion-date range, with a
+   * per-day breakdown. Orders delivered before distance tracking existed fall
+   * back to the straight-line pickup to drop-off distance.
+   */
+  async getRiderStats(
+    riderId: number,
+    range: { from?: Date; to?: Date } = {},
+  ): Promise<any> {
     try {
-      const [totalDeliveries, totalDistance, avgRating] = await Promise.all([
-        this.db.knex('orders').where({ rider_id: riderId, completed: true }).count('id as count').first(),
+      await this.findById(riderId);
 
-        this.db.knex.raw(
-          `
-        SELECT SUM(
-          6371 * acos(
+      const distanceSql = `
+        COALESCE(
+          travelled_distance_km,
+          6371 * 2 * asin(LEAST(1, sqrt(
+            power(sin(radians(delivery_latitude - pickup_latitude) / 2), 2) +
             cos(radians(pickup_latitude)) * cos(radians(delivery_latitude)) *
-            cos(radians(delivery_longitude) - radians(pickup_longitude)) +
-            sin(radians(pickup_latitude)) * sin(radians(delivery_latitude))
-          )
-        ) as total_distance
-        FROM orders
-        WHERE rider_id = ? AND completed = true
-      `,
-          [riderId],
-        ),
+            power(sin(radians(delivery_longitude - pickup_longitude) / 2), 2)
+          ))),
+          0
+        )`;
+
+      const rows = await this.db
+        .knex('orders')
+        .select(this.db.knex.raw('DATE(completed_time) AS day'))
+        .count('id as deliveries')
+        .select(this.db.knex.raw(`SUM(${distanceSql}) AS distance_km`))
+        .select(this.db.knex.raw('COUNT(rating) AS rated'))
+        .select(this.db.knex.raw('SUM(rating) AS rating_sum'))
+        .where({ rider_id: riderId, completed: true })
+        .whereNotNull('completed_time')
+        .modify((query) => {
+          if (range.from) {
+            query.where('completed_time', '>=', range.from);
+          }
+          if (range.to) {
+            query.where('completed_time', '<=', range.to);
+          }
+        })
+        .groupByRaw('DATE(completed_time)')
+        .orderBy('day', 'asc');
+
+      const daily = rows.map((row: any) => ({
+        date:
+          row.day instanceof Date
+            ? row.day.toISOString().slice(0, 10)
+            : String(row.day),
+        deliveries: Number(row.deliveries),
+        distanceKm: Number(Number(row.distance_km ?? 0).toFixed(3)),
+        ratingCount: Number(row.rated),
+        averageRating: Number(row.rated)
+          ? Number((Number(row.rating_sum) / Number(row.rated)).toFixed(2))
+          : null,
+      }));
+
+      const ratingCount = rows.reduce(
+        (sum, row: any) => sum + Number(row.rated),
+        0,
+      );
+      const ratingSum = rows.reduce(
+        (sum, row: any) => sum + Number(row.rating_sum ?? 0),
+        0,
+      );
+      const totalDeliveries = daily.reduce(
+        (sum, day) => sum + day.deliveries,
+        0,
+      );
 
-        this.db.knex('orders').where({ rider_id: riderId, completed: true }).avg('rating as average').first(),
-      ]);
+      const failed = await this.db
+        .knex('failed_trips')
+        .where('rider_id', riderId)
+        .modify((query) => {
+          if (range.from) {
+            query.where('reported_at', '>=', range.from);
+          }
+          if (range.to) {
+            query.where('reported_at', '<=', range.to);
+          }
+        })
+        .count('id as count')
+        .first();
+      const failedTrips = Number(failed?.count ?? 0);
 
       return {
-        totalDeliveries: parseInt(totalDeliveries?.count as string ?? '0'),
-        totalDistance: parseFloat(totalDistance.rows[0]?.total_distance || '0'),
-        averageRating: parseFloat(avgRating?.average as string ?? '0'),
+        riderId,
+        from: range.from ?? null,
+        to: range.to ?? null,
+        totalDeliveries,
+        failedTrips,
+        // Share of delivery attempts that failed
+        failedTripRate: failedTrips
+          ? Number((failedTrips / (failedTrips + totalDeliveries)).toFixed(4))
+          : 0,
+        totalDistance: Number(
+          daily.reduce((sum, day) => sum + day.distanceKm, 0).toFixed(3),
+        ),
+        ratingCount,
+        averageRating: ratingCount
+          ? Number((ratingSum / ratingCount).toFixed(2))
+          : null,
+        daily,
       };
     } catch (error) {
-      this.logger.error(`Failed to get stats for rider ${riderId}`, error.stack, 'getRiderStats');
+      this.logger.error(
+        `Failed to get stats for rider ${riderId}`,
+        error.stack,
+        'getRiderStats',
+      );
       throw error;
     }
   }
@@ -0,0 +1,49 @@
+import { Body, Controller, Get, Param, Post, Put } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { CreateUserDto, UpdateUserDto } from '../dto/user.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@Roles(Role.ADMIN)
+@Controller('users')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @ApiOperation({ summary: 'Create a staff user' })
+  @ApiResponse({ status: 201, description: 'User created' })
+  @ApiResponse({ status: 409, description: 'Email already registered' })
+  @Post()
+  async createUser(@Body() data: CreateUserDto) {
+    return this.usersService.create(data);
+  }
+
+  @ApiOperation({ summary: 'List staff users' })
+  @Get()
+  async getUsers() {
+    return this.usersService.findAll();
+  }
+
+  @ApiOperation({ summary: 'Get a staff user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @Get(':id')
+  async getUser(@Param('id') id: number) {
+    return this.usersService.findById(id);
+  }
+
+  @ApiOperation({
+    summary: "Change a staff user's role, kitchen or active flag",
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @Put(':id')
+  async updateUser(@Param('id') id: number, @Body() data: UpdateUserDto) {
+    return this.usersService.update(id, data);
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { User } from '../models/user.model';
+import { CreateUserDto, UpdateUserDto } from '../dto/user.dto';
+import { Role } from '../auth/roles';
+
+const PUBLIC_COLUMNS = [
+  'id',
+  'name',
+  'email',
+  'role',
+  'cokitchen_id',
+  'is_active',
+  'created_at',
+  'updated_at',
+];
+
+@Injectable()
+export class UsersService implements OnApplicationBootstrap {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(UsersService.name);
+  }
+
+  /** Creates the first admin from ADMIN_EMAIL / ADMIN_PASSWORD if missing. */
+  async onApplicationBootstrap() {
+    const email = this.configService.get<string>('ADMIN_EMAIL');
+    const password = this.configService.get<string>('ADMIN_PASSWORD');
+    if (!email || !password) {
+      return;
+    }
+
+    try {
+      const existing = await this.db
+        .knex('users')
+        .where('email', email)
+        .first('id');
+      if (!existing) {
+        await this.create({
+          name: 'Administrator',
+          email,
+          password,
+          role: Role.ADMIN,
+        });
+        this.logger.log(`Bootstrapped admin user ${email}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to bootstrap admin user',
+        error.stack,
+        'onApplicationBootstrap',
+      );
+    }
+  }
+
+  async create(data: CreateUserDto): Promise<User> {
+    try {
+      const existing = await this.db
+        .knex('users')
+        .where('email', data.email)
+        .first('id');
+      if (existing) {
+        throw new ConflictException('Email already registered');
+      }
+
+      const [user] = await this.db
+        .knex('users')
+        .insert({
+          name: data.name,
+          email: data.email,
+          password: await bcrypt.hash(data.password, 10),
+          role: data.role,
+          cokitchen_id: data.cokitchen_id ?? null,
+        })
+        .returning(PUBLIC_COLUMNS);
+      return user;
+    } catch (error) {
+      this.logger.error('Failed to create user', error.stack, 'create');
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.db.knex('users').select(PUBLIC_COLUMNS).orderBy('id', 'asc');
+  }
+
+  async findById(id: number): Promise<User> {
+    const user = await this.db
+      .knex('users')
+      .where('id', id)
+      .first(PUBLIC_COLUMNS);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+
+  /**
+   * The kitchen a user is limited to: the one on a kitchen account, or null
+   * for dispatchers and admins, who may act on any kitchen.
+   */
+  async getKitchenScope(user: {
+    userId: number | string;
+    role: string;
+  }): Promise<string | null> {
+    if (user.role !== Role.KITCHEN) {
+      return null;
+    }
+    const account = await this.findById(Number(user.userId));
+    if (!account.cokitchen_id) {
+      throw new ForbiddenException('Your account is not linked to a kitchen');
+    }
+    return account.cokitchen_id;
+  }
+
+  /** Includes the password hash; only for credential checks. */
+  async findByEmailWithPassword(email: string): Promise<User | undefined> {
+    return this.db.knex('users').where('email', email).first();
+  }
+
+  async update(id: number, data: UpdateUserDto): Promise<User> {
+    try {
+      const [user] = await this.db
+        .knex('users')
+        .where('id', id)
+        .update({
+          ...(data.role !== undefined && { role: data.role }),
+          ...(data.cokitchen_id !== undefined && {
+            cokitchen_id: data.cokitchen_id,
+          }),
+          ...(data.is_active !== undefined && { is_active: data.is_active }),
+          updated_at: this.db.knex.fn.now(),
+        })
+        .returning(PUBLIC_COLUMNS);
+
+      if (!user) {
+        throw new NotFoundException(`User with ID ${id} not found`);
+      }
+      return user;
+    } catch (error) {
+      this.logger.error(`Failed to update user ${id}`, error.stack, 'update');
+      throw error;
+    }
+  }
+}
@@ -1,99 +1,627 @@
-import { WebSocketGateway, WebSocketServer, SubscribeMessage, MessageBody, ConnectedSocket } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
-import { Injectable } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  OnGatewayInit,
+} from '@nestjs/websockets';
+import { Namespace, Server, Socket } from 'socket.io';
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { CustomLogger } from '../common/logger/logger.service';
-import { 
-  RiderLocationUpdateMessage, 
-  OrderAssignmentMessage, 
-  OrderActionMessage,
-  OrderRejectionMessage,
-  NewOrderMessage 
+import { DispatchEngineService } from '../dispatch/dispatch-engine.service';
+import { OrderTrackingService } from '../orders/order-tracking.service';
+import { TrackingTokenService } from '../auth/tracking-token.service';
+import { AuthService } from '../auth/auth.service';
+import { SessionsService } from '../auth/sessions.service';
+import { UsersService } from '../users/users.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { Role } from '../auth/roles';
+import {
+  RiderLocationUpdateMessage,
+  OrderAssignmentMessage,
+  NewOrderMessage,
+  OrderOfferDetails,
+  OfferRevokedMessage,
+  DispatchFailedMessage,
+  RiderAssignmentNoticeMessage,
+  OrderCancelledMessage,
+  FailedTripMessage,
+  KitchenOrderMessage,
 } from '../interfaces/websocket-messages';
+import { OrdersService } from '../orders/orders.service';
+import { FailedTrip } from '../models/failed-trip.model';
+import { Order } from '../models/order.model';
+import { FailedTripReason } from '../dto/failed-trip.dto';
+
+// Customers following an order join this room
+const orderRoom = (orderId: number) => `order:${orderId}`;
+// Kitchen staff following a kitchen's orders join this room
+const kitchenRoom = (cokitchenId: string) => `kitchen:${cokitchenId}`;
+
+// Who a socket authenticated as during the handshake (stored on socket.data)
+type SocketPrincipal =
+  | { kind: 'user'; user: AuthenticatedUser }
+  | { kind: 'customer'; orderId: number };
 
 @WebSocketGateway({ namespace: '/dispatch', cors: true })
 @Injectable()
-export class DispatchGateway {
+export class DispatchGateway
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleDestroy
+{
   @WebSocketServer()
   server: Server;
 
   private riderSockets: Map<number, string> = new Map(); // riderId -> socketId
   private dispatchSockets: Set<string> = new Set(); // Set of dispatcher socket IDs
+  private sessionCheckTimer?: NodeJS.Timeout;
 
-  constructor(private readonly logger: CustomLogger) {
+  constructor(
+    private readonly logger: CustomLogger,
+    @Inject(forwardRef(() => DispatchEngineService))
+    private readonly dispatchEngine: DispatchEngineService,
+    @Inject(forwardRef(() => OrderTrackingService))
+    private readonly orderTracking: OrderTrackingService,
+    private readonly trackingTokens: TrackingTokenService,
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+    private readonly ordersService: OrdersService,
+    private readonly usersService: UsersService,
+  ) {
     this.logger.setContext(DispatchGateway.name);
+    this.metrics.trackSocketConnections(() => this.getConnectionStats());
+  }
+
+  afterInit() {
+    // Sessions can be revoked from any instance (logout, reuse detection), so
+    // connected sockets are re-checked periodically
+    const intervalMs = parseInt(
+      this.configService.get('SOCKET_SESSION_CHECK_INTERVAL_MS', '30000'),
+    );
+    this.sessionCheckTimer = setInterval(() => {
+      this.disconnectRevokedSessions().catch((error) =>
+        this.logger.error(
+          'Failed to re-check socket sessions',
+          error.stack,
+          'afterInit',
+        ),
+      );
+    }, intervalMs);
+    this.sessionCheckTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sessionCheckTimer) {
+      clearInterval(this.sessionCheckTimer);
+    }
+  }
+
+  /**
+   * Authenticates the handshake with either an access token (riders and
+   * dispatchers) or an order tracking token (customers). The token is read
+   * from `auth.token`, the Authorization header or the `token` query param.
+   */
+  async handleConnection(client: Socket) {
+    const token = this.extractToken(client);
+    if (!token) {
+      return this.rejectConnection(client, 'missing token');
+    }
+
+    let orderId: number | undefined;
+    try {
+      orderId = this.trackingTokens.verify(token);
+    } catch {
+      // Not a tracking token; treat it as an access token below
+    }
+
+    if (orderId !== undefined) {
+      client.data.principal = { kind: 'customer', orderId } as SocketPrincipal;
+      await client.join(orderRoom(orderId));
+      return;
+    }
+
+    try {
+      const user = await this.authService.verifyAccessToken(token);
+      client.data.principal = { kind: 'user', user } as SocketPrincipal;
+    } catch (error) {
+      this.rejectConnection(client, error.message);
+    }
+  }
+
+  handleDisconnect(client: Socket) {
+    for (const [riderId, socketId] of this.riderSockets) {
+      if (socketId === client.id) {
+        this.riderSockets.delete(riderId);
+        this.broadcastToDispatchers('riderDisconnected', { riderId });
+      }
+    }
+    this.dispatchSockets.delete(client.id);
+  }
+
+  /** Sockets connected to this instance, by kind of principal. */
+  getConnectionStats(): {
+    connected: number;
+    riders: number;
+    staff: number;
+    customers: number;
+  } {
+    const stats = { connected: 0, riders: 0, staff: 0, customers: 0 };
+    // With a namespaced gateway the injected server is the /dispatch Namespace
+    const namespace = this.server as unknown as Namespace | undefined;
+    for (const socket of namespace?.sockets.values() ?? []) {
+      const principal: SocketPrincipal | undefined = socket.data?.principal;
+      stats.connected++;
+      if (principal?.kind === 'customer') {
+        stats.customers++;
+      } else if (principal?.user.role === Role.RIDER) {
+        stats.riders++;
+      } else if (principal) {
+        stats.staff++;
+      }
+    }
+    return stats;
+  }
+
+  /** Drops every live socket of a rider, e.g. after an admin revoked their sessions. */
+  async disconnectRider(riderId: number, reason: string): Promise<number> {
+    const sockets = await this.server.fetchSockets();
+    const riderSockets = sockets.filter((socket) => {
+      const principal: SocketPrincipal | undefined = socket.data?.principal;
+      return (
+        principal?.kind === 'user' &&
+        principal.user.role === Role.RIDER &&
+        Number(principal.user.userId) === riderId
+      );
+    });
+
+    riderSockets.forEach((socket) => {
+      socket.emit('sessionRevoked', { reason });
+      socket.disconnect(true);
+    });
+    if (riderSockets.length) {
+      this.logger.log(
+        `Disconnected ${riderSockets.length} sockets of rider ${riderId}: ${reason}`,
+      );
+    }
+    return riderSockets.length;
   }
 
-  handleRiderLocationUpdate(riderId: number, latitude: number, longitude: number): void {
+  private async disconnectRevokedSessions(): Promise<void> {
+    const sockets = await this.server.fetchSockets();
+    const sessionIds = new Set<string>();
+    sockets.forEach((socket) => {
+      const principal: SocketPrincipal | undefined = socket.data?.principal;
+      if (principal?.kind === 'user' && principal.user.sid) {
+        sessionIds.add(principal.user.sid);
+      }
+    });
+
+    const revoked = await this.sessionsService.findRevokedSessions([
+      ...sessionIds,
+    ]);
+    if (!revoked.size) {
+      return;
+    }
+
+    sockets.forEach((socket) => {
+      const principal: SocketPrincipal | undefined = socket.data?.principal;
+      if (
+        principal?.kind === 'user' &&
+        principal.user.sid &&
+        revoked.has(principal.user.sid)
+      ) {
+        this.logger.warn(
+          `Disconnecting socket ${socket.id}: session ${principal.user.sid} was revoked`,
+        );
+        socket.emit('sessionRevoked', { reason: 'Session has been revoked' });
+        socket.disconnect(true);
+      }
+    });
+  }
+
+  handleRiderLocationUpdate(
+    riderId: number,
+    latitude: number,
+    longitude: number,
+  ): void {
     try {
-      const message: RiderLocationUpdateMessage = { riderId, latitude, longitude };
-      this.server.emit('riderLocationUpdate', message);
-      this.logger.log(`Rider ${riderId} location updated: ${latitude}, ${longitude}`);
-      // Also notify dispatch dashboard specifically
+      const message: RiderLocationUpdateMessage = {
+        riderId,
+        latitude,
+        longitude,
+      };
+      this.logger.log(
+        `Rider ${riderId} location updated: ${latitude}, ${longitude}`,
+      );
+      // Only dispatchers see every rider; customers get the rider carrying their order
       this.broadcastToDispatchers('riderLocationUpdate', message);
+      void this.orderTracking.handleRiderPosition(riderId, latitude, longitude);
     } catch (error) {
-      this.logger.error('Failed to handle rider location update', error.stack, 'handleRiderLocationUpdate');
+      this.logger.error(
+        'Failed to handle rider location update',
+        error.stack,
+        'handleRiderLocationUpdate',
+      );
     }
   }
 
-  sendOrderToRider(riderId: string | number, order: NewOrderMessage['order']): boolean {
+  sendOrderToRider(
+    riderId: string | number,
+    order: NewOrderMessage['order'],
+  ): boolean {
     try {
-      const riderIdNumber = typeof riderId === 'string' ? parseInt(riderId) : riderId;
+      const riderIdNumber =
+        typeof riderId === 'string' ? parseInt(riderId) : riderId;
       const socketId = this.riderSockets.get(riderIdNumber);
       if (socketId) {
         this.server.to(socketId).emit('newOrder', { order });
         this.logger.debug(`Order sent to rider ${riderId}`);
         return true;
       }
-      this.logger.warn(`Failed to send order to rider ${riderId}: rider not connected`);
+      this.logger.warn(
+        `Failed to send order to rider ${riderId}: rider not connected`,
+      );
       return false;
     } catch (error) {
-      this.logger.error(`Failed to send order to rider ${riderId}`, error.stack, 'sendOrderToRider');
+      this.logger.error(
+        `Failed to send order to rider ${riderId}`,
+        error.stack,
+        'sendOrderToRider',
+      );
       return false;
     }
   }
 
+  sendOfferToRider(
+    riderId: number,
+    order: NewOrderMessage['order'],
+    offer: OrderOfferDetails,
+  ): boolean {
+    try {
+      const socketId = this.riderSockets.get(riderId);
+      if (socketId) {
+        const message: NewOrderMessage = { order, offer };
+        this.server.to(socketId).emit('newOrder', message);
+        this.logger.debug(
+          `Offer ${offer.id} for order ${order.id} sent to rider ${riderId}`,
+        );
+        return true;
+      }
+      this.logger.warn(
+        `Failed to send offer to rider ${riderId}: rider not connected`,
+      );
+      return false;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send offer to rider ${riderId}`,
+        error.stack,
+        'sendOfferToRider',
+      );
+      return false;
+    }
+  }
+
+  sendAssignmentToRider(notice: RiderAssignmentNoticeMessage): boolean {
+    try {
+      const socketId = this.riderSockets.get(notice.riderId);
+      if (socketId) {
+        this.server.to(socketId).emit('orderAssignment', notice);
+        this.logger.debug(
+          `Assignment of order ${notice.orderId} sent to rider ${notice.riderId}`,
+        );
+        return true;
+      }
+      this.logger.warn(
+        `Failed to send assignment of order ${notice.orderId} to rider ${notice.riderId}: rider not connected`,
+      );
+      return false;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send assignment to rider ${notice.riderId}`,
+        error.stack,
+        'sendAssignmentToRider',
+      );
+      return false;
+    }
+  }
+
+  /** Tells the released rider (if connected) and dispatchers that an order was cancelled. */
+  notifyOrderCancelled(notice: OrderCancelledMessage): boolean {
+    this.broadcastToDispatchers('orderCancelled', notice);
+    if (notice.riderId == null) {
+      return false;
+    }
+
+    try {
+      const socketId = this.riderSockets.get(notice.riderId);
+      if (socketId) {
+        this.server.to(socketId).emit('orderCancelled', notice);
+        this.logger.debug(
+          `Cancellation of order ${notice.orderId} sent to rider ${notice.riderId}`,
+        );
+        return true;
+      }
+      this.logger.warn(
+        `Failed to send cancellation of order ${notice.orderId} to rider ${notice.riderId}: rider not connected`,
+      );
+      return false;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send cancellation to rider ${notice.riderId}`,
+        error.stack,
+        'notifyOrderCancelled',
+      );
+      return false;
+    }
+  }
+
+  /** Lets dispatchers know a trip failed and needs a decision. */
+  broadcastFailedTripReported(failedTrip: FailedTrip): void {
+    this.broadcastToDispatchers(
+      'failedTripReported',
+      this.toFailedTripMessage(failedTrip),
+    );
+  }
+
+  /** Tells dispatchers and the rider who reported the failed trip what ops decided. */
+  notifyFailedTripResolved(failedTrip: FailedTrip): void {
+    const message = this.toFailedTripMessage(failedTrip);
+    this.broadcastToDispatchers('failedTripResolved', message);
+
+    try {
+      const socketId = this.riderSockets.get(message.riderId);
+      if (socketId) {
+        this.server.to(socketId).emit('failedTripResolved', message);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send failed trip resolution to rider ${message.riderId}`,
+        error.stack,
+        'notifyFailedTripResolved',
+      );
+    }
+  }
+
+  private toFailedTripMessage(failedTrip: FailedTrip): FailedTripMessage {
+    return {
+      orderId: Number(failedTrip.order_id),
+      riderId: Number(failedTrip.rider_id),
+      failedTripId: failedTrip.id,
+      reason: failedTrip.reason,
+      note: failedTrip.note,
+      photoRef: failedTrip.photo_ref,
+      latitude:
+        failedTrip.latitude != null ? Number(failedTrip.latitude) : null,
+      longitude:
+        failedTrip.longitude != null ? Number(failedTrip.longitude) : null,
+      reportedAt: new Date(failedTrip.reported_at).toISOString(),
+      resolution: failedTrip.resolution,
+      resolutionNote: failedTrip.resolution_note,
+    };
+  }
+
+  revokeOfferFromRider(riderId: number, orderId: number, reason: string): void {
+    try {
+      const socketId = this.riderSockets.get(riderId);
+      if (socketId) {
+        const message: OfferRevokedMessage = { orderId, reason };
+        this.server.to(socketId).emit('offerRevoked', message);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to revoke offer from rider ${riderId}`,
+        error.stack,
+        'revokeOfferFromRider',
+      );
+    }
+  }
+
+  broadcastDispatchFailed(orderId: number, rounds: number): void {
+    const message: DispatchFailedMessage = { orderId, rounds };
+    this.broadcastToDispatchers('dispatchFailed', message);
+  }
+
+  emitToKitchen(
+    cokitchenId: string | null | undefined,
+    event: string,
+    data: any,
+  ): void {
+    if (!cokitchenId) {
+      return;
+    }
+    try {
+      this.server.to(kitchenRoom(cokitchenId)).emit(event, data);
+    } catch (error) {
+      this.logger.error(
+        `Failed to emit '${event}' to kitchen ${cokitchenId}`,
+        error.stack,
+        'emitToKitchen',
+      );
+    }
+  }
+
+  /** Sends the kitchen's view of an order (without its pickup code) to the kitchen room. */
+  notifyKitchenOrderUpdated(order: Order): void {
+    this.emitToKitchen(
+      order.calculated_order?.cokitchen_id,
+      'kitchenOrderUpdated',
+      this.toKitchenOrderMessage(order),
+    );
+  }
+
+  /** Announces an order that has just reached the kitchen, e.g. a released scheduled order. */
+  notifyKitchenNewOrder(order: Order): void {
+    this.emitToKitchen(
+      order.calculated_order?.cokitchen_id,
+      'kitchenNewOrder',
+      this.toKitchenOrderMessage(order),
+    );
+  }
+
+  private toKitchenOrderMessage(order: Order): KitchenOrderMessage {
+    return {
+      orderId: Number(order.id),
+      orderCode: order.order_code ?? null,
+      status: order.status,
+      kitchenPrepared: !!order.kitchen_prepared,
+      boxNumber: order.box_number ?? null,
+      shelfId: order.shelf_id ?? null,
+      riderId: order.rider_id != null ? Number(order.rider_id) : null,
+      scheduled: !!order.scheduled,
+      updatedAt: new Date(order.updated_at).toISOString(),
+    };
+  }
+
+  emitToOrder(orderId: number, event: string, data: any): void {
+    try {
+      this.server.to(orderRoom(orderId)).emit(event, data);
+    } catch (error) {
+      this.logger.error(
+        `Failed to emit '${event}' for order ${orderId}`,
+        error.stack,
+        'emitToOrder',
+      );
+    }
+  }
+
   broadcastOrderAssignment(orderId: number, riderId: number): void {
     try {
       const message: OrderAssignmentMessage = { orderId, riderId };
       this.broadcastToDispatchers('orderAssigned', message);
+      this.emitToOrder(orderId, 'riderAssigned', message);
     } catch (error) {
-      this.logger.error('Failed to broadcast order assignment', error.stack, 'broadcastOrderAssignment');
+      this.logger.error(
+        'Failed to broadcast order assignment',
+        error.stack,
+        'broadcastOrderAssignment',
+      );
+    }
+  }
+
+  @SubscribeMessage('subscribeOrder')
+  async handleSubscribeOrder(
+    @MessageBody() data: { token: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const orderId = this.trackingTokens.verify(data?.token);
+      await client.join(orderRoom(orderId));
+      this.logger.log(`Socket ${client.id} is tracking order ${orderId}`);
+      return {
+        event: 'orderSubscribed',
+        data: await this.orderTracking.getSnapshot(orderId),
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Rejected order subscription from socket ${client.id}: ${error.message}`,
+      );
+      return {
+        event: 'trackingError',
+        data: { message: 'Invalid or expired tracking token' },
+      };
+    }
+  }
+
+  @SubscribeMessage('unsubscribeOrder')
+  async handleUnsubscribeOrder(
+    @MessageBody() data: { token: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const orderId = this.trackingTokens.verify(data?.token);
+      await client.leave(orderRoom(orderId));
+      return { event: 'orderUnsubscribed', data: { orderId } };
+    } catch {
+      return {
+        event: 'trackingError',
+        data: { message: 'Invalid or expired tracking token' },
+      };
     }
   }
 
   @SubscribeMessage('registerRider')
-  handleRegisterRider(@MessageBody() data: { riderId: number }, @ConnectedSocket() client: Socket) {
+  handleRegisterRider(@ConnectedSocket() client: Socket) {
+    const riderId = this.authorizeRider(client, 'registerRider');
+    if (riderId === null) {
+      return {
+        event: 'authError',
+        data: { message: 'Only rider tokens can register as a rider' },
+      };
+    }
+
     try {
-      this.riderSockets.set(data.riderId, client.id);
-      this.logger.log(`Rider ${data.riderId} registered with socket ${client.id}`);
+      this.riderSockets.set(riderId, client.id);
+      this.logger.log(`Rider ${riderId} registered with socket ${client.id}`);
       // Notify dispatchers of new rider connection
-      this.broadcastToDispatchers('riderConnected', { riderId: data.riderId });
+      this.broadcastToDispatchers('riderConnected', { riderId });
     } catch (error) {
-      this.logger.error(`Failed to register rider ${data.riderId}`, error.stack, 'handleRegisterRider');
+      this.logger.error(
+        `Failed to register rider ${riderId}`,
+        error.stack,
+        'handleRegisterRider',
+      );
     }
   }
 
   @SubscribeMessage('unregisterRider')
-  handleUnregisterRider(@MessageBody() data: { riderId: number }, @ConnectedSocket() client: Socket) {
+  handleUnregisterRider(@ConnectedSocket() client: Socket) {
+    const riderId = this.authorizeRider(client, 'unregisterRider');
+    if (riderId === null) {
+      return {
+        event: 'authError',
+        data: { message: 'Only rider tokens can unregister a rider' },
+      };
+    }
+
     try {
-      if (this.riderSockets.get(data.riderId) === client.id) {
-        this.riderSockets.delete(data.riderId);
-        this.logger.log(`Rider ${data.riderId} unregistered`);
+      if (this.riderSockets.get(riderId) === client.id) {
+        this.riderSockets.delete(riderId);
+        this.logger.log(`Rider ${riderId} unregistered`);
         // Notify dispatchers of rider disconnection
-        this.broadcastToDispatchers('riderDisconnected', { riderId: data.riderId });
+        this.broadcastToDispatchers('riderDisconnected', { riderId });
       }
     } catch (error) {
-      this.logger.error(`Failed to unregister rider ${data.riderId}`, error.stack, 'handleUnregisterRider');
+      this.logger.error(
+        `Failed to unregister rider ${riderId}`,
+        error.stack,
+        'handleUnregisterRider',
+      );
     }
   }
 
   @SubscribeMessage('registerDispatcher')
   handleRegisterDispatcher(@ConnectedSocket() client: Socket) {
+    if (!this.authorizeDispatcher(client, 'registerDispatcher')) {
+      return {
+        event: 'authError',
+        data: { message: 'Dispatcher role required' },
+      };
+    }
+
     try {
       this.dispatchSockets.add(client.id);
       this.logger.log(`Dispatcher registered with socket ${client.id}`);
     } catch (error) {
-      this.logger.error('Failed to register dispatcher', error.stack, 'handleRegisterDispatcher');
+      this.logger.error(
+        'Failed to register dispatcher',
+        error.stack,
+        'handleRegisterDispatcher',
+      );
     }
   }
 
@@ -103,66 +631,316 @@ export class DispatchGateway {
       this.dispatchSockets.delete(client.id);
       this.logger.log(`Dispatcher unregistered with socket ${client.id}`);
     } catch (error) {
-      this.logger.error('Failed to unregister dispatcher', error.stack, 'handleUnregisterDispatcher');
+      this.logger.error(
+        'Failed to unregister dispatcher',
+        error.stack,
+        'handleUnregisterDispatcher',
+      );
+    }
+  }
+
+  @SubscribeMessage('registerKitchen')
+  async handleRegisterKitchen(
+    @MessageBody() data: { cokitchenId?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const cokitchenId = await this.authorizeKitchen(client, data?.cokitchenId);
+    if (!cokitchenId) {
+      return {
+        event: 'authError',
+        data: { message: 'Kitchen staff linked to a kitchen required' },
+      };
+    }
+
+    // A socket follows one kitchen at a time
+    if (client.data.cokitchenId && client.data.cokitchenId !== cokitchenId) {
+      await client.leave(kitchenRoom(client.data.cokitchenId));
+    }
+    await client.join(kitchenRoom(cokitchenId));
+    client.data.cokitchenId = cokitchenId;
+    this.logger.log(`Socket ${client.id} is following kitchen ${cokitchenId}`);
+    return { event: 'kitchenRegistered', data: { cokitchenId } };
+  }
+
+  @SubscribeMessage('unregisterKitchen')
+  async handleUnregisterKitchen(@ConnectedSocket() client: Socket) {
+    const cokitchenId = client.data?.cokitchenId;
+    if (cokitchenId) {
+      await client.leave(kitchenRoom(cokitchenId));
+      delete client.data.cokitchenId;
+      this.logger.log(
+        `Socket ${client.id} stopped following kitchen ${cokitchenId}`,
+      );
     }
   }
 
   @SubscribeMessage('orderAccepted')
-  handleOrderAccepted(
-    @MessageBody() data: { orderId: number; riderId: number },
-    @ConnectedSocket() client: Socket
+  async handleOrderAccepted(
+    @MessageBody() data: { orderId: number },
+    @ConnectedSocket() client: Socket,
   ) {
+    const riderId = this.getRegisteredRider(client, 'orderAccepted');
+    if (riderId === null) {
+      return {
+        event: 'offerError',
+        data: {
+          orderId: data.orderId,
+          message: 'Rider is not registered on this socket',
+        },
+      };
+    }
+
     try {
-      if (this.riderSockets.get(data.riderId) === client.id) {
-        this.broadcastToDispatchers('orderAccepted', data);
-        this.logger.log(`Order ${data.orderId} accepted by rider ${data.riderId}`);
-      }
-      this.logger.log(`Order ${data.orderId} accepted by rider ${data.riderId}`);
+      await this.dispatchEngine.acceptOffer(data.orderId, riderId);
+      this.metrics.recordOfferResponse('accepted');
+      this.broadcastToDispatchers('orderAccepted', {
+        orderId: data.orderId,
+        riderId,
+      });
+      return { event: 'offerAccepted', data: { orderId: data.orderId } };
     } catch (error) {
-      this.logger.error(`Failed to handle order accepted by rider ${data.riderId}`, error.stack, 'handleOrderAccepted');
+      this.logger.error(
+        `Failed to handle order accepted by rider ${riderId}`,
+        error.stack,
+        'handleOrderAccepted',
+      );
+      return {
+        event: 'offerError',
+        data: { orderId: data.orderId, message: error.message },
+      };
     }
   }
 
   @SubscribeMessage('orderRejected')
-  handleOrderRejected(
-    @MessageBody() data: { orderId: number; riderId: number; reason?: string },
-    @ConnectedSocket() client: Socket
+  async handleOrderRejected(
+    @MessageBody() data: { orderId: number; reason?: string },
+    @ConnectedSocket() client: Socket,
   ) {
+    const riderId = this.getRegisteredRider(client, 'orderRejected');
+    if (riderId === null) {
+      return {
+        event: 'offerError',
+        data: {
+          orderId: data.orderId,
+          message: 'Rider is not registered on this socket',
+        },
+      };
+    }
+
     try {
-      if (this.riderSockets.get(data.riderId) === client.id) {
-        this.broadcastToDispatchers('orderRejected', data);
-        this.logger.log(`Order ${data.orderId} rejected by rider ${data.riderId}`);
-      }
-      this.logger.log(`Order ${data.orderId} rejected by rider ${data.riderId}`);
+      await this.dispatchEngine.rejectOffer(data.orderId, riderId, data.reason);
+      this.metrics.recordOfferResponse('rejected');
+      this.broadcastToDispatchers('orderRejected', {
+        orderId: data.orderId,
+        riderId,
+        reason: data.reason,
+      });
     } catch (error) {
-      this.logger.error(`Failed to handle order rejected by rider ${data.riderId}`, error.stack, 'handleOrderRejected');
+      this.logger.error(
+        `Failed to handle order rejected by rider ${riderId}`,
+        error.stack,
+        'handleOrderRejected',
+      );
+      return {
+        event: 'offerError',
+        data: { orderId: data.orderId, message: error.message },
+      };
+    }
+  }
+
+  @SubscribeMessage('reportFailedTrip')
+  async handleReportFailedTrip(
+    @MessageBody()
+    data: {
+      orderId: number;
+      reason: FailedTripReason;
+      note?: string;
+      photoRef?: string;
+      latitude?: number;
+      longitude?: number;
+    },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const riderId = this.getRegisteredRider(client, 'reportFailedTrip');
+    if (riderId === null) {
+      return {
+        event: 'failedTripError',
+        data: {
+          orderId: data?.orderId,
+          message: 'Rider is not registered on this socket',
+        },
+      };
+    }
+    if (!Object.values(FailedTripReason).includes(data?.reason)) {
+      return {
+        event: 'failedTripError',
+        data: {
+          orderId: data?.orderId,
+          message: `Unknown failed trip reason '${data?.reason}'`,
+        },
+      };
+    }
+
+    try {
+      const { order, failedTrip } = await this.ordersService.reportFailedTrip(
+        data.orderId,
+        {
+          reason: data.reason,
+          note: data.note,
+          photoRef: data.photoRef,
+          latitude: data.latitude,
+          longitude: data.longitude,
+        },
+        { type: Role.RIDER, id: riderId },
+      );
+      this.broadcastFailedTripReported(failedTrip);
+      this.orderTracking.publishStatus(order);
+      return {
+        event: 'failedTripReported',
+        data: this.toFailedTripMessage(failedTrip),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to record failed trip by rider ${riderId}`,
+        error.stack,
+        'handleReportFailedTrip',
+      );
+      return {
+        event: 'failedTripError',
+        data: { orderId: data.orderId, message: error.message },
+      };
     }
   }
 
   @SubscribeMessage('orderDelivered')
   handleOrderDelivered(
-    @MessageBody() data: { orderId: number; riderId: number },
-    @ConnectedSocket() client: Socket
+    @MessageBody() data: { orderId: number },
+    @ConnectedSocket() client: Socket,
   ) {
+    const riderId = this.getRegisteredRider(client, 'orderDelivered');
+    if (riderId === null) {
+      return;
+    }
+
     try {
-      if (this.riderSockets.get(data.riderId) === client.id) {
-        this.broadcastToDispatchers('orderDelivered', data);
-        this.logger.log(`Order ${data.orderId} delivered by rider ${data.riderId}`);
-      }
-      this.logger.log(`Order ${data.orderId} delivered by rider ${data.riderId}`);
+      this.broadcastToDispatchers('orderDelivered', {
+        orderId: data.orderId,
+        riderId,
+      });
+      this.logger.log(`Order ${data.orderId} delivered by rider ${riderId}`);
     } catch (error) {
-      this.logger.error(`Failed to handle order delivered by rider ${data.riderId}`, error.stack, 'handleOrderDelivered');
+      this.logger.error(
+        `Failed to handle order delivered by rider ${riderId}`,
+        error.stack,
+        'handleOrderDelivered',
+      );
     }
   }
 
   private broadcastToDispatchers(event: string, data: any) {
     try {
-      this.dispatchSockets.forEach(socketId => {
+      this.dispatchSockets.forEach((socketId) => {
         this.server.to(socketId).emit(event, data);
       });
       this.logger.log(`Broadcasted event '${event}' to dispatchers`);
     } catch (error) {
-      this.logger.error(`Failed to broadcast event '${event}' to dispatchers`, error.stack, 'broadcastToDispatchers');
+      this.logger.error(
+        `Failed to broadcast event '${event}' to dispatchers`,
+        error.stack,
+        'broadcastToDispatchers',
+      );
+    }
+  }
+
+  private extractToken(client: Socket): string | undefined {
+    const header = client.handshake.headers?.authorization;
+    const bearer =
+      typeof header === 'string' && header.startsWith('Bearer ')
+        ? header.slice(7)
+        : undefined;
+    const query = client.handshake.query?.token;
+    return (
+      client.handshake.auth?.token ??
+      bearer ??
+      (typeof query === 'string' ? query : undefined)
+    );
+  }
+
+  private rejectConnection(client: Socket, reason: string): void {
+    this.logger.warn(
+      `Rejected socket ${client.id} from ${client.handshake.address}: ${reason}`,
+    );
+    client.emit('authError', { message: `Authentication failed: ${reason}` });
+    client.disconnect(true);
+  }
+
+  private getUser(client: Socket): AuthenticatedUser | null {
+    const principal: SocketPrincipal | undefined = client.data?.principal;
+    return principal?.kind === 'user' ? principal.user : null;
+  }
+
+  /** The rider ID from the socket's token, or null if it is not a rider token. */
+  private authorizeRider(client: Socket, event: string): number | null {
+    const user = this.getUser(client);
+    if (!user || user.role !== Role.RIDER) {
+      this.logger.warn(
+        `Socket ${client.id} (role ${user?.role ?? 'customer'}) is not allowed to send '${event}'`,
+      );
+      return null;
+    }
+    return Number(user.userId);
+  }
+
+  /** Like authorizeRider, but the rider must also be registered on this socket. */
+  private getRegisteredRider(client: Socket, event: string): number | null {
+    const riderId = this.authorizeRider(client, event);
+    if (riderId === null || this.riderSockets.get(riderId) !== client.id) {
+      this.logger.warn(
+        `Ignoring '${event}' from unregistered socket ${client.id}`,
+      );
+      return null;
+    }
+    return riderId;
+  }
+
+  /**
+   * The kitchen a socket may follow: kitchen staff get the kitchen on their
+   * account, dispatchers and admins the one they asked for. Null otherwise.
+   */
+  private async authorizeKitchen(
+    client: Socket,
+    requested?: string,
+  ): Promise<string | null> {
+    const user = this.getUser(client);
+    if (user?.role === Role.DISPATCHER || user?.role === Role.ADMIN) {
+      return typeof requested === 'string' && requested ? requested : null;
+    }
+    if (user?.role !== Role.KITCHEN) {
+      this.logger.warn(
+        `Socket ${client.id} (role ${user?.role ?? 'customer'}) is not allowed to send 'registerKitchen'`,
+      );
+      return null;
+    }
+
+    try {
+      const account = await this.usersService.findById(Number(user.userId));
+      return account.cokitchen_id;
+    } catch (error) {
+      this.logger.warn(
+        `Could not resolve the kitchen of user ${user.userId}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private authorizeDispatcher(client: Socket, event: string): boolean {
+    const user = this.getUser(client);
+    if (user?.role !== Role.DISPATCHER && user?.role !== Role.ADMIN) {
+      this.logger.warn(
+        `Socket ${client.id} (role ${user?.role ?? 'customer'}) is not allowed to send '${event}'`,
+      );
+      return false;
     }
+    return true;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex';
+import {
+  DeliveryEventContext,
+  OnDeliveryEvent,
+} from '../rabbitmq/delivery-event.decorator';
+import {
+  OrderAssignedPayload,
+  OrderCancelledPayload,
+  OrderCreatedPayload,
+} from '../interfaces/message-payloads';
+import {
+  KitchenOrderCancelledMessage,
+  KitchenOrderMessage,
+  OrderAssignmentMessage,
+} from '../interfaces/websocket-messages';
+import { DispatchGateway } from './dispatch.gateway';
+
+/**
+ * Keeps each kitchen's room up to date with orders it didn't act on itself:
+ * new orders, the rider coming to collect and cancellations.
+ */
+@Injectable()
+export class KitchenNotificationsConsumer {
+  constructor(private readonly dispatchGateway: DispatchGateway) {}
+
+  @OnDeliveryEvent('order.created')
+  async notifyNewOrder(event: OrderCreatedPayload): Promise<void> {
+    // Scheduled orders reach the kitchen when they are released
+    if (event.scheduled) {
+      return;
+    }
+
+    const message: KitchenOrderMessage = {
+      orderId: event.orderId,
+      orderCode: event.orderCode,
+      status: event.status,
+      kitchenPrepared: false,
+      boxNumber: null,
+      shelfId: null,
+      riderId: null,
+      scheduled: event.scheduled,
+      updatedAt: event.createdAt,
+    };
+    this.dispatchGateway.emitToKitchen(
+      event.cokitchenId,
+      'kitchenNewOrder',
+      message,
+    );
+  }
+
+  @OnDeliveryEvent('order.assigned')
+  async notifyRiderAssigned(
+    event: OrderAssignedPayload,
+    { trx }: DeliveryEventContext,
+  ): Promise<void> {
+    const message: OrderAssignmentMessage = {
+      orderId: event.orderId,
+      riderId: event.riderId,
+    };
+    this.dispatchGateway.emitToKitchen(
+      await findKitchen(trx, event.orderId),
+      'kitchenRiderAssigned',
+      message,
+    );
+  }
+
+  @OnDeliveryEvent('order.cancelled')
+  async notifyOrderCancelled(
+    event: OrderCancelledPayload,
+    { trx }: DeliveryEventContext,
+  ): Promise<void> {
+    const message: KitchenOrderCancelledMessage = {
+      orderId: event.orderId,
+      category: event.category,
+      reasonCode: event.reasonCode,
+      note: event.note,
+      cancelledAt: event.cancelledAt,
+    };
+    this.dispatchGateway.emitToKitchen(
+      await findKitchen(trx, event.orderId),
+      'kitchenOrderCancelled',
+      message,
+    );
+  }
+}
+
+async function findKitchen(
+  trx: Knex.Transaction,
+  orderId: number,
+): Promise<string | null> {
+  const row = await trx('orders')
+    .join(
+      'calculated_orders',
+      'orders.calculated_order_id',
+      'calculated_orders.id',
+    )
+    .where('orders.id', orderId)
+    .first('calculated_orders.cokitchen_id');
+  return row?.cokitchen_id ?? null;
+}
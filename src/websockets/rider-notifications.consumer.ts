@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DeliveryEventContext,
+  OnDeliveryEvent,
+} from '../rabbitmq/delivery-event.decorator';
+import {
+  OrderAssignedPayload,
+  OrderCancelledPayload,
+} from '../interfaces/message-payloads';
+import { DispatchGateway } from './dispatch.gateway';
+
+/**
+ * Tells riders over their socket when an order has been assigned to them
+ * (with the code to show at the kitchen) or cancelled from under them.
+ */
+@Injectable()
+export class RiderNotificationsConsumer {
+  constructor(private readonly dispatchGateway: DispatchGateway) {}
+
+  @OnDeliveryEvent('order.assigned')
+  async notifyAssignedRider(
+    event: OrderAssignedPayload,
+    { occurredAt, trx }: DeliveryEventContext,
+  ): Promise<void> {
+    // The pickup code stays off the broker; it is read here and only sent
+    // to the rider, as long as the order is still theirs
+    const order = await trx('orders')
+      .where({ id: event.orderId, rider_id: event.riderId })
+      .first('pickup_code');
+
+    // A rider who is offline picks the order up from the API on reconnect,
+    // so an undelivered notice isn't retried
+    this.dispatchGateway.sendAssignmentToRider({
+      orderId: event.orderId,
+      riderId: event.riderId,
+      status: event.status,
+      deliveryLatitude: event.deliveryLatitude,
+      deliveryLongitude: event.deliveryLongitude,
+      assignedAt: occurredAt,
+      pickupCode: order?.pickup_code ?? null,
+    });
+  }
+
+  @OnDeliveryEvent('order.cancelled')
+  async notifyReleasedRider(event: OrderCancelledPayload): Promise<void> {
+    // As with assignments, an offline rider sees the order gone on reconnect
+    this.dispatchGateway.notifyOrderCancelled({
+      orderId: event.orderId,
+      riderId: event.riderId,
+      category: event.category,
+      reasonCode: event.reasonCode,
+      note: event.note,
+      cancelledAt: event.cancelledAt,
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ZonesService } from './zones.service';
+import { CreateZoneDto, UpdateZoneDto } from '../dto/zone.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+
+@ApiTags('zones')
+@ApiBearerAuth()
+@Controller('zones')
+export class ZonesController {
+  constructor(private readonly zonesService: ZonesService) {}
+
+  @ApiOperation({ summary: 'Create a delivery zone from a GeoJSON polygon' })
+  @ApiResponse({ status: 201, description: 'Zone created' })
+  @ApiResponse({ status: 400, description: 'Invalid polygon' })
+  @Post()
+  @Roles(Role.ADMIN)
+  async createZone(@Body() data: CreateZoneDto) {
+    return this.zonesService.createZone(data);
+  }
+
+  @ApiOperation({ summary: 'List delivery zones' })
+  @ApiQuery({ name: 'includeInactive', type: Boolean, required: false })
+  @Get()
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  async getZones(@Query('includeInactive') includeInactive?: string) {
+    return this.zonesService.findAll(includeInactive === 'true');
+  }
+
+  @ApiOperation({ summary: 'Find the active zone serving a location' })
+  @ApiQuery({ name: 'lat', type: Number })
+  @ApiQuery({ name: 'lng', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'The matching zone, or null when the point is not served',
+  })
+  @Get('lookup')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  async lookupZone(@Query('lat') lat: number, @Query('lng') lng: number) {
+    return (
+      (await this.zonesService.findZoneForPoint(Number(lat), Number(lng))) ??
+      null
+    );
+  }
+
+  @ApiOperation({ summary: 'Get a delivery zone' })
+  @ApiResponse({ status: 404, description: 'Zone not found' })
+  @Get(':id')
+  @Roles(Role.DISPATCHER, Role.CUSTOMER_SERVICE, Role.KITCHEN)
+  async getZone(@Param('id') id: number) {
+    return this.zonesService.findById(id);
+  }
+
+  @ApiOperation({ summary: 'Update a delivery zone' })
+  @Put(':id')
+  @Roles(Role.ADMIN)
+  async updateZone(@Param('id') id: number, @Body() data: UpdateZoneDto) {
+    return this.zonesService.updateZone(id, data);
+  }
+
+  @ApiOperation({ summary: 'Delete a delivery zone' })
+  @Delete(':id')
+  @Roles(Role.ADMIN)
+  async deleteZone(@Param('id') id: number) {
+    await this.zonesService.deleteZone(id);
+    return { success: true };
+  }
+
+  @ApiOperation({ summary: 'List riders whose home zone this is' })
+  @Get(':id/riders')
+  @Roles(Role.DISPATCHER)
+  async getZoneRiders(@Param('id') id: number) {
+    return this.zonesService.getZoneRiders(id);
+  }
+
+  @ApiOperation({ summary: "Set a rider's home zone" })
+  @Put(':id/riders/:riderId')
+  @Roles(Role.DISPATCHER)
+  async assignRider(
+    @Param('id') id: number,
+    @Param('riderId') riderId: number,
+  ) {
+    return this.zonesService.setRiderHomeZone(riderId, id);
+  }
+
+  @ApiOperation({ summary: "Clear a rider's home zone" })
+  @Delete(':id/riders/:riderId')
+  @Roles(Role.DISPATCHER)
+  async unassignRider(
+    @Param('id') id: number,
+    @Param('riderId') riderId: number,
+  ) {
+    return this.zonesService.setRiderHomeZone(riderId, null);
+  }
+}
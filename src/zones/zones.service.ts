@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Knex } from 'knex';
+import { DatabaseService } from '../config/database.service';
+import { CustomLogger } from '../common/logger/logger.service';
+import { DeliveryZone, GeoJsonPolygon } from '../models/delivery-zone.model';
+import { CreateZoneDto, UpdateZoneDto } from '../dto/zone.dto';
+import {
+  getBoundingBox,
+  isPointInPolygon,
+  validateGeoJsonPolygon,
+} from '../common/geo/geo.utils';
+
+@Injectable()
+export class ZonesService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: CustomLogger,
+  ) {
+    this.logger.setContext(ZonesService.name);
+  }
+
+  async createZone(data: CreateZoneDto): Promise<DeliveryZone> {
+    try {
+      const [zone] = await this.db
+        .knex('delivery_zones')
+        .insert({
+          name: data.name,
+          cokitchen_id: data.cokitchen_id,
+          is_active: data.is_active ?? true,
+          ...this.toPolygonColumns(data.polygon),
+        })
+        .returning('*');
+
+      this.logger.log(`Created delivery zone ${zone.id} (${zone.name})`);
+      return zone;
+    } catch (error) {
+      this.logger.error(
+        'Failed to create delivery zone',
+        error.stack,
+        'createZone',
+      );
+      throw error;
+    }
+  }
+
+  async findAll(includeInactive = false): Promise<DeliveryZone[]> {
+    const query = this.db.knex('delivery_zones').orderBy('id', 'asc');
+    if (!includeInactive) {
+      query.where('is_active', true);
+    }
+    return query;
+  }
+
+  async findById(
+    zoneId: number,
+    trx?: Knex.Transaction,
+  ): Promise<DeliveryZone> {
+    const zone = await (trx ?? this.db.knex)('delivery_zones')
+      .where('id', zoneId)
+      .first();
+    if (!zone) {
+      throw new NotFoundException(`Delivery zone with ID ${zoneId} not found`);
+    }
+    return zone;
+  }
+
+  async updateZone(zoneId: number, data: UpdateZoneDto): Promise<DeliveryZone> {
+    try {
+      await this.findById(zoneId);
+
+      const [zone] = await this.db
+        .knex('delivery_zones')
+        .where('id', zoneId)
+        .update({
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.cokitchen_id !== undefined && {
+            cokitchen_id: data.cokitchen_id,
+          }),
+          ...(data.is_active !== undefined && { is_active: data.is_active }),
+          ...(data.polygon !== undefined &&
+            this.toPolygonColumns(data.polygon)),
+          updated_at: this.db.knex.fn.now(),
+        })
+        .returning('*');
+
+      return zone;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update delivery zone ${zoneId}`,
+        error.stack,
+        'updateZone',
+      );
+      throw error;
+    }
+  }
+
+  async deleteZone(zoneId: number): Promise<void> {
+    try {
+      await this.findById(zoneId);
+      // riders.home_zone_id is cleared by the ON DELETE SET NULL constraint
+      await this.db.knex('delivery_zones').where('id', zoneId).delete();
+      this.logger.log(`Deleted delivery zone ${zoneId}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete delivery zone ${zoneId}`,
+        error.stack,
+        'deleteZone',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the active zone containing the point, or undefined when the point
+   * is outside every served area. Where zones overlap the oldest one wins.
+   */
+  async findZoneForPoint(
+    lat: number,
+    lng: number,
+    trx?: Knex.Transaction,
+  ): Promise<DeliveryZone | undefined> {
+    const candidates: DeliveryZone[] = await (trx ?? this.db.knex)(
+      'delivery_zones',
+    )
+      .where('is_active', true)
+      .where('min_lat', '<=', lat)
+      .where('max_lat', '>=', lat)
+      .where('min_lng', '<=', lng)
+      .where('max_lng', '>=', lng)
+      .orderBy('id', 'asc');
+
+    return candidates.find((zone) => isPointInPolygon(lat, lng, zone.polygon));
+  }
+
+  /**
+   * Keeps only riders whose current position lies inside the zone. Orders
+   * without a zone (created before zones existed) are not restricted.
+   */
+  async filterRidersInZone<
+    T extends {
+      current_latitude?: string | number | null;
+      current_longitude?: string | number | null;
+    },
+  >(zoneId: number | string | null | undefined, riders: T[]): Promise<T[]> {
+    if (!zoneId || !riders.length) {
+      return riders;
+    }
+
+    const zone = await this.db
+      .knex('delivery_zones')
+      .where('id', zoneId)
+      .first();
+    if (!zone) {
+      this.logger.warn(
+        `Delivery zone ${zoneId} no longer exists, skipping zone filter`,
+      );
+      return riders;
+    }
+
+    return riders.filter(
+      (rider) =>
+        rider.current_latitude != null &&
+        rider.current_longitude != null &&
+        isPointInPolygon(
+          Number(rider.current_latitude),
+          Number(rider.current_longitude),
+          zone.polygon,
+        ),
+    );
+  }
+
+  async getZoneRiders(zoneId: number) {
+    await this.findById(zoneId);
+    return this.db
+      .knex('riders')
+      .where('home_zone_id', zoneId)
+      .select(
+        'id',
+        'name',
+        'phone',
+        'is_available',
+        'current_latitude',
+        'current_longitude',
+      )
+      .orderBy('id', 'asc');
+  }
+
+  async setRiderHomeZone(riderId: number, zoneId: number | null) {
+    try {
+      if (zoneId !== null) {
+        await this.findById(zoneId);
+      }
+
+      const [rider] = await this.db
+        .knex('riders')
+        .where('id', riderId)
+        .update({ home_zone_id: zoneId, updated_at: this.db.knex.fn.now() })
+        .returning(['id', 'name', 'home_zone_id']);
+
+      if (!rider) {
+        throw new NotFoundException(`Rider with ID ${riderId} not found`);
+      }
+      return rider;
+    } catch (error) {
+      this.logger.error(
+        `Failed to set home zone of rider ${riderId} to ${zoneId}`,
+        error.stack,
+        'setRiderHomeZone',
+      );
+      throw error;
+    }
+  }
+
+  private toPolygonColumns(polygon: GeoJsonPolygon) {
+    const problem = validateGeoJsonPolygon(polygon);
+    if (problem) {
+      throw new BadRequestException(`Invalid zone polygon: ${problem}`);
+    }
+
+    const box = getBoundingBox(polygon);
+    return {
+      polygon: JSON.stringify(polygon),
+      min_lat: box.minLat,
+      max_lat: box.maxLat,
+      min_lng: box.minLng,
+      max_lng: box.maxLng,
+    };
+  }
+}
@@ -4,6 +4,9 @@ import * as request from 'supertest';
 import { App } from 'supertest/types';
 import { AppModule } from './../src/app.module';
 
+// Run without a broker; events stay in process
+process.env.EVENT_BUS_DRIVER = 'memory';
+
 describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
 